@@ -4,9 +4,18 @@ import {
   TILE_SIZE,
   GRID_WIDTH,
   GRID_HEIGHT,
-  ROUND_TIME,
   COUNTDOWN_TIME,
-  POWERUP_SPAWN_CHANCE,
+  ROUND_INTERMISSION_TIME,
+  SUDDEN_DEATH_TIME,
+  SUDDEN_DEATH_WARNING_TIME,
+  REVENGE_THROW_DISTANCE,
+  REVENGE_INVULNERABLE_TIME,
+  RESPAWN_INVULNERABLE_TIME,
+  MINE_REVEAL_DISTANCE,
+  GLOVE_THROW_DISTANCE,
+  GLOVE_BOUNCE_TIME,
+  KILL_FEED_TIME,
+  SKULL_CURSES,
   COLORS,
   CANVAS_WIDTH,
   CANVAS_HEIGHT
@@ -14,22 +23,54 @@ import {
 import { GameLoop } from './core/GameLoop';
 import { InputManager } from './core/InputManager';
 import { EventBus } from './core/EventBus';
+import { Random, generateSeed } from './core/Random';
+import { Scheduler } from './core/Scheduler';
+import { PlayerInput, NO_INPUT } from './core/PlayerInput';
+import { MatchSetup, PlayerSetup, TeamMode, TEAM_MODES, ROUND_FORMATS, LIVES_OPTIONS, teamForSlot } from './core/MatchSetup';
+import { MatchProgress, KillRecord } from './core/MatchProgress';
+import { MatchStats } from './core/MatchStats';
+import { Profile, ProfileStore, ProfileScreenState, MatchRecord, BINDING_ACTIONS, MAX_NAME_LENGTH, createId } from './core/Profiles';
+import { KeyBinding } from './core/InputManager';
+import { AchievementTracker, ACHIEVEMENT_EVENTS, AchievementEvent, AchievementEvents } from './core/Achievements';
+import { SuddenDeath } from './core/SuddenDeath';
+import { RevengeCart } from './core/Revenge';
+import { GameRules, DEFAULT_RULES, RULE_PRESETS } from './rules/GameRules';
 import { SoundManager } from './core/SoundManager';
 import { Renderer, RenderState } from './rendering/Renderer';
-import { Player, BombType } from './entities/Player';
-import { Bomb } from './entities/Bomb';
+import { Entity, EntitySnapshot } from './entities/Entity';
+import { Player, BombType, Death } from './entities/Player';
+import { Bomb, PUNCH_FLIGHT_TIME } from './entities/Bomb';
+import { Mine } from './entities/Mine';
 import { Block } from './entities/Block';
 import { Explosion, ExplosionTile } from './entities/Explosion';
 import { PowerUp, PowerUpType } from './entities/PowerUp';
 import { TileType, MapData, ALL_MAPS } from './map/TileTypes';
-import { SimpleAI } from './ai/SimpleAI';
+import { SimpleAI, AIDecision } from './ai/SimpleAI';
 import { ScoreManager, ScoreEvent } from './core/ScoreManager';
 import { FloatingText } from './rendering/FloatingText';
 import { Camera } from './rendering/Camera';
+import { SpectatorCamera } from './rendering/SpectatorCamera';
 import {ParticleSystem} from "./rendering/ParticleSystem.ts";
 import { Telemetry } from './testing/Telemetry';
 import { aiTracker } from './testing/AITracker';
 import { haltDetector } from './testing/HaltDetector';
+import { ReplayData, serializeReplay } from './replay/Replay';
+import { ReplayRecorder } from './replay/ReplayRecorder';
+import { ReplayPlayer } from './replay/ReplayPlayer';
+import { GameSnapshot, GridCellSnapshot, SNAPSHOT_VERSION, serializeSnapshot, parseSnapshot } from './core/GameSnapshot';
+import { NetworkClient } from './net/NetworkClient';
+import { SPECTATOR_DELAY } from './net/Protocol';
+import { RollbackSession, RollbackPeer, RollbackConfig, DEFAULT_ROLLBACK_CONFIG } from './net/RollbackSession';
+
+const SAVE_GAME_KEY = 'bombbattles.savedGame';
+
+// Starting corner of each player slot
+const SPAWN_POSITIONS = [
+  { x: 1, y: 1 },
+  { x: GRID_WIDTH - 2, y: 1 },
+  { x: 1, y: GRID_HEIGHT - 2 },
+  { x: GRID_WIDTH - 2, y: GRID_HEIGHT - 2 }
+];
 
 export class Game {
   private renderer: Renderer;
@@ -41,6 +82,7 @@ export class Game {
   private phase: GamePhase = GamePhase.MAIN_MENU;
   private players: Player[] = [];
   private bombs: Bomb[] = [];
+  private mines: Mine[] = [];
   private blocks: Block[] = [];
   private explosions: Explosion[] = [];
   private powerUps: PowerUp[] = [];
@@ -49,10 +91,40 @@ export class Game {
 
   private scoreManager: ScoreManager;
 
-  private roundTime: number = ROUND_TIME;
+  // Rounds of the current match (trophies, per-round results); scores carry over between rounds
+  private match: MatchProgress = new MatchProgress(1, 4);
+  private stats: MatchStats = new MatchStats(4);
+  private statsTab: number = 0; // Page of the post-match stats screen
+  private roundsToWin: number = 1; // Menu choice
+
+  // Sudden death: blocks fill the arena in a spiral during the last minute (null = off this round)
+  private suddenDeathEnabled: boolean = true;
+  private suddenDeath: SuddenDeath | null = null;
+
+  // Revenge: eliminated players ride the outer wall and lob bombs back in
+  private revengeEnabled: boolean = false;
+  private revengeCarts: RevengeCart[] = [];
+
+  private livesPerPlayer: number = 1; // Menu choice; 1 = classic last-one-standing
+
+  // Menu choice: drop table, fuse, round length, starting loadout and caps
+  private rules: GameRules = DEFAULT_RULES;
+
+  private roundTime: number = DEFAULT_RULES.roundTime;
   private countdownTime: number = COUNTDOWN_TIME;
+  private intermissionTime: number = 0;
   private playerCount: number = 2;
   private winner: Player | null = null;
+  private winningTeam: number | null = null; // Set alongside winner when teams are on
+  private gameOverAt: number | null = null; // Simulation time of the pending game-over transition
+
+  // Delayed actions (death effects, game-over transition) on simulation time
+  private scheduler: Scheduler = new Scheduler();
+
+  // Replays: every live match is recorded; a replay player replaces input + AI during playback
+  // (null after restoring a snapshot - a replay can't start mid-match)
+  private replayRecorder: ReplayRecorder | null = null;
+  private replayPlayer: ReplayPlayer | null = null;
 
   // AI support
   private aiControllers: Map<number, SimpleAI> = new Map();
@@ -63,8 +135,48 @@ export class Game {
   // Map selection
   private selectedMapIndex: number = 0;
 
+  // Teams (menu choice) and whether teammates' explosions hurt each other
+  private teamMode: TeamMode = 'none';
+  private friendlyFire: boolean = true;
+
+  // Explicit player setup (network rooms etc.) - overrides the menu's single/multiplayer choice
+  private matchSetup: PlayerSetup[] | null = null;
+
+  // Local profiles: who sits in which slot of menu matches, and the profile screen's state
+  private profiles: ProfileStore = new ProfileStore(typeof localStorage !== 'undefined' ? localStorage : null);
+  private seats: (string | null)[] = [null, null, null, null];
+  private profileCursor: number = 0;
+  private profileName: string | null = null;   // Being typed for a new profile
+  private rebinding: { profileId: string; keys: string[] } | null = null;
+  private confirmDelete: boolean = false;      // Delete pressed once on the profile or match under the cursor
+  private historyCursor: number = 0;
+  private matchRecorded: boolean = false;      // This match is already in the history
+  private interactive: boolean = false;        // Runs its own loop for a player (start()), not stepped headless
+  private achievements: AchievementTracker = new AchievementTracker();
+
+  // Inputs pushed from outside (network); buttons are latched until the next tick consumes them
+  private remoteInputs: Map<number, PlayerInput> = new Map();
+
+  // Online play: the server simulates, this game only sends input and shows received state
+  private networkClient: NetworkClient | null = null;
+  private spectatorCamera: SpectatorCamera | null = null;
+
+  // Peer-to-peer rollback: the session feeds every tick's inputs and may rewind the game
+  private rollbackSession: RollbackSession | null = null;
+  private steppingInputs: PlayerInput[] | null = null;
+
+  // Gameplay RNG position while detach()ed from the shared services
+  private detachedRngState: number = 0;
+
+  // Bound EventBus handlers, kept so destroy() can unsubscribe them
+  private eventHandlers: { event: string; handler: (data: any) => void }[] = [];
+
   // Grid for collision detection
-  private grid: (Block | Bomb | null)[][] = [];
+  private grid: (Block | Bomb | Mine | null)[][] = [];
+
+  // Seed of the current match; forcedSeed overrides the random pick for the next one
+  private seed: number = 0;
+  private forcedSeed: number | null = null;
 
   constructor(canvas: HTMLCanvasElement) {
     this.renderer = new Renderer(canvas);
@@ -84,22 +196,31 @@ export class Game {
   }
 
   private setupEventListeners(): void {
-    EventBus.on('bomb-placed', this.onBombPlaced.bind(this));
-    EventBus.on('bomb-explode', this.onBombExplode.bind(this));
-    EventBus.on('bomb-landed', this.onBombLanded.bind(this));
-    EventBus.on('block-destroyed', this.onBlockDestroyed.bind(this));
-    EventBus.on('player-died', this.onPlayerDied.bind(this));
-    EventBus.on('score-changed', this.onScoreChanged.bind(this));
-    EventBus.on('teleport-start', this.onTeleportStart.bind(this));
-    EventBus.on('teleport-arrived', this.onTeleportArrived.bind(this));
-    EventBus.on('player-step', this.onPlayerStep.bind(this));
-    EventBus.on('player-trail', this.onPlayerTrail.bind(this));
-    EventBus.on('player-dust-cloud', this.onPlayerDustCloud.bind(this));
-    EventBus.on('player-speed-lines', this.onPlayerSpeedLines.bind(this));
-    EventBus.on('bomb-danger-sparks', this.onBombDangerSparks.bind(this));
-    EventBus.on('shield-consumed', this.onShieldConsumed.bind(this));
-    EventBus.on('diarrhea-bomb', this.onDiarrheaBomb.bind(this));
-    EventBus.on('player-pushback', this.onPlayerPushback.bind(this));
+    this.listen('bomb-placed', this.onBombPlaced);
+    this.listen('bomb-explode', this.onBombExplode);
+    this.listen('bomb-landed', this.onBombLanded);
+    this.listen('block-destroyed', this.onBlockDestroyed);
+    this.listen('player-died', this.onPlayerDied);
+    this.listen('score-changed', this.onScoreChanged);
+    this.listen('teleport-start', this.onTeleportStart);
+    this.listen('teleport-arrived', this.onTeleportArrived);
+    this.listen('player-step', this.onPlayerStep);
+    this.listen('player-trail', this.onPlayerTrail);
+    this.listen('player-dust-cloud', this.onPlayerDustCloud);
+    this.listen('player-speed-lines', this.onPlayerSpeedLines);
+    this.listen('bomb-danger-sparks', this.onBombDangerSparks);
+    this.listen('shield-consumed', this.onShieldConsumed);
+    this.listen('diarrhea-bomb', this.onDiarrheaBomb);
+    this.listen('player-pushback', this.onPlayerPushback);
+    for (const event of ACHIEVEMENT_EVENTS) {
+      this.listen(event, data => this.onAchievementEvent(event, data));
+    }
+  }
+
+  private listen(event: string, handler: (data: any) => void): void {
+    const bound = handler.bind(this);
+    EventBus.on(event, bound);
+    this.eventHandlers.push({ event, handler: bound });
   }
 
   private initializeGrid(): void {
@@ -113,35 +234,394 @@ export class Game {
   }
 
   start(): void {
+    this.interactive = true;
     this.gameLoop.start();
   }
 
+  // Advance one fixed tick without the render loop (headless server, tools)
+  step(deltaTime: number): void {
+    this.update(deltaTime);
+  }
+
+  getPhase(): GamePhase {
+    return this.phase;
+  }
+
+  getWinnerIndex(): number | null {
+    return this.winner ? this.winner.playerIndex : null;
+  }
+
+  getWinningTeam(): number | null {
+    return this.winningTeam;
+  }
+
+  // Start a match with an explicit setup instead of the menu's choices
+  startMatch(setup: MatchSetup): void {
+    this.matchSetup = setup.players;
+    this.achievements.stop();
+    this.playerCount = setup.players.length;
+    this.isSinglePlayer = false;
+    this.friendlyFire = setup.friendlyFire ?? true;
+    this.roundsToWin = setup.roundsToWin ?? 1;
+    this.suddenDeathEnabled = setup.suddenDeath ?? true;
+    this.revengeEnabled = setup.revenge ?? false;
+    this.livesPerPlayer = setup.lives ?? 1;
+    this.rules = setup.rules ?? DEFAULT_RULES;
+    this.selectedMapIndex = setup.mapIndex;
+    this.startNewGame();
+  }
+
+  // Input for a player controlled from outside this process
+  setRemoteInput(playerIndex: number, input: PlayerInput): void {
+    const previous = this.remoteInputs.get(playerIndex);
+    this.remoteInputs.set(playerIndex, {
+      direction: input.direction,
+      bomb: input.bomb || (previous?.bomb ?? false),
+      special: input.special || (previous?.special ?? false),
+      specialHeld: input.specialHeld,
+    });
+  }
+
+  // One tick with every player's input given explicitly (rollback sessions)
+  stepWithInputs(deltaTime: number, inputs: PlayerInput[]): void {
+    this.steppingInputs = inputs;
+    this.tick(deltaTime);
+    this.steppingInputs = null;
+  }
+
+  // What the local keyboard and bots would do this tick, without simulating it
+  sampleInputs(deltaTime: number): PlayerInput[] {
+    if (this.phase !== GamePhase.PLAYING) {
+      return this.players.map(() => NO_INPUT);
+    }
+    return this.collectInputs(deltaTime);
+  }
+
+  // Start a peer-to-peer match; this game controls `localSlots`, the peers the rest
+  startRollbackMatch(
+    setup: MatchSetup,
+    seed: number,
+    localSlots: number[],
+    peers: RollbackPeer[],
+    config: RollbackConfig = DEFAULT_ROLLBACK_CONFIG
+  ): RollbackSession {
+    this.setSeed(seed);
+    this.startMatch(setup);
+    this.rollbackSession = new RollbackSession(this, localSlots, peers, config);
+    return this.rollbackSession;
+  }
+
+  private updateRollback(deltaTime: number): void {
+    if (this.phase === GamePhase.GAME_OVER) {
+      this.updateStatsTab();
+    }
+    if (this.phase === GamePhase.GAME_OVER && this.inputManager.isKeyJustPressed('Escape')) {
+      this.rollbackSession = null;
+      this.phase = GamePhase.MAIN_MENU;
+      SoundManager.startMenuMusic();
+      return;
+    }
+
+    this.rollbackSession!.advance(deltaTime);
+  }
+
+  // Several games in one process (loopback rollback tests) take turns owning the
+  // shared EventBus subscriptions and gameplay RNG
+  detach(): void {
+    for (const { event, handler } of this.eventHandlers) {
+      EventBus.off(event, handler);
+    }
+    this.detachedRngState = Random.gameplay.getState();
+  }
+
+  attach(): void {
+    for (const { event, handler } of this.eventHandlers) {
+      EventBus.on(event, handler);
+    }
+    Random.reseed(this.seed);
+    Random.gameplay.setState(this.detachedRngState);
+  }
+
+  // Stop the loop and detach from global services (several games can share a process headless)
+  destroy(): void {
+    this.gameLoop.stop();
+    this.networkClient?.close();
+    this.inputManager.destroy();
+    for (const { event, handler } of this.eventHandlers) {
+      EventBus.off(event, handler);
+    }
+    this.eventHandlers = [];
+    this.scheduler.reset();
+  }
+
   private update(deltaTime: number): void {
-    // Check for hit stop (visual freeze frame juice)
-    if (this.renderer.isFrozen()) {
+    if (this.rollbackSession) {
+      this.updateRollback(deltaTime);
+    } else if (this.networkClient) {
+      this.updateOnline(deltaTime);
+    } else if (this.replayPlayer) {
+      this.updateReplay(deltaTime);
+    } else {
+      this.tick(deltaTime);
+    }
+
+    // Only menu matches played here go in the history - replays and server-run matches were
+    // played (and recorded) elsewhere, and headless runs (server, tests) have no one to keep it for
+    if (this.phase === GamePhase.GAME_OVER && !this.matchRecorded && this.interactive &&
+        !this.matchSetup && !this.replayPlayer && !this.networkClient) {
+      this.recordMatch();
+    }
+    this.renderer.updateAchievementToasts(deltaTime);
+
+    this.inputManager.clearFrameState();
+  }
+
+  // One fixed simulation step
+  private tick(deltaTime: number): void {
+    // Check for hit stop (visual freeze frame juice) - not part of snapshots, so
+    // skipped when ticks may be rolled back and re-simulated
+    if (!this.steppingInputs && this.renderer.isFrozen()) {
       this.renderer.update(deltaTime);
       return;
     }
 
+    // Delayed actions follow simulation time, so they pause along with the game
+    if (this.phase !== GamePhase.PAUSED && this.phase !== GamePhase.MAIN_MENU &&
+        this.phase !== GamePhase.PLAYER_SELECT && this.phase !== GamePhase.HISTORY &&
+        this.phase !== GamePhase.ACHIEVEMENTS) {
+      this.scheduler.update(deltaTime);
+    }
+
     switch (this.phase) {
       case GamePhase.MAIN_MENU:
         this.updateMainMenu();
         break;
+      case GamePhase.PLAYER_SELECT:
+        this.updateProfiles();
+        break;
+      case GamePhase.HISTORY:
+        this.updateHistory();
+        break;
+      case GamePhase.ACHIEVEMENTS:
+        this.updateAchievementGallery();
+        break;
       case GamePhase.COUNTDOWN:
         this.updateCountdown(deltaTime);
         break;
       case GamePhase.PLAYING:
         this.updatePlaying(deltaTime);
         break;
+      case GamePhase.ROUND_END:
+        this.updateIntermission(deltaTime);
+        break;
       case GamePhase.PAUSED:
         this.updatePaused();
         break;
       case GamePhase.GAME_OVER:
-        this.updateGameOver();
+        // Replay playback and rollback matches handle their own game-over keys
+        if (!this.replayPlayer && !this.rollbackSession) {
+          this.updateGameOver();
+        }
         break;
     }
+  }
 
-    this.inputManager.clearFrameState();
+  private updateReplay(deltaTime: number): void {
+    const replayPlayer = this.replayPlayer!;
+
+    if (this.inputManager.isKeyJustPressed('Escape')) {
+      this.stopReplay();
+      return;
+    }
+
+    if (this.phase === GamePhase.GAME_OVER) {
+      // Confetti etc. still play out
+      this.tick(deltaTime);
+      this.updateStatsTab();
+      if (this.inputManager.isKeyJustPressed('Space') || this.inputManager.isKeyJustPressed('KeyR')) {
+        this.startReplay(replayPlayer.replay);
+      }
+      return;
+    }
+
+    // Playback controls
+    if (this.inputManager.isKeyJustPressed('KeyP')) {
+      replayPlayer.togglePause();
+    }
+    if (this.inputManager.isKeyJustPressed('Period')) {
+      replayPlayer.step();
+    }
+    if (this.inputManager.isKeyJustPressed('Equal')) {
+      replayPlayer.faster();
+    }
+    if (this.inputManager.isKeyJustPressed('Minus')) {
+      replayPlayer.slower();
+    }
+
+    const ticks = replayPlayer.consumeTicks();
+    for (let i = 0; i < ticks; i++) {
+      this.tick(deltaTime);
+    }
+  }
+
+  // Connect to a game server room (empty room code = create a new room)
+  joinOnline(url: string, roomCode: string, name: string, spectate: boolean = false): void {
+    this.leaveOnline();
+    SoundManager.stopMenuMusic();
+    this.networkClient = new NetworkClient(url, roomCode, name, spectate);
+    this.achievements.stop();
+    this.spectatorCamera = spectate ? new SpectatorCamera(this.renderer.getCamera()) : null;
+    this.phase = GamePhase.LOBBY;
+  }
+
+  private leaveOnline(): void {
+    if (!this.networkClient) return;
+
+    this.networkClient.close();
+    this.networkClient = null;
+    if (this.spectatorCamera) {
+      this.spectatorCamera = null;
+      this.renderer.getCamera().resetView();
+    }
+    SoundManager.stopMusic();
+    this.phase = GamePhase.MAIN_MENU;
+    SoundManager.startMenuMusic();
+  }
+
+  private updateOnline(deltaTime: number): void {
+    const client = this.networkClient!;
+    const lobby = client.lobby;
+
+    if (!lobby || !lobby.inMatch) {
+      if (this.phase !== GamePhase.LOBBY) {
+        SoundManager.stopMusic();
+        this.phase = GamePhase.LOBBY;
+      }
+      this.updateLobby(client);
+      return;
+    }
+
+    const state = client.takeState();
+    if (state) {
+      this.applyServerState(state);
+    }
+    // Spectators joining mid-match wait in the lobby for their first full state
+    if (this.phase === GamePhase.LOBBY) {
+      this.updateLobby(client);
+      return;
+    }
+
+    if (client.yourSlot !== null) {
+      // Either keyboard layout works - there is only one local player
+      client.sendInput({
+        direction: this.inputManager.getMovementDirection(0) ?? this.inputManager.getMovementDirection(1),
+        bomb: this.inputManager.isBombPressed(0) || this.inputManager.isBombPressed(1),
+        special: this.inputManager.isSpecialPressed(0) || this.inputManager.isSpecialPressed(1),
+        specialHeld: this.inputManager.isSpecialHeld(0) || this.inputManager.isSpecialHeld(1),
+      });
+    } else if (this.spectatorCamera) {
+      if (this.updateSpectator(this.spectatorCamera, deltaTime)) return;
+    }
+
+    for (const text of this.floatingTexts) {
+      text.update(deltaTime);
+    }
+    this.floatingTexts = this.floatingTexts.filter(t => t.active);
+    this.renderer.update(deltaTime);
+  }
+
+  // Spectator camera controls; returns true if the spectator left
+  private updateSpectator(spectatorCamera: SpectatorCamera, deltaTime: number): boolean {
+    const input = this.inputManager;
+    if (input.isKeyJustPressed('Escape')) {
+      this.leaveOnline();
+      return true;
+    }
+
+    if (input.isKeyJustPressed('Digit0')) {
+      spectatorCamera.showOverview();
+    }
+    ['Digit1', 'Digit2', 'Digit3', 'Digit4'].forEach((key, index) => {
+      if (input.isKeyJustPressed(key) && index < this.players.length) {
+        spectatorCamera.follow(index);
+      }
+    });
+    if (input.isKeyJustPressed('KeyF')) {
+      spectatorCamera.freeLook();
+    }
+    if (input.isKeyJustPressed('KeyV')) {
+      spectatorCamera.cycle(this.players.length);
+    }
+
+    const held = (...codes: string[]) => codes.some(code => input.isKeyPressed(code));
+    const dx = (held('ArrowRight', 'KeyD') ? 1 : 0) - (held('ArrowLeft', 'KeyA') ? 1 : 0);
+    const dy = (held('ArrowDown', 'KeyS') ? 1 : 0) - (held('ArrowUp', 'KeyW') ? 1 : 0);
+    spectatorCamera.pan(dx, dy, deltaTime);
+    if (input.isKeyJustPressed('Equal')) {
+      spectatorCamera.zoom(1);
+    }
+    if (input.isKeyJustPressed('Minus')) {
+      spectatorCamera.zoom(-1);
+    }
+
+    spectatorCamera.update(this.players, deltaTime);
+    return false;
+  }
+
+  private updateLobby(client: NetworkClient): void {
+    if (this.inputManager.isKeyJustPressed('Escape')) {
+      this.leaveOnline();
+      return;
+    }
+
+    const lobby = client.lobby;
+    if (!lobby || lobby.inMatch) return;
+
+    // Spectators only watch; the lobby is read-only for them
+    if (this.spectatorCamera) return;
+
+    const slotKeys = ['Digit1', 'Digit2', 'Digit3', 'Digit4'];
+    slotKeys.forEach((key, slot) => {
+      if (this.inputManager.isKeyJustPressed(key)) {
+        client.pickSlot(slot);
+        SoundManager.play('menuSelect');
+      }
+    });
+
+    if (this.inputManager.isKeyJustPressed('Space') && client.yourSlot !== null) {
+      client.setReady(!lobby.slots[client.yourSlot].ready);
+      SoundManager.play('menuSelect');
+    }
+
+    if (this.inputManager.isKeyJustPressed('KeyZ')) {
+      client.setMap((lobby.mapIndex + 1) % ALL_MAPS.length);
+      SoundManager.play('menuSelect');
+    }
+  }
+
+  // Show the server's state; sounds are derived from what changed since the last one
+  private applyServerState(state: GameSnapshot): void {
+    const previousPhase = this.phase;
+    const knownExplosions = new Set(this.explosions.map(e => e.id));
+    const wasAlive = this.players.map(p => p.isPlayerAlive());
+
+    this.restoreSnapshot(state);
+
+    if (this.explosions.some(e => !knownExplosions.has(e.id))) {
+      SoundManager.play('explosion');
+    }
+    for (const player of this.players) {
+      if (wasAlive[player.playerIndex] && !player.isPlayerAlive()) {
+        SoundManager.play('playerDeath');
+      }
+    }
+
+    if (this.phase === GamePhase.PLAYING && previousPhase !== GamePhase.PLAYING) {
+      SoundManager.play('gameStart');
+      SoundManager.startMusic();
+    } else if ((this.phase === GamePhase.GAME_OVER || this.phase === GamePhase.ROUND_END) && previousPhase !== this.phase) {
+      SoundManager.stopMusic();
+    }
   }
 
   private updateMainMenu(): void {
@@ -152,6 +632,7 @@ export class Game {
 
     if (this.inputManager.isKeyJustPressed('Space')) {
       SoundManager.play('menuSelect');
+      this.matchSetup = null;
       this.startNewGame();
     }
 
@@ -172,10 +653,12 @@ export class Game {
     if (!this.isSinglePlayer) {
       if (this.inputManager.isKeyJustPressed('Digit2')) {
         this.playerCount = 2;
+        this.teamMode = 'none';
         SoundManager.play('menuSelect');
       }
       if (this.inputManager.isKeyJustPressed('Digit3')) {
         this.playerCount = 3;
+        this.teamMode = 'none';
         SoundManager.play('menuSelect');
       }
       if (this.inputManager.isKeyJustPressed('Digit4')) {
@@ -204,6 +687,325 @@ export class Game {
       this.selectedMapIndex = (this.selectedMapIndex + 1) % ALL_MAPS.length;
       SoundManager.play('menuSelect');
     }
+
+    // B cycles match length
+    if (this.inputManager.isKeyJustPressed('KeyB')) {
+      const current = ROUND_FORMATS.findIndex(format => format.roundsToWin === this.roundsToWin);
+      this.roundsToWin = ROUND_FORMATS[(current + 1) % ROUND_FORMATS.length].roundsToWin;
+      SoundManager.play('menuSelect');
+    }
+
+    // D toggles sudden death
+    if (this.inputManager.isKeyJustPressed('KeyD')) {
+      this.suddenDeathEnabled = !this.suddenDeathEnabled;
+      SoundManager.play('menuSelect');
+    }
+
+    // G toggles revenge carts for eliminated players
+    if (this.inputManager.isKeyJustPressed('KeyG')) {
+      this.revengeEnabled = !this.revengeEnabled;
+      SoundManager.play('menuSelect');
+    }
+
+    // H cycles lives per player
+    if (this.inputManager.isKeyJustPressed('KeyH')) {
+      this.livesPerPlayer = LIVES_OPTIONS[(LIVES_OPTIONS.indexOf(this.livesPerPlayer) + 1) % LIVES_OPTIONS.length];
+      SoundManager.play('menuSelect');
+    }
+
+    // R cycles rule presets
+    if (this.inputManager.isKeyJustPressed('KeyR')) {
+      this.rules = RULE_PRESETS[(RULE_PRESETS.indexOf(this.rules) + 1) % RULE_PRESETS.length];
+      SoundManager.play('menuSelect');
+    }
+
+    // T cycles team modes (teams always use all four slots), F toggles friendly fire
+    if (this.inputManager.isKeyJustPressed('KeyT')) {
+      this.teamMode = TEAM_MODES[(TEAM_MODES.indexOf(this.teamMode) + 1) % TEAM_MODES.length];
+      if (this.teamMode !== 'none') {
+        this.playerCount = 4;
+      }
+      SoundManager.play('menuSelect');
+    }
+    if (this.inputManager.isKeyJustPressed('KeyF')) {
+      this.friendlyFire = !this.friendlyFire;
+      SoundManager.play('menuSelect');
+    }
+
+    // L key to resume a saved game
+    if (this.inputManager.isKeyJustPressed('KeyL')) {
+      this.loadSavedGame();
+    }
+
+    // P picks who's playing
+    if (this.inputManager.isKeyJustPressed('KeyP')) {
+      this.openProfiles();
+      SoundManager.play('menuSelect');
+    }
+  }
+
+  // Slots a profile can sit in for the menu's current setup - bots don't get one
+  private getHumanSlots(): number[] {
+    return this.isSinglePlayer ? [0] : Array.from({ length: this.playerCount }, (_, i) => i);
+  }
+
+  private openProfiles(): void {
+    // Seats outside the current setup (fewer players, single player) are freed
+    const humanSlots = this.getHumanSlots();
+    this.seats = this.seats.map((id, slot) => humanSlots.includes(slot) && this.profiles.getProfile(id) ? id : null);
+    this.profileCursor = Math.min(this.profileCursor, this.profiles.getProfiles().length);
+    this.profileName = null;
+    this.rebinding = null;
+    this.confirmDelete = false;
+    this.phase = GamePhase.PLAYER_SELECT;
+  }
+
+  private updateProfiles(): void {
+    if (this.profileName !== null) {
+      this.updateProfileName();
+      return;
+    }
+    if (this.rebinding) {
+      this.updateRebinding();
+      return;
+    }
+
+    const profiles = this.profiles.getProfiles();
+    const selected = profiles[this.profileCursor] ?? null;
+    const pressed = (code: string) => this.inputManager.isKeyJustPressed(code);
+
+    if (pressed('ArrowUp') || pressed('ArrowDown')) {
+      const rows = profiles.length + 1; // The last row makes a new profile
+      this.profileCursor = (this.profileCursor + (pressed('ArrowUp') ? rows - 1 : 1)) % rows;
+      this.confirmDelete = false;
+      SoundManager.play('menuSelect');
+    }
+
+    if (pressed('Enter') || pressed('Space')) {
+      if (selected) {
+        this.toggleSeat(selected.id);
+      } else {
+        this.profileName = '';
+      }
+      SoundManager.play('menuSelect');
+    }
+
+    if (selected) {
+      // 1-4 seat the profile in that slot
+      for (const slot of this.getHumanSlots()) {
+        if (pressed(`Digit${slot + 1}`)) {
+          this.seats = this.seats.map(id => id === selected.id ? null : id);
+          this.seats[slot] = selected.id;
+          SoundManager.play('menuSelect');
+        }
+      }
+      if (pressed('KeyC')) {
+        this.profiles.updateProfile(selected.id, { color: (selected.color + 1) % 4 });
+        SoundManager.play('menuSelect');
+      }
+      if (pressed('KeyK')) {
+        this.rebinding = { profileId: selected.id, keys: [] };
+        SoundManager.play('menuSelect');
+      }
+      if (pressed('KeyX')) {
+        if (this.confirmDelete) {
+          this.profiles.deleteProfile(selected.id);
+          this.seats = this.seats.map(id => id === selected.id ? null : id);
+          this.profileCursor = Math.min(this.profileCursor, profiles.length - 1);
+        }
+        this.confirmDelete = !this.confirmDelete;
+        SoundManager.play('menuSelect');
+      }
+    }
+
+    if (pressed('KeyH')) {
+      this.historyCursor = 0;
+      this.confirmDelete = false;
+      this.phase = GamePhase.HISTORY;
+      SoundManager.play('menuSelect');
+    }
+    if (pressed('KeyA')) {
+      this.confirmDelete = false;
+      this.phase = GamePhase.ACHIEVEMENTS;
+      SoundManager.play('menuSelect');
+    }
+    if (pressed('Escape')) {
+      this.phase = GamePhase.MAIN_MENU;
+    }
+  }
+
+  // Join in the preferred colour's slot (or the first free one), or leave if already seated
+  private toggleSeat(profileId: string): void {
+    const seated = this.seats.indexOf(profileId);
+    if (seated !== -1) {
+      this.seats[seated] = null;
+      return;
+    }
+
+    const humanSlots = this.getHumanSlots();
+    const preferred = this.profiles.getProfile(profileId)!.color;
+    const slot = humanSlots.includes(preferred) && this.seats[preferred] === null
+      ? preferred
+      : humanSlots.find(s => this.seats[s] === null);
+    if (slot !== undefined) {
+      this.seats[slot] = profileId;
+    }
+  }
+
+  // Typing a new profile's name: letters, digits and spaces; Enter keeps it, Escape drops it
+  private updateProfileName(): void {
+    for (const code of this.inputManager.getJustPressedKeys()) {
+      const name = this.profileName!;
+      if (code === 'Escape') {
+        this.profileName = null;
+        return;
+      }
+      if (code === 'Enter' && name.trim()) {
+        const profile = this.profiles.createProfile(name.trim(), this.profiles.getProfiles().length % 4);
+        this.profileCursor = this.profiles.getProfiles().indexOf(profile);
+        this.profileName = null;
+        SoundManager.play('menuSelect');
+        return;
+      }
+      if (code === 'Backspace') {
+        this.profileName = name.slice(0, -1);
+      } else if (name.length < MAX_NAME_LENGTH) {
+        const char = code.match(/^(?:Key([A-Z])|Digit([0-9]))$/);
+        if (char) this.profileName = name + (char[1] ?? char[2]);
+        else if (code === 'Space' && name) this.profileName = name + ' ';
+      }
+    }
+  }
+
+  // Rebinding a profile's keys: the next key pressed goes to each action in turn
+  private updateRebinding(): void {
+    const rebinding = this.rebinding!;
+    for (const code of this.inputManager.getJustPressedKeys()) {
+      if (code === 'Escape') {
+        this.rebinding = null;
+        return;
+      }
+      if (rebinding.keys.includes(code)) continue;
+      rebinding.keys.push(code);
+      SoundManager.play('menuSelect');
+
+      if (rebinding.keys.length === BINDING_ACTIONS.length) {
+        const bindings = Object.fromEntries(BINDING_ACTIONS.map((action, i) => [action, rebinding.keys[i]])) as unknown as KeyBinding;
+        this.profiles.updateProfile(rebinding.profileId, { bindings });
+        this.rebinding = null;
+        return;
+      }
+    }
+  }
+
+  private getProfileScreenState(): ProfileScreenState {
+    return {
+      profiles: this.profiles.getProfiles(),
+      seats: this.seats,
+      humanSlots: this.getHumanSlots(),
+      cursor: this.profileCursor,
+      naming: this.profileName,
+      rebinding: this.rebinding ? BINDING_ACTIONS[this.rebinding.keys.length] : null,
+      confirmDelete: this.confirmDelete,
+    };
+  }
+
+  private updateHistory(): void {
+    const history = this.profiles.getHistory();
+    const pressed = (code: string) => this.inputManager.isKeyJustPressed(code);
+
+    if (history.length > 0 && (pressed('ArrowUp') || pressed('ArrowDown'))) {
+      this.historyCursor = (this.historyCursor + (pressed('ArrowUp') ? history.length - 1 : 1)) % history.length;
+      this.confirmDelete = false;
+      SoundManager.play('menuSelect');
+    }
+
+    const selected = history[this.historyCursor];
+    if (selected && pressed('KeyX')) {
+      if (this.confirmDelete) {
+        this.profiles.deleteMatch(selected.id);
+        this.historyCursor = Math.max(0, Math.min(this.historyCursor, history.length - 2));
+      }
+      this.confirmDelete = !this.confirmDelete;
+      SoundManager.play('menuSelect');
+    }
+    if (pressed('KeyE') && history.length > 0) {
+      this.downloadHistory();
+    }
+    if (pressed('Escape')) {
+      this.confirmDelete = false;
+      this.phase = GamePhase.PLAYER_SELECT;
+    }
+  }
+
+  // The gallery shows the profile under the profile screen's cursor; left/right move it
+  private updateAchievementGallery(): void {
+    const count = this.profiles.getProfiles().length;
+    const pressed = (code: string) => this.inputManager.isKeyJustPressed(code);
+    if (count > 0 && (pressed('ArrowLeft') || pressed('ArrowRight'))) {
+      const current = Math.min(this.profileCursor, count - 1);
+      this.profileCursor = (current + (pressed('ArrowLeft') ? count - 1 : 1)) % count;
+      SoundManager.play('menuSelect');
+    }
+    if (pressed('Escape')) {
+      this.phase = GamePhase.PLAYER_SELECT;
+    }
+  }
+
+  private downloadHistory(): void {
+    const blob = new Blob([this.profiles.exportHistory()], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `match-history-${new Date().toISOString().slice(0, 10)}.json`;
+    link.click();
+    URL.revokeObjectURL(url);
+  }
+
+  // Profile playing in each slot - only menu matches seat profiles, and only in human slots
+  private getSeatedProfiles(): (Profile | null)[] {
+    const humanSlots = this.matchSetup ? [] : this.getHumanSlots();
+    return this.seats.map((id, slot) => humanSlots.includes(slot) ? this.profiles.getProfile(id) : null);
+  }
+
+  // Seated profiles play with their own keys; everyone else uses the defaults
+  private applySeatBindings(): void {
+    this.getSeatedProfiles().forEach((profile, slot) => {
+      this.inputManager.setBindings(slot, profile?.bindings ?? null);
+    });
+  }
+
+  // Put the finished match in the history (and its profiles' lifetime numbers)
+  private recordMatch(): void {
+    this.matchRecorded = true;
+
+    const seated = this.getSeatedProfiles();
+    const record: MatchRecord = {
+      id: createId(),
+      date: new Date().toISOString(),
+      map: ALL_MAPS[this.selectedMapIndex].name,
+      rules: this.rules.name,
+      duration: this.match.getDuration(),
+      rounds: this.match.getResults().length,
+      winnerIndex: this.winner ? this.winner.playerIndex : null,
+      winningTeam: this.winningTeam,
+      participants: this.players.map(player => {
+        const index = player.playerIndex;
+        const isAI = this.aiPlayers.has(index);
+        const profile = seated[index];
+        return {
+          name: profile?.name ?? (isAI ? 'AI' : `P${index + 1}`),
+          profileId: profile?.id ?? null,
+          isAI,
+          difficulty: this.aiControllers.get(index)?.getDifficulty(),
+          team: player.team,
+        };
+      }),
+      scores: this.players.map(p => this.scoreManager.getScore(p.playerIndex)),
+      roundWins: this.match.getRoundWins(),
+      stats: this.stats.toSnapshot().players.slice(0, this.players.length),
+    };
+    this.profiles.recordMatch(record);
   }
 
   private lastCountdownSecond: number = -1;
@@ -239,99 +1041,58 @@ export class Game {
 
   private updatePlaying(deltaTime: number): void {
     // Check for pause
-    if (this.inputManager.isKeyJustPressed('Escape')) {
+    if (!this.replayPlayer && !this.steppingInputs && this.inputManager.isKeyJustPressed('Escape')) {
       this.phase = GamePhase.PAUSED;
       SoundManager.stopMusic();
       return;
     }
 
     // Update round timer
+    const previousRoundTime = this.roundTime;
     this.roundTime -= deltaTime;
     if (this.roundTime <= 0) {
       this.endRound();
       return;
     }
 
+    if (this.suddenDeath) {
+      this.updateSuddenDeath(previousRoundTime);
+    }
+
     // Save previous positions for interpolation
     for (const player of this.players) {
       player.savePreviousPosition();
     }
 
-    // Update AI controllers and get AI decisions
-    const currentTime = performance.now() / 1000;
-    const aiDecisions: Map<number, { direction: Direction | null; placeBomb: boolean }> = new Map();
-
-    for (const [playerIndex, aiController] of this.aiControllers) {
-      const player = this.players[playerIndex];
-      if (!player || !player.isPlayerAlive()) continue;
-
-      const decision = aiController.update(
-        deltaTime,
-        currentTime,
-        this.blocks,
-        this.bombs,
-        this.explosions,
-        this.powerUps,
-        this.players
-      );
-      aiDecisions.set(playerIndex, decision);
-
-      // Record AI decision for telemetry
-      const telemetry = Telemetry.getInstance();
-      if (telemetry.isEnabled()) {
-        // Convert Direction enum to {x, y} delta
-        let directionDelta = { x: 0, y: 0 };
-        if (decision.direction === Direction.LEFT) directionDelta = { x: -1, y: 0 };
-        else if (decision.direction === Direction.RIGHT) directionDelta = { x: 1, y: 0 };
-        else if (decision.direction === Direction.UP) directionDelta = { x: 0, y: -1 };
-        else if (decision.direction === Direction.DOWN) directionDelta = { x: 0, y: 1 };
-
-        telemetry.recordAIDecision({
-          playerId: playerIndex,
-          timestamp: currentTime,
-          decision: {
-            direction: directionDelta,
-            placeBomb: decision.placeBomb,
-            reason: 'ai_decision',
-          },
-          gameState: {
-            position: { x: player.position.gridX, y: player.position.gridY },
-            health: player.isPlayerAlive() ? 1 : 0,
-            bombCount: player.maxBombs,
-            blastRadius: player.bombRange,
-          },
-        });
-      }
+    // Gather this tick's input for every player
+    const inputs = this.replayPlayer
+      ? this.replayPlayer.nextInputs()
+      : this.steppingInputs ?? this.collectInputs(deltaTime);
+    if (!this.replayPlayer) {
+      this.replayRecorder?.record(inputs);
     }
 
     // Update player input and movement
     for (const player of this.players) {
-      if (!player.isPlayerAlive()) continue;
-
-      let direction: Direction | null = null;
-      let shouldPlaceBomb = false;
+      const input = inputs[player.playerIndex] ?? NO_INPUT;
+      if (!player.isPlayerAlive()) {
+        this.updateRevengeCart(player, input, deltaTime);
+        continue;
+      }
 
-      // Check if this player is AI-controlled
-      if (this.aiPlayers.has(player.playerIndex)) {
-        const aiDecision = aiDecisions.get(player.playerIndex);
-        if (aiDecision) {
-          direction = aiDecision.direction;
-          shouldPlaceBomb = aiDecision.placeBomb;
-        }
-      } else {
-        // Human player input
-        direction = this.inputManager.getMovementDirection(player.playerIndex);
-        shouldPlaceBomb = this.inputManager.isBombPressed(player.playerIndex);
+      let direction = input.direction;
 
-        // Check for punch input
-        if (this.inputManager.isSpecialPressed(player.playerIndex)) {
-          this.tryPunchBomb(player);
-        }
+      if (input.special) {
+        this.useSpecial(player);
+      }
 
+      // Letting go of the special key throws whatever the glove is holding
+      if (player.carriedBomb && !input.specialHeld) {
+        this.throwCarriedBomb(player, GLOVE_THROW_DISTANCE);
       }
 
       // Apply bomb placement BEFORE movement to ensure consistency with AI grid simulation
-      if (shouldPlaceBomb) {
+      if (input.bomb) {
         this.tryPlaceBomb(player);
       }
 
@@ -341,11 +1102,15 @@ export class Game {
       }
 
       // Apply movement
+      const fromX = player.position.pixelX;
+      const fromY = player.position.pixelY;
       if (direction) {
         this.movePlayer(player, direction, deltaTime);
       } else {
         player.stopMoving();
       }
+      const walked = Math.hypot(player.position.pixelX - fromX, player.position.pixelY - fromY) / TILE_SIZE;
+      this.stats.recordMovement(player.playerIndex, walked, deltaTime);
 
       // Track AI movement for debugging
       const isAI = this.aiPlayers.has(player.playerIndex);
@@ -356,14 +1121,23 @@ export class Game {
       this.checkPowerUpCollection(player);
     }
 
-    // Process pending power-ups (from block destruction)
+    // Process pending power-ups (from block destruction and lost lives)
     this.processPendingPowerUps();
 
+    this.respawnPlayers();
+
     // Update entities
     for (const player of this.players) {
       player.update(deltaTime);
     }
 
+    // Carried bombs go wherever their carrier goes
+    for (const bomb of this.bombs) {
+      if (bomb.carrier) {
+        bomb.position = { ...bomb.carrier.position };
+      }
+    }
+
     for (const bomb of this.bombs) {
       bomb.update(deltaTime);
     }
@@ -375,6 +1149,8 @@ export class Game {
       }
     }
 
+    this.updateMines(deltaTime);
+
     for (const block of this.blocks) {
       block.update(deltaTime);
     }
@@ -400,10 +1176,18 @@ export class Game {
 
     // Clean up inactive entities
     this.bombs = this.bombs.filter(b => b.isActive);
+    this.mines = this.mines.filter(m => m.isActive);
     this.blocks = this.blocks.filter(b => b.isActive);
     this.explosions = this.explosions.filter(e => e.isActive);
     this.powerUps = this.powerUps.filter(p => p.isActive);
 
+    // A combo lasts as long as flames from its chain are still burning
+    for (const playerId of this.scoreManager.getComboPlayers()) {
+      if (!this.explosions.some(e => e.getChainStarter() === playerId)) {
+        this.scoreManager.endCombo(playerId);
+      }
+    }
+
     // Update renderer (particles, camera shake)
     this.renderer.update(deltaTime);
 
@@ -411,37 +1195,213 @@ export class Game {
     this.checkWinCondition();
   }
 
+  // Live input for this tick: AI decisions for bots, keyboard for humans
+  private collectInputs(deltaTime: number): PlayerInput[] {
+    // Update AI controllers and get AI decisions
+    const currentTime = this.scheduler.getTime();
+    const aiDecisions: Map<number, AIDecision> = new Map();
+
+    for (const [playerIndex, aiController] of this.aiControllers) {
+      const player = this.players[playerIndex];
+      if (!player) continue;
+
+      if (!player.isPlayerAlive()) {
+        const cart = this.getRevengeCart(playerIndex);
+        if (cart) {
+          aiDecisions.set(playerIndex, aiController.updateRevenge(cart, this.players, this.hasBombOut(player)));
+        }
+        continue;
+      }
+
+      const decision = aiController.update(
+        deltaTime,
+        currentTime,
+        this.blocks,
+        this.bombs,
+        this.explosions,
+        this.powerUps,
+        this.players,
+        this.suddenDeath?.getUpcoming(this.roundTime, SUDDEN_DEATH_WARNING_TIME),
+        this.mines
+      );
+      aiDecisions.set(playerIndex, decision);
+
+      // Record AI decision for telemetry
+      const telemetry = Telemetry.getInstance();
+      if (telemetry.isEnabled()) {
+        // Convert Direction enum to {x, y} delta
+        let directionDelta = { x: 0, y: 0 };
+        if (decision.direction === Direction.LEFT) directionDelta = { x: -1, y: 0 };
+        else if (decision.direction === Direction.RIGHT) directionDelta = { x: 1, y: 0 };
+        else if (decision.direction === Direction.UP) directionDelta = { x: 0, y: -1 };
+        else if (decision.direction === Direction.DOWN) directionDelta = { x: 0, y: 1 };
+
+        telemetry.recordAIDecision({
+          playerId: playerIndex,
+          timestamp: currentTime,
+          decision: {
+            direction: directionDelta,
+            placeBomb: decision.placeBomb,
+            reason: 'ai_decision',
+          },
+          gameState: {
+            position: { x: player.position.gridX, y: player.position.gridY },
+            health: player.isPlayerAlive() ? 1 : 0,
+            bombCount: player.maxBombs,
+            blastRadius: player.bombRange,
+          },
+        });
+      }
+    }
+
+    return this.players.map(player => {
+      if (!player.isPlayerAlive() && !this.getRevengeCart(player.playerIndex)) return NO_INPUT;
+
+      // Check if this player is AI-controlled
+      if (this.aiPlayers.has(player.playerIndex)) {
+        const aiDecision = aiDecisions.get(player.playerIndex);
+        if (!aiDecision) return NO_INPUT;
+        return {
+          direction: aiDecision.direction,
+          bomb: aiDecision.placeBomb,
+          special: aiDecision.special ?? false,
+          specialHeld: aiDecision.special ?? false,
+        };
+      }
+
+      // Remote human (network)
+      const remote = this.remoteInputs.get(player.playerIndex);
+      if (remote) {
+        this.remoteInputs.set(player.playerIndex, { ...remote, bomb: false, special: false });
+        return remote;
+      }
+
+      // Human player input
+      return {
+        direction: this.inputManager.getMovementDirection(player.playerIndex),
+        bomb: this.inputManager.isBombPressed(player.playerIndex),
+        special: this.inputManager.isSpecialPressed(player.playerIndex),
+        specialHeld: this.inputManager.isSpecialHeld(player.playerIndex),
+      };
+    });
+  }
+
   private updatePaused(): void {
     if (this.inputManager.isKeyJustPressed('Escape')) {
       this.phase = GamePhase.PLAYING;
       SoundManager.startMusic();
     }
+
+    // S key to save and keep playing later
+    if (this.inputManager.isKeyJustPressed('KeyS')) {
+      this.saveGame();
+    }
+  }
+
+  private saveGame(): void {
+    try {
+      localStorage.setItem(SAVE_GAME_KEY, serializeSnapshot(this.createSnapshot()));
+      SoundManager.play('menuSelect');
+    } catch (error) {
+      console.error('Could not save game:', error);
+    }
+  }
+
+  private loadSavedGame(): void {
+    const saved = localStorage.getItem(SAVE_GAME_KEY);
+    if (!saved) return;
+
+    try {
+      SoundManager.stopMenuMusic();
+      this.restoreSnapshot(parseSnapshot(saved));
+      this.matchRecorded = false;
+      this.achievements.stop(); // What happened before the save is gone
+      SoundManager.play('menuSelect');
+    } catch (error) {
+      console.error('Could not load saved game:', error);
+    }
   }
 
   private updateGameOver(): void {
+    this.updateStatsTab();
     if (this.inputManager.isKeyJustPressed('Space')) {
       this.startNewGame();
     }
+    // Watch the match that just ended
+    if (this.inputManager.isKeyJustPressed('KeyR')) {
+      const replay = this.getReplay();
+      if (replay) {
+        this.startReplay(replay);
+        return;
+      }
+    }
+    if (this.inputManager.isKeyJustPressed('KeyE')) {
+      this.downloadReplay();
+    }
     if (this.inputManager.isKeyJustPressed('Escape')) {
       this.phase = GamePhase.MAIN_MENU;
       SoundManager.startMenuMusic();
     }
   }
 
+  // Left/right flip through the pages of the post-match stats
+  private updateStatsTab(): void {
+    if (this.inputManager.isKeyJustPressed('ArrowLeft')) {
+      this.statsTab--;
+    }
+    if (this.inputManager.isKeyJustPressed('ArrowRight')) {
+      this.statsTab++;
+    }
+  }
+
   private render(interpolation: number): void {
     switch (this.phase) {
+      case GamePhase.LOBBY: {
+        const lobby = this.networkClient?.lobby ?? null;
+        this.renderer.renderLobby(lobby, this.networkClient?.yourSlot ?? null, ALL_MAPS[lobby?.mapIndex ?? 0].name, this.spectatorCamera !== null);
+        break;
+      }
+
       case GamePhase.MAIN_MENU:
-        this.renderer.renderMainMenu(this.playerCount, this.isSinglePlayer, this.aiDifficulty, ALL_MAPS[this.selectedMapIndex]);
+        this.renderer.renderMainMenu(this.playerCount, this.isSinglePlayer, this.aiDifficulty, ALL_MAPS[this.selectedMapIndex], this.teamMode, this.friendlyFire, this.roundsToWin, this.suddenDeathEnabled, this.revengeEnabled, this.livesPerPlayer, this.rules.name, this.getSeatedProfiles().map(profile => profile?.name ?? null));
+        break;
+
+      case GamePhase.PLAYER_SELECT:
+        this.renderer.renderProfiles(this.getProfileScreenState());
+        break;
+
+      case GamePhase.HISTORY:
+        this.renderer.renderHistory(this.profiles.getHistory(), this.historyCursor, this.confirmDelete);
         break;
 
+      case GamePhase.ACHIEVEMENTS: {
+        const profiles = this.profiles.getProfiles();
+        this.renderer.renderAchievements(profiles[Math.min(this.profileCursor, profiles.length - 1)] ?? null);
+        break;
+      }
+
       case GamePhase.COUNTDOWN:
         this.renderGameState(interpolation);
         this.renderer.renderCountdown(Math.ceil(this.countdownTime));
+        this.renderReplayOverlay();
+        this.renderSpectatorOverlay();
         break;
 
       case GamePhase.PLAYING:
         this.renderGameState(interpolation);
-        this.renderer.renderUI(this.players, this.roundTime, this.scoreManager);
+        this.renderer.renderUI(this.players, this.roundTime, this.scoreManager, this.spectatorCamera?.getFollowIndex() ?? null, this.livesPerPlayer > 1);
+        this.renderer.renderKillFeed(this.getKillFeed());
+        if (this.suddenDeath && this.roundTime <= SUDDEN_DEATH_TIME && this.roundTime > SUDDEN_DEATH_TIME - 3) {
+          this.renderer.renderSuddenDeathBanner();
+        }
+        this.renderReplayOverlay();
+        this.renderSpectatorOverlay();
+        break;
+
+      case GamePhase.ROUND_END:
+        this.renderGameState(interpolation);
+        this.renderer.renderIntermission(this.players, this.match, this.scoreManager, Math.ceil(this.intermissionTime));
+        this.renderSpectatorOverlay();
         break;
 
       case GamePhase.PAUSED:
@@ -452,9 +1412,31 @@ export class Game {
 
       case GamePhase.GAME_OVER:
         this.renderGameState(interpolation);
-        this.renderer.renderGameOver(this.winner, this.isSinglePlayer);
+        this.renderer.renderGameOver(this.winner, this.isSinglePlayer, this.replayPlayer !== null, this.winningTeam);
+        this.renderer.renderMatchStats(this.players, this.stats, this.statsTab);
         break;
     }
+
+    this.renderer.renderAchievementToast();
+  }
+
+  private renderReplayOverlay(): void {
+    if (!this.replayPlayer) return;
+    this.renderer.renderReplayOverlay(
+      this.replayPlayer.getSpeed(),
+      this.replayPlayer.isPaused(),
+      this.replayPlayer.getFrameIndex(),
+      this.replayPlayer.replay.frameCount
+    );
+  }
+
+  private renderSpectatorOverlay(): void {
+    if (!this.spectatorCamera) return;
+    this.renderer.renderSpectatorOverlay(
+      this.spectatorCamera.getLabel(),
+      SPECTATOR_DELAY,
+      this.networkClient?.lobby?.spectators ?? 0
+    );
   }
 
   private renderGameState(interpolation: number): void {
@@ -465,30 +1447,336 @@ export class Game {
       explosions: this.explosions,
       powerUps: this.powerUps,
       floatingTexts: this.floatingTexts,
-      scores: this.scoreManager
+      scores: this.scoreManager,
+      dropWarnings: this.phase === GamePhase.PLAYING
+        ? this.suddenDeath?.getUpcoming(this.roundTime, SUDDEN_DEATH_WARNING_TIME)
+        : undefined,
+      revengeCarts: this.revengeCarts,
+      mines: this.mines.filter(m => m.isVisibleTo(this.getMineViewers()))
     };
     this.renderer.render(state, interpolation);
   }
 
+  // Player slots watching this screen, for what hidden mines may be shown
+  // (null = everything: replays, spectators, bot-only matches)
+  private getMineViewers(): number[] | null {
+    if (this.replayPlayer) return null;
+    if (this.networkClient) return this.networkClient.yourSlot !== null ? [this.networkClient.yourSlot] : null;
+    if (this.rollbackSession) return this.rollbackSession.getLocalSlots();
+
+    const humans = this.players.map(p => p.playerIndex).filter(i => !this.aiPlayers.has(i));
+    return humans.length > 0 ? humans : null;
+  }
+
   private startNewGame(): void {
     // Stop menu music when starting the game
     SoundManager.stopMenuMusic();
 
+    // A replay brings its own setup; live matches start a fresh recording
+    const replay = this.replayPlayer?.replay;
+    if (replay) {
+      this.playerCount = replay.players.length;
+      this.isSinglePlayer = replay.isSinglePlayer;
+      this.selectedMapIndex = replay.mapIndex;
+      this.friendlyFire = replay.friendlyFire ?? true;
+      this.roundsToWin = replay.roundsToWin ?? 1;
+      this.suddenDeathEnabled = replay.suddenDeath ?? false;
+      this.revengeEnabled = replay.revenge ?? false;
+      this.livesPerPlayer = replay.lives ?? 1;
+      this.rules = replay.rules ?? DEFAULT_RULES;
+    }
+
+    // Pick the match seed before anything consumes gameplay randomness
+    this.seed = replay ? replay.seed : this.forcedSeed ?? generateSeed();
+    Random.reseed(this.seed);
+
+    if (!replay) {
+      this.replayRecorder = new ReplayRecorder(this.seed, {
+        mapIndex: this.selectedMapIndex,
+        isSinglePlayer: this.isSinglePlayer,
+        friendlyFire: this.friendlyFire,
+        roundsToWin: this.roundsToWin,
+        suddenDeath: this.suddenDeathEnabled,
+        revenge: this.revengeEnabled,
+        lives: this.livesPerPlayer,
+        rules: this.rules,
+      });
+    }
+
+    this.scoreManager = new ScoreManager(4);
+    this.match = new MatchProgress(this.roundsToWin, this.playerCount);
+    this.stats = new MatchStats(4);
+    this.statsTab = 0;
+    this.matchRecorded = false;
+    if (!replay) {
+      this.applySeatBindings();
+    }
+    // Only menu matches count towards profiles' achievements
+    if (replay || this.matchSetup) {
+      this.achievements.stop();
+    } else {
+      this.achievements.begin(this.playerCount);
+    }
+    this.startRound();
+  }
+
+  // Fresh arena for the next round of the match; scores and trophies carry over
+  private startRound(): void {
+    const replay = this.replayPlayer?.replay;
+
+    // Anything still scheduled belongs to the previous round
+    this.scheduler.reset();
+    this.gameOverAt = null;
+
     this.initializeGrid();
     this.loadMap(ALL_MAPS[this.selectedMapIndex]);
+    this.suddenDeath = this.suddenDeathEnabled
+      ? new SuddenDeath((x, y) => this.grid[y][x] instanceof Block && !(this.grid[y][x] as Block).isDestructible)
+      : null;
+    this.revengeCarts = [];
+    this.remoteInputs.clear();
     this.spawnPlayers();
+    if (replay) {
+      // Inputs come from the file - bots keep their flag (movement assist) but don't think
+      this.aiControllers.clear();
+      this.aiPlayers.clear();
+      replay.players.forEach((setup, index) => {
+        if (setup.isAI) this.aiPlayers.add(index);
+        this.players[index].team = setup.team ?? null;
+      });
+    }
     this.bombs = [];
+    this.mines = [];
     this.explosions = [];
     this.powerUps = [];
     this.pendingPowerUps = [];
     this.floatingTexts = [];
-    this.scoreManager = new ScoreManager(4);
-    this.roundTime = ROUND_TIME;
+    this.scoreManager.resetCombos();
+    this.match.beginRound(this.scoreManager);
+    this.stats.beginRound();
+    this.renderer.getCamera().zoomTo(1, 0.3);
+    this.roundTime = this.rules.roundTime;
     this.countdownTime = COUNTDOWN_TIME;
     this.winner = null;
+    this.winningTeam = null;
     this.phase = GamePhase.COUNTDOWN;
   }
 
+  getSeed(): number {
+    return this.seed;
+  }
+
+  // Force the seed of the next match (null = pick a fresh random seed)
+  setSeed(seed: number | null): void {
+    this.forcedSeed = seed;
+  }
+
+  createSnapshot(): GameSnapshot {
+    const grid: GridCellSnapshot[][] = this.grid.map(row => row.map(cell => {
+      if (cell instanceof Block) return { kind: 'block', id: cell.id };
+      if (cell instanceof Bomb) return { kind: 'bomb', id: cell.id };
+      if (cell instanceof Mine) return { kind: 'mine', id: cell.id };
+      return null;
+    }));
+
+    return {
+      version: SNAPSHOT_VERSION,
+      phase: this.phase,
+      seed: this.seed,
+      rngState: Random.gameplay.getState(),
+      time: this.scheduler.getTime(),
+      roundTime: this.roundTime,
+      countdownTime: this.countdownTime,
+      intermissionTime: this.intermissionTime,
+      gameOverAt: this.gameOverAt,
+      playerCount: this.playerCount,
+      isSinglePlayer: this.isSinglePlayer,
+      selectedMapIndex: this.selectedMapIndex,
+      aiPlayers: Array.from(this.aiPlayers).map(playerIndex => ({
+        playerIndex,
+        difficulty: this.aiControllers.get(playerIndex)?.getDifficulty() ?? this.aiDifficulty,
+      })),
+      winnerIndex: this.winner ? this.winner.playerIndex : null,
+      winningTeam: this.winningTeam,
+      friendlyFire: this.friendlyFire,
+      players: this.players.map(p => p.toSnapshot()),
+      bombs: this.bombs.map(b => b.toSnapshot()),
+      mines: this.mines.map(m => m.toSnapshot()),
+      blocks: this.blocks.map(b => b.toSnapshot()),
+      explosions: this.explosions.map(e => e.toSnapshot()),
+      powerUps: this.powerUps.map(p => p.toSnapshot()),
+      pendingPowerUps: this.pendingPowerUps.map(p => ({ ...p })),
+      scores: this.scoreManager.toSnapshot(),
+      match: this.match.toSnapshot(),
+      stats: this.stats.toSnapshot(),
+      suddenDeathEnabled: this.suddenDeathEnabled,
+      suddenDeath: this.suddenDeath ? this.suddenDeath.toSnapshot() : null,
+      revengeEnabled: this.revengeEnabled,
+      revengeCarts: this.revengeCarts.map(c => c.toSnapshot()),
+      livesPerPlayer: this.livesPerPlayer,
+      rules: this.rules,
+      grid,
+    };
+  }
+
+  // Rebuild the whole simulation from a snapshot (save/resume, rollback, test scenarios)
+  restoreSnapshot(snapshot: GameSnapshot): void {
+    this.replayPlayer = null;
+    this.replayRecorder = null;
+    this.scheduler.reset();
+    this.scheduler.setTime(snapshot.time);
+
+    this.seed = snapshot.seed;
+    Random.reseed(snapshot.seed);
+
+    this.rules = snapshot.rules;
+
+    // Entities that still exist are updated in place so their visual state keeps running
+    this.players = this.restoreEntities(this.players, snapshot.players, p => Player.fromSnapshot(p, this.rules));
+    this.players.forEach(p => p.rules = this.rules);
+    this.bombs = this.restoreEntities(
+      this.bombs.filter(b => this.players.includes(b.owner)),
+      snapshot.bombs,
+      b => Bomb.fromSnapshot(b, this.players[b.ownerIndex])
+    );
+    // Bombs in a power glove are linked both ways
+    this.players.forEach(p => p.carriedBomb = null);
+    this.bombs.forEach((bomb, i) => {
+      const carrierIndex = snapshot.bombs[i].carrierIndex;
+      bomb.carrier = carrierIndex !== null ? this.players[carrierIndex] : null;
+      if (bomb.carrier) bomb.carrier.carriedBomb = bomb;
+    });
+    this.mines = this.restoreEntities(
+      this.mines.filter(m => this.players.includes(m.owner)),
+      snapshot.mines,
+      m => Mine.fromSnapshot(m, this.players[m.ownerIndex])
+    );
+    this.blocks = this.restoreEntities(this.blocks, snapshot.blocks, b => Block.fromSnapshot(b));
+    this.explosions = this.restoreEntities(this.explosions, snapshot.explosions, e => Explosion.fromSnapshot(e));
+    this.powerUps = this.restoreEntities(this.powerUps, snapshot.powerUps, p => PowerUp.fromSnapshot(p));
+    this.pendingPowerUps = snapshot.pendingPowerUps.map(p => ({ ...p }));
+    this.floatingTexts = [];
+    this.scoreManager = ScoreManager.fromSnapshot(snapshot.scores);
+    this.match = MatchProgress.fromSnapshot(snapshot.match);
+    this.stats = MatchStats.fromSnapshot(snapshot.stats);
+    this.roundsToWin = this.match.roundsToWin;
+    this.suddenDeathEnabled = snapshot.suddenDeathEnabled;
+    this.suddenDeath = snapshot.suddenDeath ? SuddenDeath.fromSnapshot(snapshot.suddenDeath) : null;
+    this.revengeEnabled = snapshot.revengeEnabled;
+    this.revengeCarts = snapshot.revengeCarts.map(c => RevengeCart.fromSnapshot(c));
+    this.livesPerPlayer = snapshot.livesPerPlayer;
+
+    const blocksById = new Map(this.blocks.map(b => [b.id, b]));
+    const bombsById = new Map(this.bombs.map(b => [b.id, b]));
+    const minesById = new Map(this.mines.map(m => [m.id, m]));
+    this.grid = snapshot.grid.map(row => row.map(cell => {
+      if (!cell) return null;
+      switch (cell.kind) {
+        case 'block': return blocksById.get(cell.id) ?? null;
+        case 'bomb': return bombsById.get(cell.id) ?? null;
+        case 'mine': return minesById.get(cell.id) ?? null;
+      }
+    }));
+
+    this.playerCount = snapshot.playerCount;
+    this.isSinglePlayer = snapshot.isSinglePlayer;
+    this.selectedMapIndex = snapshot.selectedMapIndex;
+    // Bots whose player survived the restore keep their controller (and its plans)
+    const previousControllers = new Map(this.aiControllers);
+    this.aiControllers.clear();
+    this.aiPlayers.clear();
+    for (const { playerIndex, difficulty } of snapshot.aiPlayers) {
+      const player = this.players[playerIndex];
+      const previous = previousControllers.get(playerIndex);
+      const reusable = previous && previous.getPlayer() === player && previous.getDifficulty() === difficulty;
+      this.aiPlayers.add(playerIndex);
+      this.aiControllers.set(playerIndex, reusable ? previous : new SimpleAI(player, difficulty));
+    }
+
+    this.roundTime = snapshot.roundTime;
+    this.countdownTime = snapshot.countdownTime;
+    this.intermissionTime = snapshot.intermissionTime;
+    this.winner = snapshot.winnerIndex !== null ? this.players[snapshot.winnerIndex] : null;
+    this.winningTeam = snapshot.winningTeam;
+    this.friendlyFire = snapshot.friendlyFire;
+    this.phase = snapshot.phase;
+
+    // Re-arm the game-over transition if it was still pending
+    this.gameOverAt = snapshot.gameOverAt;
+    if (snapshot.gameOverAt !== null && snapshot.phase === GamePhase.PLAYING) {
+      this.scheduleGameOver(snapshot.gameOverAt);
+    }
+
+    // Last, since rebuilding players draws from the gameplay stream
+    Random.gameplay.setState(snapshot.rngState);
+  }
+
+  private restoreEntities<S extends EntitySnapshot, T extends Entity & { applySnapshot(snapshot: S): void }>(
+    current: T[],
+    snapshots: S[],
+    create: (snapshot: S) => T
+  ): T[] {
+    const byId = new Map(current.map(entity => [entity.id, entity]));
+    return snapshots.map(snapshot => {
+      const existing = byId.get(snapshot.id);
+      if (!existing) return create(snapshot);
+      existing.applySnapshot(snapshot);
+      return existing;
+    });
+  }
+
+  // Per-player stats of the match being played (or last played)
+  getMatchStats(): MatchStats {
+    return this.stats;
+  }
+
+  // Replay of the match being played (or last played); null if nothing was recorded
+  getReplay(): ReplayData | null {
+    if (this.replayPlayer) {
+      return this.replayPlayer.replay;
+    }
+    if (!this.replayRecorder || this.replayRecorder.getFrameCount() === 0) {
+      return null;
+    }
+
+    return this.replayRecorder.build(this.players.map(player => ({
+      isAI: this.aiPlayers.has(player.playerIndex),
+      difficulty: this.aiControllers.get(player.playerIndex)?.getDifficulty(),
+      team: player.team ?? undefined,
+    })));
+  }
+
+  startReplay(replay: ReplayData): void {
+    SoundManager.stopMusic();
+    this.replayPlayer = new ReplayPlayer(replay);
+    this.startNewGame();
+  }
+
+  isReplaying(): boolean {
+    return this.replayPlayer !== null;
+  }
+
+  private stopReplay(): void {
+    this.replayPlayer = null;
+    this.scheduler.reset();
+    SoundManager.stopMusic();
+    this.phase = GamePhase.MAIN_MENU;
+    SoundManager.startMenuMusic();
+  }
+
+  private downloadReplay(): void {
+    const replay = this.getReplay();
+    if (!replay) return;
+
+    const blob = new Blob([serializeReplay(replay)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `replay-${replay.seed}.json`;
+    link.click();
+    URL.revokeObjectURL(url);
+  }
+
   private loadMap(mapData: MapData): void {
     this.blocks = [];
 
@@ -514,22 +1802,18 @@ export class Game {
     this.aiControllers.clear();
     this.aiPlayers.clear();
 
-    const spawnPositions = [
-      { x: 1, y: 1 },
-      { x: GRID_WIDTH - 2, y: 1 },
-      { x: 1, y: GRID_HEIGHT - 2 },
-      { x: GRID_WIDTH - 2, y: GRID_HEIGHT - 2 }
-    ];
-
     for (let i = 0; i < this.playerCount; i++) {
-      const spawn = spawnPositions[i];
-      const player = new Player(spawn.x, spawn.y, i);
+      const spawn = SPAWN_POSITIONS[i];
+      const player = new Player(spawn.x, spawn.y, i, this.rules);
+      player.lives = this.livesPerPlayer;
       this.players.push(player);
 
-      // In single player mode, all players except the first one are AI
-      if (this.isSinglePlayer && i > 0) {
+      // Explicit setup decides per slot; otherwise in single player mode, all players except the first one are AI
+      const setup = this.matchSetup?.[i];
+      player.team = this.matchSetup ? setup?.team ?? null : teamForSlot(this.teamMode, i);
+      if (setup ? setup.isAI : this.isSinglePlayer && i > 0) {
         this.aiPlayers.add(i);
-        const aiController = new SimpleAI(player, this.aiDifficulty);
+        const aiController = new SimpleAI(player, setup?.difficulty ?? this.aiDifficulty);
         this.aiControllers.set(i, aiController);
       }
     }
@@ -549,10 +1833,10 @@ export class Game {
     const gridX = player.position.gridX;
     const gridY = player.position.gridY;
 
-    const isBlockedLeft = this.isGridBlocked(gridX - 1, gridY);
-    const isBlockedRight = this.isGridBlocked(gridX + 1, gridY);
-    const isBlockedUp = this.isGridBlocked(gridX, gridY - 1);
-    const isBlockedDown = this.isGridBlocked(gridX, gridY + 1);
+    const isBlockedLeft = this.isGridBlocked(player, gridX - 1, gridY);
+    const isBlockedRight = this.isGridBlocked(player, gridX + 1, gridY);
+    const isBlockedUp = this.isGridBlocked(player, gridX, gridY - 1);
+    const isBlockedDown = this.isGridBlocked(player, gridX, gridY + 1);
 
     // If boxed in horizontally, snap to grid center X
     if (isBlockedLeft && isBlockedRight) {
@@ -612,18 +1896,29 @@ export class Game {
       }
 
       const entity = this.grid[gridY][gridX];
-      if (entity instanceof Block) {
+      if (this.isSolidFor(player, entity)) {
         canMove = false;
         break;
       }
 
       // Check if there's a bomb at this position
       if (entity instanceof Bomb) {
+        // Bomb pass walks straight through (no kicking, no pushback)
+        if (player.hasAbility('bomb_pass')) continue;
+
         // If player has KICK ability and bomb is not sliding, kick it
         if (player.hasAbility('kick') && !entity.isSliding) {
           // Kick logic remains...
           // ...
-          entity.kick(direction);
+          entity.kick(direction, player);
+          // Kicking a bomb into a wall is retried every frame, and so is nudging the one
+          // underfoot - only count bombs in front that have room to roll
+          const ahead = this.getOppositeTileFromBomb(entity, direction);
+          const aheadCell = this.grid[ahead.gridY]?.[ahead.gridX];
+          const underfoot = gridX === player.position.gridX && gridY === player.position.gridY;
+          if (!underfoot && aheadCell !== undefined && !(aheadCell instanceof Block) && !(aheadCell instanceof Bomb)) {
+            this.stats.recordKick(player.playerIndex);
+          }
           SoundManager.play('bombKick');
           continue;
         }
@@ -713,7 +2008,7 @@ export class Game {
       player.stopMoving(); // Ensure animation stops if blocked
 
       // Emit wall bump stars occasionally when blocked
-      if (Math.random() < 0.15) {
+      if (Random.cosmetic.chance(0.15)) {
         const bumpX = player.position.pixelX + TILE_SIZE / 2;
         const bumpY = player.position.pixelY + TILE_SIZE / 2;
 
@@ -761,13 +2056,13 @@ export class Game {
       if (offsetX < threshold) {
         // Check if sliding left is blocked
         const testX = player.position.pixelX - slideAmount;
-        if (!this.isPositionBlocked(testX, player.position.pixelY, hitboxPadding)) {
+        if (!this.isPositionBlocked(player, testX, player.position.pixelY, hitboxPadding)) {
           player.position.pixelX = testX;
         }
       } else if (offsetX > TILE_SIZE - threshold) {
         // Check if sliding right is blocked
         const testX = player.position.pixelX + slideAmount;
-        if (!this.isPositionBlocked(testX, player.position.pixelY, hitboxPadding)) {
+        if (!this.isPositionBlocked(player, testX, player.position.pixelY, hitboxPadding)) {
           player.position.pixelX = testX;
         }
       }
@@ -776,28 +2071,33 @@ export class Game {
       if (offsetY < threshold) {
         // Check if sliding up is blocked
         const testY = player.position.pixelY - slideAmount;
-        if (!this.isPositionBlocked(player.position.pixelX, testY, hitboxPadding)) {
+        if (!this.isPositionBlocked(player, player.position.pixelX, testY, hitboxPadding)) {
           player.position.pixelY = testY;
         }
       } else if (offsetY > TILE_SIZE - threshold) {
         // Check if sliding down is blocked
         const testY = player.position.pixelY + slideAmount;
-        if (!this.isPositionBlocked(player.position.pixelX, testY, hitboxPadding)) {
+        if (!this.isPositionBlocked(player, player.position.pixelX, testY, hitboxPadding)) {
           player.position.pixelY = testY;
         }
       }
     }
   }
 
-  private isGridBlocked(gridX: number, gridY: number): boolean {
+  // Blocks stop everyone except a player with wall pass, who only has to go around
+  // indestructible walls. Bombs have their own rules in movePlayer.
+  private isSolidFor(player: Player, entity: Block | Bomb | Mine | null): boolean {
+    return entity instanceof Block && (!entity.isDestructible || !player.hasAbility('wall_pass'));
+  }
+
+  private isGridBlocked(player: Player, gridX: number, gridY: number): boolean {
     if (gridX < 0 || gridX >= GRID_WIDTH || gridY < 0 || gridY >= GRID_HEIGHT) {
       return true;
     }
-    const entity = this.grid[gridY][gridX];
-    return entity instanceof Block;
+    return this.isSolidFor(player, this.grid[gridY][gridX]);
   }
 
-  private isPositionBlocked(pixelX: number, pixelY: number, hitboxPadding: number): boolean {
+  private isPositionBlocked(player: Player, pixelX: number, pixelY: number, hitboxPadding: number): boolean {
     const playerLeft = pixelX + hitboxPadding;
     const playerRight = pixelX + TILE_SIZE - hitboxPadding;
     const playerTop = pixelY + hitboxPadding;
@@ -818,8 +2118,7 @@ export class Game {
         return true;
       }
 
-      const entity = this.grid[gridY][gridX];
-      if (entity instanceof Block) {
+      if (this.isSolidFor(player, this.grid[gridY][gridX])) {
         return true;
       }
     }
@@ -918,6 +2217,9 @@ export class Game {
       const entity = this.grid[newGridY][newGridX];
       if (entity instanceof Block || entity instanceof Bomb) {
         shouldStop = true;
+      } else if (entity instanceof Mine) {
+        // Rolling over a mine sets it off
+        entity.trigger();
       }
     }
 
@@ -972,24 +2274,42 @@ export class Game {
     const gridX = player.position.gridX;
     const gridY = player.position.gridY;
 
-    // Check if there's already a bomb at this position
-    if (this.grid[gridY][gridX] instanceof Bomb) return;
+    // Check if there's already a bomb (or our own mine) at this position
+    if (this.grid[gridY][gridX] !== null) return;
 
-    const bomb = new Bomb(gridX, gridY, player);
-    this.bombs.push(bomb);
-    this.grid[gridY][gridX] = bomb;
-    player.activeBombs++;
+    player.placeBomb(gridX, gridY);
+  }
 
-    // Track bomb placement for debugging
-    aiTracker.trackBomb(player, bomb);
+  // Special with the line bomb: every bomb still in hand, laid from the player's tile the way
+  // they face until a wall, block, bomb or player is in the way. True if any was laid.
+  private tryPlaceLineBomb(player: Player): boolean {
+    if (!player.hasAbility('line_bomb') || !player.canPlaceBomb()) return false;
 
-    SoundManager.play('bombPlace');
+    let dx = 0, dy = 0;
+    switch (player.getDirection()) {
+      case Direction.UP: dy = -1; break;
+      case Direction.DOWN: dy = 1; break;
+      case Direction.LEFT: dx = -1; break;
+      case Direction.RIGHT: dx = 1; break;
+    }
 
-    // Visual effects for bomb placement
-    const centerX = gridX * TILE_SIZE + TILE_SIZE / 2;
-    const centerY = gridY * TILE_SIZE + TILE_SIZE / 2;
-    this.particleSystem.emitPreset('impactBurst', centerX, centerY);
-    this.camera.shakePreset('subtle');
+    let x = player.position.gridX;
+    let y = player.position.gridY;
+    // Already standing on a bomb or mine - the line starts past it
+    if (this.grid[y][x] !== null) {
+      x += dx;
+      y += dy;
+    }
+
+    let placed = 0;
+    while (player.canPlaceBomb() && x >= 0 && x < GRID_WIDTH && y >= 0 && y < GRID_HEIGHT && this.grid[y][x] === null) {
+      if (this.players.some(p => p !== player && p.isPlayerAlive() && p.position.gridX === x && p.position.gridY === y)) break;
+      player.placeBomb(x, y);
+      placed++;
+      x += dx;
+      y += dy;
+    }
+    return placed > 0;
   }
 
   private onDiarrheaBomb(data: { player: Player }): void {
@@ -1000,8 +2320,9 @@ export class Game {
     }
   }
 
-  private tryPunchBomb(player: Player): void {
-    if (!player.hasAbility('punch')) return;
+  // True if a bomb was punched
+  private tryPunchBomb(player: Player): boolean {
+    if (!player.hasAbility('punch')) return false;
 
     const direction = player.getDirection();
 
@@ -1025,10 +2346,10 @@ export class Game {
     }
 
     // Check if there's a bomb at the adjacent position
-    if (checkX < 0 || checkX >= GRID_WIDTH || checkY < 0 || checkY >= GRID_HEIGHT) return;
+    if (checkX < 0 || checkX >= GRID_WIDTH || checkY < 0 || checkY >= GRID_HEIGHT) return false;
 
     const entity = this.grid[checkY][checkX];
-    if (!(entity instanceof Bomb) || entity.isPunched || entity.isSliding) return;
+    if (!(entity instanceof Bomb) || entity.isPunched || entity.isSliding) return false;
 
     // Calculate target position (4 tiles away)
     const punchDistance = 4;
@@ -1087,25 +2408,155 @@ export class Game {
     this.grid[checkY][checkX] = null;
 
     // Punch the bomb
-    entity.punch(finalX, finalY);
+    entity.punch(finalX, finalY, PUNCH_FLIGHT_TIME, player);
 
     // Trigger player punch animation
     player.startPunchAnimation();
+    this.stats.recordPunch(player.playerIndex);
 
     // Play punch sound
     SoundManager.play('bombPunch');
 
     // Camera shake
     this.renderer.getCamera().shake({ duration: 0.15, intensity: 3, frequency: 25 });
+    return true;
+  }
+
+  // Oldest first - bombs are kept in placement order. True if one was set off
+  private detonateRemoteBomb(player: Player): boolean {
+    const bomb = this.bombs.find(b =>
+      b.isActive && !b.isDetonating && b.owner === player && b.type === BombType.REMOTE && b.timer > 0
+    );
+    bomb?.triggerChainReaction();
+    return bomb !== undefined;
+  }
+
+  // Plant a mine from hand on the player's own tile. True if one was planted
+  private tryPlantMine(player: Player): boolean {
+    const gridX = player.position.gridX;
+    const gridY = player.position.gridY;
+    if (player.mines === 0 || this.grid[gridY][gridX] !== null) return false;
+
+    player.mines--;
+    const mine = new Mine(gridX, gridY, player);
+    this.mines.push(mine);
+    this.grid[gridY][gridX] = mine;
+
+    SoundManager.play('bombPlace');
+    this.particleSystem.emitPreset('dustCloud', gridX * TILE_SIZE + TILE_SIZE / 2, gridY * TILE_SIZE + TILE_SIZE);
+    return true;
+  }
+
+  // Power glove: lift the bomb underfoot, or else the one in front. True if one was lifted
+  private tryLiftBomb(player: Player): boolean {
+    if (!player.hasAbility('glove') || player.carriedBomb) return false;
+
+    const { gridX, gridY } = player.position;
+    const direction = player.getDirection();
+    const frontX = gridX + (direction === Direction.LEFT ? -1 : direction === Direction.RIGHT ? 1 : 0);
+    const frontY = gridY + (direction === Direction.UP ? -1 : direction === Direction.DOWN ? 1 : 0);
+
+    for (const { x, y } of [{ x: gridX, y: gridY }, { x: frontX, y: frontY }]) {
+      const entity = this.grid[y]?.[x];
+      if (!(entity instanceof Bomb) || entity.isPunched || entity.isSliding || entity.isDetonating) continue;
+
+      this.grid[y][x] = null;
+      entity.carrier = player;
+      entity.position = { ...player.position };
+      player.carriedBomb = entity;
+      SoundManager.play('bombPlace');
+      return true;
+    }
+    return false;
+  }
+
+  // Throw the carried bomb `distance` tiles the way the player faces (0 = just drop it).
+  // It lands through the usual bomb-landed path, hopping on over anything in the way.
+  private throwCarriedBomb(player: Player, distance: number): void {
+    const bomb = player.carriedBomb!;
+    player.carriedBomb = null;
+    bomb.carrier = null;
+
+    const direction = player.getDirection();
+    const dx = direction === Direction.LEFT ? -1 : direction === Direction.RIGHT ? 1 : 0;
+    const dy = direction === Direction.UP ? -1 : direction === Direction.DOWN ? 1 : 0;
+
+    bomb.ownerHasLeft = true;
+    bomb.bounceDirection = direction;
+    if (distance > 0) {
+      bomb.punch(player.position.gridX + dx * distance, player.position.gridY + dy * distance, PUNCH_FLIGHT_TIME, player);
+      player.startPunchAnimation();
+      SoundManager.play('bombPunch');
+    } else {
+      bomb.punch(player.position.gridX, player.position.gridY, GLOVE_BOUNCE_TIME);
+    }
+  }
+
+  // The special key does the first thing that applies: punch the bomb in front,
+  // set off a remote bomb, plant a mine, lift a bomb with the glove, lay a line of bombs
+  private useSpecial(player: Player): void {
+    if (this.tryPunchBomb(player)) return;
+    if (this.detonateRemoteBomb(player)) return;
+    if (this.tryPlantMine(player)) return;
+    if (this.tryLiftBomb(player)) return;
+    this.tryPlaceLineBomb(player);
+  }
+
+  // Arm mines, set off the ones someone else stepped on, and blow up everything triggered
+  // (by a step, a flame or a bomb landing on it)
+  private updateMines(deltaTime: number): void {
+    for (const mine of this.mines) {
+      if (!mine.isActive) continue;
+      mine.update(deltaTime);
+
+      const { gridX, gridY } = mine.position;
+      if (mine.isArmed() && this.players.some(p =>
+        p !== mine.owner && p.isPlayerAlive() && !p.isTeleporting && p.position.gridX === gridX && p.position.gridY === gridY
+      )) {
+        mine.trigger();
+      }
+    }
+
+    for (const mine of this.mines) {
+      if (!mine.isActive || !mine.isTriggered) continue;
+
+      const { gridX, gridY } = mine.position;
+      if (this.grid[gridY][gridX] === mine) {
+        this.grid[gridY][gridX] = null;
+      }
+      mine.destroy();
+      this.explode(gridX, gridY, mine.range, BombType.NORMAL, mine.owner, mine.chainOwners);
+    }
   }
 
   private onBombPlaced(data: { gridX: number; gridY: number; owner: Player }): void {
+    const { gridX, gridY, owner } = data;
+    const bomb = new Bomb(gridX, gridY, owner);
+    this.bombs.push(bomb);
+    this.grid[gridY][gridX] = bomb;
+    // Further along a line - the owner was never on it, so it's solid to them straight away
+    if (gridX !== owner.position.gridX || gridY !== owner.position.gridY) {
+      bomb.ownerHasLeft = true;
+    }
+
+    // Track bomb placement for debugging
+    aiTracker.trackBomb(owner, bomb);
+    this.stats.recordBombPlaced(owner.playerIndex);
+
+    SoundManager.play('bombPlace');
+
+    // Visual effects for bomb placement
+    const centerX = gridX * TILE_SIZE + TILE_SIZE / 2;
+    const centerY = gridY * TILE_SIZE + TILE_SIZE / 2;
+    this.particleSystem.emitPreset('impactBurst', centerX, centerY);
+    this.camera.shakePreset('subtle');
+
     // Record bomb placement for telemetry
     const telemetry = Telemetry.getInstance();
     if (telemetry.isEnabled()) {
       telemetry.recordEvent({
         type: 'bomb_placed',
-        timestamp: performance.now() / 1000,
+        timestamp: this.scheduler.getTime(),
         playerId: data.owner.playerIndex,
         position: { x: data.gridX, y: data.gridY },
       });
@@ -1163,6 +2614,7 @@ export class Game {
 
   private onTeleportStart(data: { player: Player }): void {
     const player = data.player;
+    this.stats.recordTeleport(player.playerIndex);
     this.renderer.getParticleSystem().emitPreset(
       'teleportOut',
       player.position.pixelX + TILE_SIZE / 2,
@@ -1265,7 +2717,33 @@ export class Game {
   }
 
   private onBombLanded(data: { bomb: Bomb; gridX: number; gridY: number }): void {
-    const { bomb, gridX, gridY } = data;
+    const { bomb } = data;
+
+    // Thrown past the edge of the arena - comes down on the far side
+    const gridX = (data.gridX + GRID_WIDTH) % GRID_WIDTH;
+    const gridY = (data.gridY + GRID_HEIGHT) % GRID_HEIGHT;
+    if (gridX !== data.gridX || gridY !== data.gridY) {
+      bomb.position = { gridX, gridY, pixelX: gridX * TILE_SIZE, pixelY: gridY * TILE_SIZE };
+    }
+
+    // A thrown bomb bounces off blocks and bombs, one tile further each time
+    if (bomb.bounceDirection !== null) {
+      const occupant = this.grid[gridY][gridX];
+      if (occupant instanceof Block || (occupant instanceof Bomb && occupant !== bomb)) {
+        const dx = bomb.bounceDirection === Direction.LEFT ? -1 : bomb.bounceDirection === Direction.RIGHT ? 1 : 0;
+        const dy = bomb.bounceDirection === Direction.UP ? -1 : bomb.bounceDirection === Direction.DOWN ? 1 : 0;
+        bomb.punch(gridX + dx, gridY + dy, GLOVE_BOUNCE_TIME);
+        SoundManager.play('bombLand');
+        return;
+      }
+      bomb.bounceDirection = null;
+    }
+
+    // Landing on a mine sets it off
+    const existing = this.grid[gridY][gridX];
+    if (existing instanceof Mine) {
+      existing.trigger();
+    }
 
     // Update grid with bomb at new position
     this.grid[gridY][gridX] = bomb;
@@ -1295,14 +2773,58 @@ export class Game {
 
           // Check if player is on this explosion tile
           if (player.position.gridX === tile.gridX && player.position.gridY === tile.gridY) {
-            aiTracker.trackDeath(player);
-            player.die();
+            if (this.isSparedByFlames(player, this.players[explosion.ownerIndex])) continue;
+            this.burnPlayer(player, explosion);
           }
         }
       }
     }
   }
 
+  // Flames reached a player. A chain is credited to whoever started it, so they get the
+  // kill - unless the victim started it themselves, then whoever's flames these were does
+  // (and if those were the victim's too, the last other player up the chain). Everyone
+  // else in the chain assists.
+  private burnPlayer(player: Player, explosion: Explosion): void {
+    const owner = this.players[explosion.ownerIndex];
+    const chainOwners = explosion.chainOwners;
+    const everyone = chainOwners.includes(owner.playerIndex) ? chainOwners : [...chainOwners, owner.playerIndex];
+    let killerIndex = everyone[0];
+    if (killerIndex === player.playerIndex) {
+      killerIndex = [...everyone].reverse().find(i => i !== player.playerIndex) ?? killerIndex;
+    }
+    const assists = everyone
+      .filter(i => i !== killerIndex && i !== player.playerIndex)
+      .map(i => this.players[i]);
+
+    player.die({ cause: 'explosion', killer: this.players[killerIndex], assists, explosionId: explosion.id });
+
+    // Whoever started the chain counts it towards their combo
+    const starter = this.players[chainOwners[0] ?? owner.playerIndex];
+    if (!player.isPlayerAlive() && starter !== player && !starter.isTeammateOf(player)) {
+      this.addComboHit(starter);
+    }
+
+    if (explosion.isRevenge) {
+      this.claimRevenge(owner, player);
+    }
+  }
+
+  private addComboHit(player: Player): void {
+    const combo = this.scoreManager.addComboHit(player.playerIndex);
+    this.stats.recordChain(player.playerIndex, combo);
+    if (combo >= 2) {
+      this.renderer.showComboCallout(player.playerIndex, combo);
+    }
+  }
+
+  // The invincibility star shrugs off every flame; with friendly fire off, a
+  // teammate's flames pass harmlessly over you
+  private isSparedByFlames(player: Player, bombOwner: Player | undefined): boolean {
+    if (player.hasBuff('star')) return true;
+    return !this.friendlyFire && bombOwner !== undefined && player.isTeammateOf(bombOwner);
+  }
+
   private onBombExplode(data: { bomb: Bomb; gridX: number; gridY: number; range: number; type: BombType }): void {
     const { bomb, gridX, gridY, range, type } = data;
 
@@ -1317,6 +2839,28 @@ export class Game {
     if (this.grid[gridY][gridX] === bomb) {
       this.grid[gridY][gridX] = null;
     }
+    // Went off in someone's hands
+    if (bomb.carrier) {
+      bomb.carrier.carriedBomb = null;
+      bomb.carrier = null;
+    }
+
+    this.explode(gridX, gridY, range, type, bomb.owner, bomb.chainOwners, bomb.isRevenge);
+  }
+
+  // Flames, damage and effects of a bomb or mine going off at a tile. `chainOwners` are
+  // the owners of whatever set it off (see Bomb.chainOwners); `isRevenge` is a revenge cart's bomb
+  private explode(gridX: number, gridY: number, range: number, type: BombType, owner: Player, chainOwners: number[], isRevenge: boolean = false): void {
+    // Anything these flames set off credits this explosion and everything before it
+    const chain = chainOwners.includes(owner.playerIndex) ? chainOwners : [...chainOwners, owner.playerIndex];
+    // Blocks go to whoever started the chain
+    const starter = this.players[chain[0]];
+
+    // A mine going off under a bomb that rolled or landed onto it takes the bomb with it
+    const underneath = this.grid[gridY][gridX];
+    if (underneath instanceof Bomb) {
+      underneath.triggerChainReaction(chain);
+    }
 
     // Calculate explosion tiles
     const tiles: ExplosionTile[] = [];
@@ -1343,10 +2887,12 @@ export class Game {
 
         if (entity instanceof Block) {
           if (entity.isDestructible) {
-            entity.startDestroy();
+            entity.startDestroy(starter);
+            this.stats.recordBlockDestroyed(starter.playerIndex);
             // Award points
+            this.addComboHit(starter);
             this.scoreManager.addPoints(
-              bomb.owner.playerIndex,
+              starter.playerIndex,
               10,
               'block',
               { x: tx * TILE_SIZE, y: ty * TILE_SIZE }
@@ -1361,9 +2907,13 @@ export class Game {
           } else {
             break; // Hit indestructible wall
           }
-        } else if (entity instanceof Bomb) {
+        } else if (entity instanceof Bomb || entity instanceof Mine) {
           // Chain reaction
-          entity.triggerChainReaction();
+          if (entity instanceof Bomb) {
+            entity.triggerChainReaction(chain);
+          } else {
+            entity.trigger(chain);
+          }
           chainReactionCount++;
           tiles.push({ gridX: tx, gridY: ty, direction: dir, isEnd: false });
         } else {
@@ -1373,9 +2923,11 @@ export class Game {
     }
 
     // Create explosion
-    const explosion = new Explosion(tiles, type);
+    const explosion = new Explosion(tiles, type, owner.playerIndex, chainOwners, isRevenge);
     this.explosions.push(explosion);
 
+    this.revealMinesNear(tiles);
+
     // Add particle effects and screen shake
     const centerX = gridX * TILE_SIZE + TILE_SIZE / 2;
     const centerY = gridY * TILE_SIZE + TILE_SIZE / 2;
@@ -1462,24 +3014,20 @@ export class Game {
         if (!player.isPlayerAlive()) continue;
 
         if (player.position.gridX === tile.gridX && player.position.gridY === tile.gridY) {
+          if (this.isSparedByFlames(player, owner)) continue;
+
+          const hadShield = player.hasShield();
+          this.burnPlayer(player, explosion); // Will consume shield if present
+
           // ICE bombs freeze players (if they survive via shield)
-          if (type === BombType.ICE) {
-            const hadShield = player.hasShield();
-            aiTracker.trackDeath(player);
-            player.die(); // Will consume shield if present
-            if (hadShield && player.isPlayerAlive()) {
-              // Player survived with shield - apply freeze
-              player.applyDebuff('frozen', 3);
-              // Add ice particles on frozen player
-              const particles = this.renderer.getParticleSystem();
-              particles.emitPreset('iceExplosion',
-                player.position.pixelX + TILE_SIZE / 2,
-                player.position.pixelY + TILE_SIZE / 2
-              );
-            }
-          } else {
-            aiTracker.trackDeath(player);
-            player.die();
+          if (type === BombType.ICE && hadShield && player.isPlayerAlive()) {
+            player.applyDebuff('frozen', 3);
+            // Add ice particles on frozen player
+            const particles = this.renderer.getParticleSystem();
+            particles.emitPreset('iceExplosion',
+              player.position.pixelX + TILE_SIZE / 2,
+              player.position.pixelY + TILE_SIZE / 2
+            );
           }
         }
       }
@@ -1493,6 +3041,17 @@ export class Game {
     }
   }
 
+  // Flames light up the floor around them - hidden mines close by are exposed to everyone
+  private revealMinesNear(tiles: ExplosionTile[]): void {
+    for (const mine of this.mines) {
+      if (!mine.isActive || mine.isRevealed) continue;
+      const { gridX, gridY } = mine.position;
+      if (tiles.some(t => Math.abs(t.gridX - gridX) <= MINE_REVEAL_DISTANCE && Math.abs(t.gridY - gridY) <= MINE_REVEAL_DISTANCE)) {
+        mine.reveal();
+      }
+    }
+  }
+
   private onScoreChanged(event: ScoreEvent): void {
     if (event.position) {
       let color = '#ffffff';
@@ -1516,7 +3075,7 @@ export class Game {
     if (telemetry.isEnabled() && data.destroyer) {
       telemetry.recordEvent({
         type: 'block_destroyed',
-        timestamp: performance.now() / 1000,
+        timestamp: this.scheduler.getTime(),
         playerId: data.destroyer.playerIndex,
         position: { x: data.gridX, y: data.gridY },
       });
@@ -1532,8 +3091,8 @@ export class Game {
     SoundManager.play('blockDestroy');
 
     // Maybe spawn a power-up (delayed to avoid being destroyed by the same explosion)
-    if (Math.random() < POWERUP_SPAWN_CHANCE) {
-      const type = this.getRandomPowerUpType();
+    const type = Random.gameplay.chance(this.rules.powerUpSpawnChance) ? this.getRandomPowerUpType() : null;
+    if (type) {
       // Add to pending queue to be spawned in a controlled manner next frame
       this.pendingPowerUps.push({
         x: data.gridX,
@@ -1543,12 +3102,234 @@ export class Game {
     }
   }
 
+  private updateSuddenDeath(previousRoundTime: number): void {
+    const suddenDeath = this.suddenDeath!;
+    if (!suddenDeath.isActive(this.roundTime)) return;
+
+    if (!suddenDeath.isActive(previousRoundTime)) {
+      SoundManager.play('suddenDeath');
+      this.camera.shakePreset('playerDeath');
+      this.renderer.triggerColorFlash('#ff0000', 0.3);
+    }
+
+    for (const tile of suddenDeath.takeDueDrops(this.roundTime)) {
+      this.dropBlock(tile.x, tile.y);
+    }
+  }
+
+  private getRevengeCart(playerIndex: number): RevengeCart | undefined {
+    return this.revengeCarts.find(c => c.playerIndex === playerIndex);
+  }
+
+  // Revenge bombs are thrown one at a time
+  private hasBombOut(player: Player): boolean {
+    return this.bombs.some(b => b.isActive && b.owner === player);
+  }
+
+  private updateRevengeCart(player: Player, input: PlayerInput, deltaTime: number): void {
+    const cart = this.getRevengeCart(player.playerIndex);
+    if (!cart) return;
+
+    cart.move(input.direction, deltaTime);
+    if (input.bomb) {
+      this.throwRevengeBomb(player, cart);
+    }
+  }
+
+  // Lob a bomb from the wall, as deep into the arena as the first free tile allows
+  private throwRevengeBomb(player: Player, cart: RevengeCart): void {
+    const direction = cart.getThrowDirection();
+    if (!direction || this.hasBombOut(player)) return;
+
+    const from = cart.getTile();
+    const dx = direction === Direction.LEFT ? -1 : direction === Direction.RIGHT ? 1 : 0;
+    const dy = direction === Direction.UP ? -1 : direction === Direction.DOWN ? 1 : 0;
+
+    for (let distance = REVENGE_THROW_DISTANCE; distance >= 1; distance--) {
+      const targetX = from.x + dx * distance;
+      const targetY = from.y + dy * distance;
+      if (this.grid[targetY][targetX] !== null) continue;
+
+      // Lands through the usual bomb-landed path, which puts it on the grid
+      const bomb = new Bomb(from.x, from.y, player);
+      bomb.ownerHasLeft = true;
+      bomb.isRevenge = true;
+      this.bombs.push(bomb);
+      bomb.punch(targetX, targetY);
+      SoundManager.play('bombPunch');
+      return;
+    }
+  }
+
+  // Flames of a bomb thrown from a revenge cart put its thrower back in their victim's place
+  private claimRevenge(thrower: Player, victim: Player): void {
+    if (victim.isPlayerAlive() || thrower.isPlayerAlive()) return;
+
+    const cart = this.getRevengeCart(thrower.playerIndex);
+    if (!cart) return;
+
+    this.revengeCarts = this.revengeCarts.filter(c => c !== cart);
+    thrower.revive(victim.position.gridX, victim.position.gridY, REVENGE_INVULNERABLE_TIME);
+    this.match.recordRevival(thrower.playerIndex);
+    this.stats.recordRevival(thrower.playerIndex);
+
+    this.floatingTexts.push(new FloatingText({
+      x: thrower.position.pixelX + TILE_SIZE / 2,
+      y: thrower.position.pixelY,
+      text: 'REVENGE!',
+      color: '#ff00ff',
+      duration: 1.5,
+      velocity: { x: 0, y: -30 }
+    }));
+    SoundManager.play('teleport');
+  }
+
+  private respawnPlayers(): void {
+    for (const player of this.players) {
+      if (!player.isReadyToRespawn()) continue;
+
+      // Nowhere safe right now - try again next tick
+      const tile = this.findRespawnTile(player);
+      if (!tile) continue;
+
+      player.revive(tile.x, tile.y, RESPAWN_INVULNERABLE_TIME);
+      this.match.recordRevival(player.playerIndex);
+      this.stats.recordRevival(player.playerIndex);
+
+      this.particleSystem.emitPreset('skyBeam', tile.x * TILE_SIZE + TILE_SIZE / 2, tile.y * TILE_SIZE + TILE_SIZE / 2);
+      SoundManager.play('teleport');
+    }
+  }
+
+  // The player's own corner if it's safe, otherwise the closest safe tile to it
+  private findRespawnTile(player: Player): { x: number; y: number } | null {
+    const spawn = SPAWN_POSITIONS[player.playerIndex];
+    let best: { x: number; y: number } | null = null;
+    let bestDistance = Infinity;
+
+    for (let y = 0; y < GRID_HEIGHT; y++) {
+      for (let x = 0; x < GRID_WIDTH; x++) {
+        const distance = Math.abs(x - spawn.x) + Math.abs(y - spawn.y);
+        if (distance < bestDistance && this.isSafeRespawnTile(x, y)) {
+          best = { x, y };
+          bestDistance = distance;
+        }
+      }
+    }
+    return best;
+  }
+
+  private isSafeRespawnTile(x: number, y: number): boolean {
+    if (this.grid[y][x] !== null) return false;
+    if (this.players.some(p => p.isPlayerAlive() && p.position.gridX === x && p.position.gridY === y)) return false;
+    if (this.explosions.some(e => e.isActive && e.tiles.some(t => t.gridX === x && t.gridY === y))) return false;
+    if (this.suddenDeath?.getUpcoming(this.roundTime, SUDDEN_DEATH_WARNING_TIME).some(t => t.x === x && t.y === y)) return false;
+    return !this.bombs.some(b => b.isActive && this.isInBlastPath(b, x, y));
+  }
+
+  // Whether a bomb's flames would reach a tile (walls and blocks stop them)
+  private isInBlastPath(bomb: Bomb, x: number, y: number): boolean {
+    const bx = bomb.position.gridX;
+    const by = bomb.position.gridY;
+    if (bx !== x && by !== y) return false;
+
+    const distance = Math.abs(x - bx) + Math.abs(y - by);
+    if (distance > bomb.range) return false;
+
+    const dx = Math.sign(x - bx);
+    const dy = Math.sign(y - by);
+    for (let i = 1; i < distance; i++) {
+      if (this.grid[by + dy * i][bx + dx * i] instanceof Block) return false;
+    }
+    return true;
+  }
+
+  // Drop a dead player's inventory on random empty tiles they could have walked to
+  private scatterPowerUps(player: Player): void {
+    const types = player.takeInventory();
+    if (types.length === 0) return;
+
+    const tiles = this.findReachableTiles(player.position.gridX, player.position.gridY).filter(({ x, y }) =>
+      this.canSpawnPowerUpAt(x, y) &&
+      !this.pendingPowerUps.some(p => p.x === x && p.y === y) &&
+      !this.explosions.some(e => e.isActive && e.tiles.some(t => t.gridX === x && t.gridY === y))
+    );
+
+    // Anything that doesn't fit is lost
+    while (types.length > 0 && tiles.length > 0) {
+      const [tile] = tiles.splice(Random.gameplay.int(tiles.length), 1);
+      this.pendingPowerUps.push({ x: tile.x, y: tile.y, type: types.shift()! });
+    }
+  }
+
+  // Tiles connected to a start tile through open floor (blocks and bombs are in the way, mines aren't)
+  private findReachableTiles(startX: number, startY: number): { x: number; y: number }[] {
+    const visited = new Set<string>([`${startX},${startY}`]);
+    const tiles = [{ x: startX, y: startY }];
+
+    for (let i = 0; i < tiles.length; i++) {
+      const { x, y } = tiles[i];
+      for (const [dx, dy] of [[0, -1], [0, 1], [-1, 0], [1, 0]]) {
+        const nx = x + dx;
+        const ny = y + dy;
+        const key = `${nx},${ny}`;
+        const cell = this.grid[ny]?.[nx];
+        if (visited.has(key) || !(cell === null || cell instanceof Mine)) continue;
+        visited.add(key);
+        tiles.push({ x: nx, y: ny });
+      }
+    }
+    return tiles;
+  }
+
+  // A sudden-death block lands: whatever is on the tile is crushed
+  private dropBlock(gridX: number, gridY: number): void {
+    const existing = this.grid[gridY][gridX];
+    if (existing instanceof Block) {
+      if (!existing.isDestructible) return;
+      existing.destroy();
+    }
+
+    for (const bomb of this.bombs) {
+      if (bomb.isActive && bomb.position.gridX === gridX && bomb.position.gridY === gridY) {
+        bomb.destroy();
+        bomb.owner.onBombExploded();
+      }
+    }
+    for (const mine of this.mines) {
+      if (mine.isActive && mine.position.gridX === gridX && mine.position.gridY === gridY) {
+        mine.destroy();
+      }
+    }
+    for (const powerUp of this.powerUps) {
+      if (powerUp.isActive && powerUp.position.gridX === gridX && powerUp.position.gridY === gridY) {
+        powerUp.destroy();
+      }
+    }
+    this.pendingPowerUps = this.pendingPowerUps.filter(p => p.x !== gridX || p.y !== gridY);
+
+    const block = new Block(gridX, gridY, false);
+    block.startDrop();
+    this.blocks.push(block);
+    this.grid[gridY][gridX] = block;
+
+    for (const player of this.players) {
+      if (player.isPlayerAlive() && player.position.gridX === gridX && player.position.gridY === gridY) {
+        player.die({ cause: 'crushed', killer: null, assists: [] }, true);
+      }
+    }
+
+    this.particleSystem.emitPreset('dustCloud', gridX * TILE_SIZE + TILE_SIZE / 2, gridY * TILE_SIZE + TILE_SIZE);
+    this.camera.shakePreset('subtle');
+    SoundManager.play('blockDrop');
+  }
+
   private processPendingPowerUps(): void {
     if (this.pendingPowerUps.length === 0) return;
 
     for (const pending of this.pendingPowerUps) {
       // Final safety check: ensure the tile is still empty (no other explosion just cleared it)
-      if (!this.grid[pending.y][pending.x]) {
+      if (this.canSpawnPowerUpAt(pending.x, pending.y)) {
         const powerUp = new PowerUp(pending.x, pending.y, pending.type);
         this.powerUps.push(powerUp);
 
@@ -1562,29 +3343,25 @@ export class Game {
     this.pendingPowerUps = [];
   }
 
-  private getRandomPowerUpType(): PowerUpType {
-    const weights: [PowerUpType, number][] = [
-      [PowerUpType.BOMB_UP, 25],
-      [PowerUpType.FIRE_UP, 25],
-      [PowerUpType.SPEED_UP, 15],
-      [PowerUpType.SHIELD, 8],
-      [PowerUpType.KICK, 7],
-      [PowerUpType.TELEPORT, 5],
-      [PowerUpType.FIRE_BOMB, 5],
-      [PowerUpType.ICE_BOMB, 5],
-      [PowerUpType.PIERCING_BOMB, 3],
-      [PowerUpType.SKULL, 2]
-    ];
+  private canSpawnPowerUpAt(x: number, y: number): boolean {
+    return !this.grid[y][x] && !this.powerUps.some(p => p.isActive && p.position.gridX === x && p.position.gridY === y);
+  }
+
+  // Weighted pick from the rules' drop table (null = nothing can drop)
+  private getRandomPowerUpType(): PowerUpType | null {
+    const weights = (Object.entries(this.rules.dropWeights) as [PowerUpType, number][])
+      .filter(([, w]) => w > 0);
 
     const totalWeight = weights.reduce((sum, [, w]) => sum + w, 0);
-    let random = Math.random() * totalWeight;
+    if (totalWeight === 0) return null;
+    let random = Random.gameplay.next() * totalWeight;
 
     for (const [type, weight] of weights) {
       random -= weight;
       if (random <= 0) return type;
     }
 
-    return PowerUpType.BOMB_UP;
+    return weights[weights.length - 1][0];
   }
 
   private checkPowerUpCollection(player: Player): void {
@@ -1612,12 +3389,15 @@ export class Game {
           SoundManager.play('powerUp');
         }
 
+        this.stats.recordPowerUp(player.playerIndex, powerUp.type);
+        EventBus.emit('power-up-collected', { player, type: powerUp.type });
+
         // Record power-up collection for telemetry
         const telemetry = Telemetry.getInstance();
         if (telemetry.isEnabled()) {
           telemetry.recordEvent({
             type: 'powerup_collected',
-            timestamp: performance.now() / 1000,
+            timestamp: this.scheduler.getTime(),
             playerId: player.playerIndex,
             position: { x: powerUp.position.gridX, y: powerUp.position.gridY },
             data: { powerUpType: powerUp.type },
@@ -1638,6 +3418,15 @@ export class Game {
           [PowerUpType.FIRE_BOMB]: 'FIRE BOMBS!',
           [PowerUpType.ICE_BOMB]: 'ICE BOMBS!',
           [PowerUpType.PIERCING_BOMB]: 'PIERCE BOMBS!',
+          [PowerUpType.REMOTE]: 'REMOTE BOMBS!',
+          [PowerUpType.LINE_BOMB]: 'LINE BOMB!',
+          [PowerUpType.MINE]: '+1 MINE',
+          [PowerUpType.BOMB_PASS]: 'BOMB PASS!',
+          [PowerUpType.WALL_PASS]: 'WALL PASS!',
+          [PowerUpType.GLOVE]: 'POWER GLOVE!',
+          [PowerUpType.STAR]: 'INVINCIBLE!',
+          [PowerUpType.GHOST]: 'GHOST!',
+          [PowerUpType.HASTE]: 'HASTE!',
           [PowerUpType.SKULL]: 'CURSED!'
         };
 
@@ -1665,37 +3454,75 @@ export class Game {
     switch (powerUp.type) {
       case PowerUpType.BOMB_UP:
         player.addBomb();
+        player.collect(powerUp.type);
         break;
       case PowerUpType.FIRE_UP:
         player.addRange();
+        player.collect(powerUp.type);
         break;
       case PowerUpType.SPEED_UP:
         player.addSpeed();
+        player.collect(powerUp.type);
         break;
       case PowerUpType.SHIELD:
         player.grantShield();
         break;
       case PowerUpType.KICK:
         player.addAbility('kick');
+        player.collect(powerUp.type);
         break;
       case PowerUpType.PUNCH:
         player.addAbility('punch');
+        player.collect(powerUp.type);
+        break;
+      case PowerUpType.LINE_BOMB:
+        player.addAbility('line_bomb');
+        player.collect(powerUp.type);
+        break;
+      case PowerUpType.BOMB_PASS:
+        player.addAbility('bomb_pass');
+        player.collect(powerUp.type);
+        break;
+      case PowerUpType.WALL_PASS:
+        player.addAbility('wall_pass');
+        player.collect(powerUp.type);
+        break;
+      case PowerUpType.GLOVE:
+        player.addAbility('glove');
+        player.collect(powerUp.type);
+        break;
+      case PowerUpType.STAR:
+      case PowerUpType.GHOST:
+      case PowerUpType.HASTE:
+        // Timed - wears off by itself, so there's nothing to drop on death
+        player.applyBuff(powerUp.type);
         break;
       case PowerUpType.TELEPORT:
         player.addTeleportCharge();
         break;
+      case PowerUpType.MINE:
+        player.addMine();
+        break;
       case PowerUpType.FIRE_BOMB:
         player.setBombType(BombType.FIRE);
+        player.collect(powerUp.type);
         this.renderer.triggerColorFlash('#ff4400', 0.2);
         break;
       case PowerUpType.ICE_BOMB:
         player.setBombType(BombType.ICE);
+        player.collect(powerUp.type);
         this.renderer.triggerColorFlash('#00ffff', 0.2);
         break;
       case PowerUpType.PIERCING_BOMB:
         player.setBombType(BombType.PIERCING);
+        player.collect(powerUp.type);
         this.renderer.triggerColorFlash('#ff00ff', 0.2);
         break;
+      case PowerUpType.REMOTE:
+        player.setBombType(BombType.REMOTE);
+        player.collect(powerUp.type);
+        this.renderer.triggerColorFlash('#ff3333', 0.2);
+        break;
       case PowerUpType.SKULL:
         this.applyRandomDebuff(player);
         this.renderer.triggerColorFlash('#00ff00', 0.3); // Toxic green
@@ -1705,23 +3532,53 @@ export class Game {
   }
 
   private applyRandomDebuff(player: Player): void {
-    const debuffs = ['slow', 'reversed', 'tiny_range', 'diarrhea'];
-    const debuff = debuffs[Math.floor(Math.random() * debuffs.length)];
+    const debuff = Random.gameplay.pick(SKULL_CURSES);
     player.applyDebuff(debuff, 10);
   }
 
-  private onPlayerDied(data: { player: Player }): void {
-    const player = data.player;
+  // Seated profiles keep what they earn; guests and bots go without
+  private onAchievementEvent<E extends AchievementEvent>(event: E, data: AchievementEvents[E]): void {
+    const unlocks = this.achievements.handle(event, data);
+    if (unlocks.length === 0) return;
+
+    const seated = this.getSeatedProfiles();
+    for (const { playerIndex, achievement } of unlocks) {
+      const profile = seated[playerIndex];
+      if (profile && this.profiles.unlockAchievement(profile.id, achievement.id)) {
+        this.renderer.showAchievementToast(achievement.name, profile.name, playerIndex);
+        SoundManager.play('powerUp');
+      }
+    }
+  }
+
+  private onPlayerDied(data: { player: Player } & Death): void {
+    const { player, killer, assists, cause } = data;
+    const roundElapsed = this.rules.roundTime - this.roundTime;
+    this.match.recordDeath(player.playerIndex, roundElapsed);
+    this.match.recordKill({
+      time: roundElapsed,
+      victim: player.playerIndex,
+      killer: killer ? killer.playerIndex : null,
+      assists: assists.map(p => p.playerIndex),
+      cause
+    });
+    this.stats.recordDeath(player.playerIndex, killer ? killer.playerIndex : null, cause);
+    aiTracker.trackDeath(player, killer);
+    this.awardKillPoints(player, killer, assists);
 
     // Record player death for telemetry
     const telemetry = Telemetry.getInstance();
     if (telemetry.isEnabled()) {
       telemetry.recordEvent({
         type: 'player_death',
-        timestamp: performance.now() / 1000,
+        timestamp: this.scheduler.getTime(),
         playerId: player.playerIndex,
         position: { x: player.position.gridX, y: player.position.gridY },
-        data: { cause: 'explosion' },
+        data: {
+          cause: killer === player ? 'suicide' : cause,
+          killerId: killer?.playerIndex,
+          assistIds: assists.map(p => p.playerIndex)
+        },
       });
     }
 
@@ -1739,12 +3596,12 @@ export class Game {
     ]);
 
     // Emit ashes when crumble phase starts (after ~330ms burn phase)
-    setTimeout(() => {
+    this.scheduler.schedule(0.33, () => {
       // Multiple waves of ashes falling
       particles.emitPreset('ashes', centerX, centerY);
-      setTimeout(() => particles.emitPreset('ashes', centerX, centerY + 5), 100);
-      setTimeout(() => particles.emitPreset('ashes', centerX, centerY + 10), 200);
-    }, 330);
+      this.scheduler.schedule(0.1, () => particles.emitPreset('ashes', centerX, centerY + 5));
+      this.scheduler.schedule(0.2, () => particles.emitPreset('ashes', centerX, centerY + 10));
+    });
 
     // Screen shake for dramatic effect
     camera.shakePreset('playerDeath');
@@ -1756,62 +3613,168 @@ export class Game {
 
     // Zoom in slightly on death
     camera.zoomTo(1.2, 0.2);
-    setTimeout(() => camera.zoomTo(1.0, 0.5), 1000);
+    this.scheduler.schedule(1.0, () => camera.zoomTo(1.0, 0.5));
 
-    this.checkWinCondition();
+    // A bomb they were carrying falls where they stood
+    if (player.carriedBomb) {
+      this.throwCarriedBomb(player, 0);
+    }
+
+    // Whatever they collected goes back into the arena
+    this.scatterPowerUps(player);
+    player.resetStats();
+
+    // Nobody is left to press the button - their remote bombs go off on their own
+    for (const bomb of this.bombs) {
+      if (bomb.isActive && bomb.owner === player && bomb.type === BombType.REMOTE) {
+        bomb.triggerChainReaction();
+      }
+    }
+
+    if (player.lives === 0 && this.revengeEnabled && this.phase === GamePhase.PLAYING) {
+      this.revengeCarts.push(new RevengeCart(player.playerIndex, player.position.gridX, player.position.gridY));
+    }
+
+    // No win check here - it runs at the end of the tick, once a revenge swap has had its chance
+  }
+
+  // Nothing for taking out a teammate, beyond the assists
+  private awardKillPoints(victim: Player, killer: Player | null, assists: Player[]): void {
+    const { scoring } = this.rules;
+    const position = { x: victim.position.pixelX, y: victim.position.pixelY };
+
+    if (killer === victim) {
+      this.scoreManager.addPoints(victim.playerIndex, scoring.suicide, 'suicide', position);
+    } else if (killer && !killer.isTeammateOf(victim)) {
+      this.scoreManager.addPoints(killer.playerIndex, scoring.kill, 'kill', position);
+    }
+    for (const assist of assists) {
+      if (!assist.isTeammateOf(victim)) {
+        this.scoreManager.addPoints(assist.playerIndex, scoring.assist, 'assist');
+      }
+    }
+  }
+
+  // Deaths this round recent enough to show in the HUD kill feed, oldest first
+  private getKillFeed(): KillRecord[] {
+    const round = this.match.getRoundNumber();
+    const roundElapsed = this.rules.roundTime - this.roundTime;
+    return this.match.getKills().filter(kill => kill.round === round && roundElapsed - kill.time < KILL_FEED_TIME);
   }
 
   private checkWinCondition(): void {
-    const alivePlayers = this.players.filter(p => p.isPlayerAlive());
+    // Players waiting to respawn are still in it
+    const remaining = this.players.filter(p => !p.isEliminated());
 
-    if (alivePlayers.length <= 1) {
-      this.winner = alivePlayers.length === 1 ? alivePlayers[0] : null;
+    if (this.countSides(remaining) <= 1) {
+      this.setWinner(remaining);
+
+      // This runs every frame - only schedule the transition once
+      if (this.gameOverAt !== null) return;
 
       // Delay before showing game over screen to let death animation play
-      const gameOverDelay = 1500; // 1.5 seconds to see death + ashes
+      const gameOverDelay = 1.5; // 1.5 seconds to see death + ashes
 
       // Stop music immediately for dramatic effect
       SoundManager.stopMusic();
 
-      // Transition to game over after delay
-      setTimeout(() => {
-        this.phase = GamePhase.GAME_OVER;
-        SoundManager.play('gameOver');
-
-        // Victory confetti effect
-        if (this.winner) {
-          const winnerX = this.winner.position.pixelX + TILE_SIZE / 2;
-          const winnerY = this.winner.position.pixelY + TILE_SIZE / 2;
-
-          // Emit confetti at winner's position
-          for (let i = 0; i < 3; i++) {
-            setTimeout(() => {
-              this.particleSystem.emitPreset('confetti', winnerX, winnerY);
-            }, i * 150);
-          }
-
-          // Emit confetti at random locations for celebration
-          for (let i = 0; i < 4; i++) {
-            setTimeout(() => {
-              const randomX = Math.random() * CANVAS_WIDTH;
-              const randomY = Math.random() * CANVAS_HEIGHT * 0.7; // Top 70% of screen
-              this.particleSystem.emitPreset('confetti', randomX, randomY);
-            }, i * 200);
-          }
-        }
-      }, gameOverDelay);
+      this.scheduleGameOver(this.scheduler.getTime() + gameOverDelay);
 
       // Dramatic slow motion zoom? Or just zoom
       this.renderer.getCamera().zoomTo(1.1, 1.0);
     }
   }
 
+  // Each team is one side; players without a team are a side of their own
+  private countSides(players: Player[]): number {
+    return new Set(players.map(p => p.team ?? -1 - p.playerIndex)).size;
+  }
+
+  // The round is decided only if everyone still standing is on one side
+  private setWinner(remaining: Player[]): void {
+    const decided = this.countSides(remaining) === 1;
+    this.winner = decided ? remaining[0] : null;
+    this.winningTeam = decided ? remaining[0].team : null;
+  }
+
+  private scheduleGameOver(at: number): void {
+    this.gameOverAt = at;
+
+    // Transition to game over after delay
+    this.scheduler.scheduleAt(at, () => {
+      // Round may already have ended on time
+      if (this.phase !== GamePhase.PLAYING) return;
+
+      // A revenge revival during the wait can bring a beaten side back - play on
+      const remaining = this.players.filter(p => !p.isEliminated());
+      if (this.countSides(remaining) > 1) {
+        this.setWinner(remaining);
+        this.gameOverAt = null;
+        SoundManager.startMusic();
+        this.renderer.getCamera().zoomTo(1, 0.3);
+        return;
+      }
+
+      // More rounds to go - no victory celebration yet
+      if (!this.finishRound()) return;
+
+      // Victory confetti effect
+      if (this.winner) {
+        const winnerX = this.winner.position.pixelX + TILE_SIZE / 2;
+        const winnerY = this.winner.position.pixelY + TILE_SIZE / 2;
+
+        // Emit confetti at winner's position
+        for (let i = 0; i < 3; i++) {
+          this.scheduler.schedule(i * 0.15, () => {
+            this.particleSystem.emitPreset('confetti', winnerX, winnerY);
+          });
+        }
+
+        // Emit confetti at random locations for celebration
+        for (let i = 0; i < 4; i++) {
+          this.scheduler.schedule(i * 0.2, () => {
+            const randomX = Random.cosmetic.next() * CANVAS_WIDTH;
+            const randomY = Random.cosmetic.next() * CANVAS_HEIGHT * 0.7; // Top 70% of screen
+            this.particleSystem.emitPreset('confetti', randomX, randomY);
+          });
+        }
+      }
+    });
+  }
+
+  // Round decided: hand out trophies, then either the intermission or - once the match is decided - game over.
+  // Returns whether the match is over.
+  private finishRound(): boolean {
+    const winners = this.winner
+      ? this.players.filter(p => p === this.winner || p.isTeammateOf(this.winner!)).map(p => p.playerIndex)
+      : [];
+    this.match.endRound(winners, this.winner?.playerIndex ?? null, this.winningTeam, this.scoreManager, this.rules.roundTime - this.roundTime);
+
+    SoundManager.play('gameOver');
+    if (this.match.isDecided()) {
+      this.phase = GamePhase.GAME_OVER;
+      EventBus.emit('match-over', { winners: winners.map(i => this.players[i]) });
+      return true;
+    }
+
+    this.phase = GamePhase.ROUND_END;
+    this.intermissionTime = ROUND_INTERMISSION_TIME;
+    return false;
+  }
+
+  // Scoreboard between rounds; runs on simulation time so every peer/replay moves on together
+  private updateIntermission(deltaTime: number): void {
+    this.intermissionTime -= deltaTime;
+    this.renderer.update(deltaTime);
+    if (this.intermissionTime <= 0) {
+      this.startRound();
+    }
+  }
+
   private endRound(): void {
-    const alivePlayers = this.players.filter(p => p.isPlayerAlive());
-    this.winner = alivePlayers.length === 1 ? alivePlayers[0] : null;
-    this.phase = GamePhase.GAME_OVER;
+    this.setWinner(this.players.filter(p => !p.isEliminated()));
     SoundManager.stopMusic();
-    SoundManager.play('gameOver');
+    this.finishRound();
 
     // Stop tracking and print AI analysis report
     aiTracker.stop();
@@ -1,13 +1,24 @@
-import {Player} from '../entities/Player';
+import {Player, BombType} from '../entities/Player';
 import {Block} from '../entities/Block';
 import {Bomb} from '../entities/Bomb';
+import {Mine} from '../entities/Mine';
 import {PowerUp, PowerUpType} from '../entities/PowerUp';
 import {Explosion} from '../entities/Explosion';
-import {Direction, GRID_HEIGHT, GRID_WIDTH, TILE_SIZE} from '../constants';
+import {Direction, GRID_HEIGHT, GRID_WIDTH, TILE_SIZE, REVENGE_THROW_DISTANCE} from '../constants';
+import {Random, SeededRandom} from '../core/Random';
+import {DropTile} from '../core/SuddenDeath';
+import {RevengeCart} from '../core/Revenge';
 
 // Power-ups that the AI should avoid
 const BAD_POWERUPS = new Set([PowerUpType.SKULL]);
 
+// Someone else's remote bomb can go off at any moment - treated as just short of live
+// flames (0), so it's never entered casually but can still be fled through
+const REMOTE_DANGER_TIME = 0.05;
+
+// Seconds between planting our own mines
+const MINE_PLANT_COOLDOWN = 4;
+
 /**
  * Grid-based AI with periodic decision making
  * - Every X ms: analyze full grid state and choose strategy
@@ -18,14 +29,23 @@ const BAD_POWERUPS = new Set([PowerUpType.SKULL]);
 interface GridCell {
   x: number;
   y: number;
-  isWalkable: boolean;
+  isWalkable: boolean;   // For us - bomb pass and wall pass open up tiles
+  stopsFlames: boolean;  // Blocks, walls and bombs, whatever our abilities
   isDangerous: boolean;
   dangerTime: number;  // Time until danger (Infinity = safe, bomb.timer = seconds remaining)
   hasBreakableBlock: boolean;
   hasPowerUp: boolean;
   hasBadPowerUp: boolean;  // Track SKULL power-ups separately
-  hasPlayer: boolean;
+  hasPlayer: boolean;     // Opponents only
+  hasTeammate: boolean;
   hasBomb: boolean;
+  hasMine: boolean;       // Only mines we can see - our own, arming or uncovered ones
+}
+
+export interface AIDecision {
+  direction: Direction | null;
+  placeBomb: boolean;
+  special?: boolean;   // Set off our oldest remote bomb, plant a mine, or lay a line bomb
 }
 
 interface AIStrategy {
@@ -79,9 +99,13 @@ export class SimpleAI {
   private settings: SimpleAIDifficultySettings;
   private lastDecisionTime: number = 0;
   private lastBombTime: number = -10;  // Track bomb placement
+  private lastMineTime: number = -10;
   private currentStrategy: AIStrategy | null = null;
   private grid: GridCell[][] = [];
 
+  // Own random stream, forked from the match seed so AI choices are reproducible
+  private rng: SeededRandom;
+
   // Escape commitment tracking to prevent flip-flopping
   private escapeCommitment: {
     direction: Direction;
@@ -114,13 +138,17 @@ export class SimpleAI {
     decisionTime: number;
   } | null = null;
 
+  // Simulation time of the current update (ms) - never wall-clock, so runs are reproducible
+  private currentTimeMs: number = 0;
+
   // Track last decision for debugging
   private lastDecision: { direction: Direction | null; placeBomb: boolean } | null = null;
 
-  constructor(player: Player, difficulty: 'easy' | 'medium' | 'hard' = 'medium') {
+  constructor(player: Player, difficulty: 'easy' | 'medium' | 'hard' = 'medium', rng?: SeededRandom) {
     this.player = player;
     this.difficulty = difficulty;
     this.settings = SIMPLE_AI_PRESETS[difficulty];
+    this.rng = rng ?? Random.fork(player.playerIndex);
   }
 
   update(
@@ -130,14 +158,26 @@ export class SimpleAI {
     bombs: Bomb[],
     explosions: Explosion[],
     powerUps: PowerUp[],
-    players: Player[]
-  ): { direction: Direction | null; placeBomb: boolean } {
+    players: Player[],
+    upcomingDrops: (DropTile & { time: number })[] = [],
+    mines: Mine[] = []
+  ): AIDecision {
+    this.currentTimeMs = currentTime * 1000;
+
     // ALWAYS rebuild grid every frame when in danger for quick response
     const myX = this.player.position.gridX;
     const myY = this.player.position.gridY;
 
     // Build grid
-    this.buildGridStatus(blocks, bombs, explosions, powerUps, players);
+    this.buildGridStatus(blocks, bombs, explosions, powerUps, players, upcomingDrops, mines);
+    const special = this.shouldDetonate(bombs) || this.shouldPlantMine(currentTime);
+
+    // A line bomb goes down at once and is run from like any other bomb
+    const lineBomb = special ? null : this.planLineBomb(currentTime);
+    if (lineBomb) {
+      this.lastDecision = {direction: lineBomb.direction, placeBomb: false};
+      return {...this.lastDecision, special: true};
+    }
 
     const currentCell = this.grid[myY][myX];
 
@@ -180,16 +220,101 @@ export class SimpleAI {
           // Don't walk into danger - stop and reconsider
           this.currentStrategy = null;
           this.lastDecision = {direction: null, placeBomb: false};
-          return this.lastDecision;
+          return {...this.lastDecision, special};
         }
       }
 
       this.lastDecision = result;
-      return result;
+      return {...result, special};
     }
 
     this.lastDecision = {direction: null, placeBomb: false};
-    return this.lastDecision;
+    return {...this.lastDecision, special};
+  }
+
+  // Our remote bombs wait for us: set off the oldest once we're clear of every blast,
+  // unless a teammate would be caught in it
+  private shouldDetonate(bombs: Bomb[]): boolean {
+    const remote = bombs.find(b => b.isActive && b.owner === this.player && b.type === BombType.REMOTE && b.timer > 0);
+    if (!remote) return false;
+    if (this.grid[this.player.position.gridY][this.player.position.gridX].isDangerous) return false;
+    return !this.wouldCatchTeammate(remote.position.gridX, remote.position.gridY);
+  }
+
+  // Mines go down in corridors, where whoever comes through has to step on them
+  private shouldPlantMine(currentTime: number): boolean {
+    if (this.player.mines === 0 || currentTime - this.lastMineTime < MINE_PLANT_COOLDOWN) return false;
+
+    const myX = this.player.position.gridX;
+    const myY = this.player.position.gridY;
+    const cell = this.grid[myY][myX];
+    if (cell.isDangerous || cell.hasBomb || cell.hasMine) return false;
+
+    const open = (x: number, y: number) => this.isValidCell(x, y) && !this.grid[y][x].stopsFlames;
+    const horizontal = open(myX - 1, myY) && open(myX + 1, myY) && !open(myX, myY - 1) && !open(myX, myY + 1);
+    const vertical = open(myX, myY - 1) && open(myX, myY + 1) && !open(myX - 1, myY) && !open(myX + 1, myY);
+    if (!horizontal && !vertical) return false;
+
+    this.lastMineTime = currentTime;
+    return true;
+  }
+
+  // Facing an opponent down a corridor they can't step out of: fill it with every bomb we hold.
+  // Returns the first step of our escape, or null to leave it
+  private planLineBomb(currentTime: number): {direction: Direction | null} | null {
+    const bombsLeft = this.player.maxBombs - this.player.activeBombs;
+    // Held mines take the special key first
+    if (!this.player.hasAbility('line_bomb') || this.player.mines > 0 || bombsLeft < 2) return null;
+    if (currentTime - this.lastBombTime < this.settings.minBombCooldown) return null;
+
+    let dx = 0, dy = 0;
+    switch (this.player.getDirection()) {
+      case Direction.UP: dy = -1; break;
+      case Direction.DOWN: dy = 1; break;
+      case Direction.LEFT: dx = -1; break;
+      case Direction.RIGHT: dx = 1; break;
+    }
+
+    // The tiles the game would fill
+    const myX = this.player.position.gridX;
+    const myY = this.player.position.gridY;
+    const line: Array<{x: number; y: number}> = [];
+    let x = myX;
+    let y = myY;
+    if (this.grid[y][x].hasBomb) {
+      x += dx;
+      y += dy;
+    }
+    while (line.length < bombsLeft && this.isValidCell(x, y)) {
+      const cell = this.grid[y][x];
+      if (cell.stopsFlames || cell.hasMine || cell.hasPlayer || cell.hasTeammate) break;
+      line.push({x, y});
+      x += dx;
+      y += dy;
+    }
+    if (line.length < 2) return null;
+
+    // Look for an opponent within flame reach of the line's end, walled in on both sides
+    let target = false;
+    for (let i = 0; i <= this.player.bombRange && this.isValidCell(x, y); i++, x += dx, y += dy) {
+      const cell = this.grid[y][x];
+      if (cell.hasTeammate || (cell.stopsFlames && !cell.hasPlayer)) break;
+      if (cell.hasPlayer) {
+        const sideBlocked = (sx: number, sy: number) => !this.isValidCell(sx, sy) || this.grid[sy][sx].stopsFlames;
+        target = sideBlocked(x + dy, y + dx) && sideBlocked(x - dy, y - dx);
+        break;
+      }
+    }
+    if (!target) return null;
+
+    if (line.some(tile => this.wouldCatchTeammate(tile.x, tile.y))) return null;
+    const escape = this.findBFSEscapeAfterBomb(myX, myY, line);
+    if (!escape) return null;
+
+    this.lastBombTime = currentTime;
+    this.lastDecisionTime = 0;
+    this.currentStrategy = null;
+    return {direction: this.getDirectionToward(myX, myY, escape.x, escape.y, true)};
   }
 
   private buildGridStatus(
@@ -197,7 +322,9 @@ export class SimpleAI {
     bombs: Bomb[],
     explosions: Explosion[],
     powerUps: PowerUp[],
-    players: Player[]
+    players: Player[],
+    upcomingDrops: (DropTile & { time: number })[],
+    mines: Mine[]
   ): void {
     // Initialize empty grid
     this.grid = [];
@@ -208,13 +335,16 @@ export class SimpleAI {
           x,
           y,
           isWalkable: true,
+          stopsFlames: false,
           isDangerous: false,
           dangerTime: Infinity,  // Safe by default
           hasBreakableBlock: false,
           hasPowerUp: false,
           hasBadPowerUp: false,
           hasPlayer: false,
+          hasTeammate: false,
           hasBomb: false,
+          hasMine: false,
         };
       }
     }
@@ -225,7 +355,8 @@ export class SimpleAI {
       const x = block.position.gridX;
       const y = block.position.gridY;
       if (this.isValidCell(x, y)) {
-        this.grid[y][x].isWalkable = false;
+        this.grid[y][x].stopsFlames = true;
+        this.grid[y][x].isWalkable = block.isDestructible && this.player.hasAbility('wall_pass');
         if (block.isDestructible) {
           this.grid[y][x].hasBreakableBlock = true;
         }
@@ -237,53 +368,50 @@ export class SimpleAI {
       if (!bomb.isActive) continue;
       const bx = bomb.position.gridX;
       const by = bomb.position.gridY;
-      const bombTimer = bomb.timer;
+      // Our own remote bombs only go off when we say so - escaping them as from a fresh fuse is enough
+      const bombTimer = bomb.type !== BombType.REMOTE ? bomb.timer
+        : bomb.owner === this.player ? bomb.fuseTime : REMOTE_DANGER_TIME;
 
       if (this.isValidCell(bx, by)) {
         this.grid[by][bx].hasBomb = true;
-        this.grid[by][bx].isWalkable = false;  // Bombs are physical obstacles
+        this.grid[by][bx].stopsFlames = true;
+        this.grid[by][bx].isWalkable = this.player.hasAbility('bomb_pass');  // Bombs are physical obstacles
         this.grid[by][bx].isDangerous = true;
         // Track shortest danger time (multiple bombs may overlap)
         this.grid[by][bx].dangerTime = Math.min(this.grid[by][bx].dangerTime, bombTimer);
       }
 
       // Mark blast zone (stops at blocks/walls)
-      const range = bomb.range;
-
-      // Horizontal blast - LEFT
-      for (let dx = 1; dx <= range; dx++) {
-        const xLeft = bx - dx;
-        if (!this.isValidCell(xLeft, by)) break;
-        if (!this.grid[by][xLeft].isWalkable) break; // Hit wall/block
-        this.grid[by][xLeft].isDangerous = true;
-        this.grid[by][xLeft].dangerTime = Math.min(this.grid[by][xLeft].dangerTime, bombTimer);
-      }
+      this.markBlastZone(bx, by, bomb.range, bombTimer);
+    }
 
-      // Horizontal blast - RIGHT
-      for (let dx = 1; dx <= range; dx++) {
-        const xRight = bx + dx;
-        if (!this.isValidCell(xRight, by)) break;
-        if (!this.grid[by][xRight].isWalkable) break; // Hit wall/block
-        this.grid[by][xRight].isDangerous = true;
-        this.grid[by][xRight].dangerTime = Math.min(this.grid[by][xRight].dangerTime, bombTimer);
+    // Mines we can see. Ours could be set off by anyone walking in, so we keep clear of the
+    // whole blast as from a fresh fuse. Someone else's is a tile not to step on - its blast
+    // only matters once flames are headed its way.
+    for (const mine of mines) {
+      if (!mine.isActive || !mine.isVisibleTo([this.player.playerIndex])) continue;
+      const mx = mine.position.gridX;
+      const my = mine.position.gridY;
+      if (!this.isValidCell(mx, my)) continue;
+
+      const cell = this.grid[my][mx];
+      cell.hasMine = true;
+      const mineTimer = mine.owner === this.player ? this.player.rules.fuseTime : cell.dangerTime;
+      cell.isDangerous = true;
+      if (mine.owner !== this.player) {
+        cell.dangerTime = 0;
       }
-
-      // Vertical blast - UP
-      for (let dy = 1; dy <= range; dy++) {
-        const yUp = by - dy;
-        if (!this.isValidCell(bx, yUp)) break;
-        if (!this.grid[yUp][bx].isWalkable) break; // Hit wall/block
-        this.grid[yUp][bx].isDangerous = true;
-        this.grid[yUp][bx].dangerTime = Math.min(this.grid[yUp][bx].dangerTime, bombTimer);
+      if (mineTimer !== Infinity) {
+        cell.dangerTime = Math.min(cell.dangerTime, mineTimer);
+        this.markBlastZone(mx, my, mine.range, mineTimer);
       }
+    }
 
-      // Vertical blast - DOWN
-      for (let dy = 1; dy <= range; dy++) {
-        const yDown = by + dy;
-        if (!this.isValidCell(bx, yDown)) break;
-        if (!this.grid[yDown][bx].isWalkable) break; // Hit wall/block
-        this.grid[yDown][bx].isDangerous = true;
-        this.grid[yDown][bx].dangerTime = Math.min(this.grid[yDown][bx].dangerTime, bombTimer);
+    // Sudden death tiles about to be filled are as deadly as a blast
+    for (const drop of upcomingDrops) {
+      if (this.isValidCell(drop.x, drop.y)) {
+        this.grid[drop.y][drop.x].isDangerous = true;
+        this.grid[drop.y][drop.x].dangerTime = Math.min(this.grid[drop.y][drop.x].dangerTime, drop.time);
       }
     }
 
@@ -313,13 +441,17 @@ export class SimpleAI {
       }
     }
 
-    // Mark players
+    // Mark players - teammates separately, so they are never hunted down as targets
     for (const player of players) {
       if (!player.isPlayerAlive() || player === this.player) continue;
       const x = player.position.gridX;
       const y = player.position.gridY;
       if (this.isValidCell(x, y)) {
-        this.grid[y][x].hasPlayer = true;
+        if (this.player.isTeammateOf(player)) {
+          this.grid[y][x].hasTeammate = true;
+        } else {
+          this.grid[y][x].hasPlayer = true;
+        }
       }
     }
   }
@@ -378,7 +510,7 @@ export class SimpleAI {
             direction,
             targetX: safeTile.x,
             targetY: safeTile.y,
-            startTime: Date.now(),
+            startTime: this.currentTimeMs,
             startPixelX: this.player.position.pixelX,
             startPixelY: this.player.position.pixelY,
           };
@@ -436,7 +568,7 @@ export class SimpleAI {
   private isStuck(): boolean {
     if (!this.escapeCommitment) return false;
 
-    const timeSinceCommit = Date.now() - this.escapeCommitment.startTime;
+    const timeSinceCommit = this.currentTimeMs - this.escapeCommitment.startTime;
 
     // Check if we've been committed for at least 500ms
     if (timeSinceCommit > 500) {
@@ -557,7 +689,7 @@ export class SimpleAI {
 
     // Choose randomly among safe tiles
     if (safeTiles.length > 0) {
-      const chosen = safeTiles[Math.floor(Math.random() * safeTiles.length)];
+      const chosen = this.rng.pick(safeTiles);
       return {x: chosen.x, y: chosen.y};
     }
 
@@ -582,7 +714,7 @@ export class SimpleAI {
   }
 
   private findTargetWithBFS(startX: number, startY: number): {x: number; y: number; type: 'block' | 'powerup' | 'player'} | null {
-    const currentTime = Date.now();
+    const currentTime = this.currentTimeMs;
 
     // Check if we have a valid target commitment
     if (this.targetCommitment) {
@@ -631,7 +763,7 @@ export class SimpleAI {
     } else {
       // More aggressive when fewer blocks remain (base + up to 40% based on blocks cleared)
       const aggressionChance = this.settings.aggressionChance + (0.4 * (1 - Math.min(blockCount, 40) / 40));
-      prioritizePlayers = Math.random() < aggressionChance;
+      prioritizePlayers = this.rng.chance(aggressionChance);
       this.aggressionDecision = { prioritizePlayers, decisionTime: currentTime };
     }
 
@@ -661,8 +793,9 @@ export class SimpleAI {
 
         const cell = this.grid[ny][nx];
 
-        // Found a breakable block - record position (current position to bomb from)
-        if (cell.hasBreakableBlock && !nearestBlock) {
+        // Found a breakable block - record position (current position to bomb from,
+        // unless wall pass has us inside another block there)
+        if (cell.hasBreakableBlock && !nearestBlock && !this.grid[y][x].hasBreakableBlock) {
           nearestBlock = {x, y, dist};
         }
 
@@ -756,11 +889,16 @@ export class SimpleAI {
         // Still on cooldown - just wait at target
         return {direction: null, placeBomb: false};
       }
-      if (Math.random() > this.settings.bombPlacementChance) {
+      if (this.rng.next() > this.settings.bombPlacementChance) {
         // Randomly skip bomb placement based on difficulty
         return {direction: null, placeBomb: false};
       }
 
+      if (this.wouldCatchTeammate(myX, myY)) {
+        this.currentStrategy = null;
+        return {direction: null, placeBomb: false};
+      }
+
       // Check if there's a safe escape BEFORE placing the bomb
       const escapeAfterBomb = this.findBFSEscapeAfterBomb(myX, myY);
       if (!escapeAfterBomb) {
@@ -779,7 +917,7 @@ export class SimpleAI {
           direction: moveDir,
           targetX: escapeAfterBomb.x,
           targetY: escapeAfterBomb.y,
-          startTime: Date.now(),
+          startTime: this.currentTimeMs,
           startPixelX: this.player.position.pixelX,
           startPixelY: this.player.position.pixelY,
         };
@@ -912,51 +1050,53 @@ export class SimpleAI {
     return intendedDirection;
   }
 
-  private findBFSEscapeAfterBomb(bombX: number, bombY: number): {x: number; y: number} | null {
-    // Simulate bomb blast zone
+  // Tiles a bomb of ours at (bombX, bombY) would cover (flames stop at walls/blocks)
+  private getBlastZone(bombX: number, bombY: number): Set<string> {
     const bombRange = this.player.bombRange;
     const blastZone = new Set<string>();
 
-    // Calculate minimum safe time - need enough time to cross one tile plus safety buffer
-    const timePerTile = this.getTimeToTraverseTiles(1);
-    const dangerSafetyBuffer = timePerTile * 0.7 + 0.2;
-    const minTimeForDangerousTile = timePerTile + dangerSafetyBuffer;
-
     // Mark bomb position
     blastZone.add(`${bombX},${bombY}`);
 
-    // Mark horizontal blast (stops at walls/blocks)
-    for (let dx = 1; dx <= bombRange; dx++) {
-      const xLeft = bombX - dx;
-      if (this.isValidCell(xLeft, bombY)) {
-        if (!this.grid[bombY][xLeft].isWalkable) break; // Hit a wall/block
-        blastZone.add(`${xLeft},${bombY}`);
-      } else break;
-    }
-    for (let dx = 1; dx <= bombRange; dx++) {
-      const xRight = bombX + dx;
-      if (this.isValidCell(xRight, bombY)) {
-        if (!this.grid[bombY][xRight].isWalkable) break; // Hit a wall/block
-        blastZone.add(`${xRight},${bombY}`);
-      } else break;
+    for (const [dx, dy] of [[-1, 0], [1, 0], [0, -1], [0, 1]]) {
+      for (let i = 1; i <= bombRange; i++) {
+        const x = bombX + dx * i;
+        const y = bombY + dy * i;
+        if (!this.isValidCell(x, y)) break;
+        const cell = this.grid[y][x];
+        if (cell.stopsFlames && !cell.hasBreakableBlock) break; // Hit a wall/bomb
+        blastZone.add(`${x},${y}`);
+        if (cell.stopsFlames) break; // Into the breakable block, no further
+      }
     }
 
-    // Mark vertical blast (stops at walls/blocks)
-    for (let dy = 1; dy <= bombRange; dy++) {
-      const yUp = bombY - dy;
-      if (this.isValidCell(bombX, yUp)) {
-        if (!this.grid[yUp][bombX].isWalkable) break; // Hit a wall/block
-        blastZone.add(`${bombX},${yUp}`);
-      } else break;
+    return blastZone;
+  }
+
+  // Never bomb next to a teammate - they'd be caught in the blast or boxed in by it
+  private wouldCatchTeammate(bombX: number, bombY: number): boolean {
+    const blastZone = this.getBlastZone(bombX, bombY);
+    for (const key of blastZone) {
+      const [x, y] = key.split(',').map(Number);
+      if (this.grid[y][x].hasTeammate) return true;
     }
-    for (let dy = 1; dy <= bombRange; dy++) {
-      const yDown = bombY + dy;
-      if (this.isValidCell(bombX, yDown)) {
-        if (!this.grid[yDown][bombX].isWalkable) break; // Hit a wall/block
-        blastZone.add(`${bombX},${yDown}`);
-      } else break;
+    return false;
+  }
+
+  // lineTiles: the rest of a line bomb - their blasts count too, and the bombs block the way
+  private findBFSEscapeAfterBomb(bombX: number, bombY: number, lineTiles: Array<{x: number; y: number}> = []): {x: number; y: number} | null {
+    // Simulate bomb blast zone
+    const blastZone = this.getBlastZone(bombX, bombY);
+    const lineKeys = new Set(lineTiles.map(tile => `${tile.x},${tile.y}`));
+    for (const tile of lineTiles) {
+      for (const key of this.getBlastZone(tile.x, tile.y)) blastZone.add(key);
     }
 
+    // Calculate minimum safe time - need enough time to cross one tile plus safety buffer
+    const timePerTile = this.getTimeToTraverseTiles(1);
+    const dangerSafetyBuffer = timePerTile * 0.7 + 0.2;
+    const minTimeForDangerousTile = timePerTile + dangerSafetyBuffer;
+
     // BFS to find reachable safe tiles
     const queue: Array<{x: number; y: number; dist: number}> = [{x: bombX, y: bombY, dist: 0}];
     const visited = new Set<string>();
@@ -995,7 +1135,7 @@ export class SimpleAI {
         const ny = y + dy;
         const nkey = `${nx},${ny}`;
 
-        if (this.isValidCell(nx, ny) && this.grid[ny][nx].isWalkable && !visited.has(nkey)) {
+        if (this.isValidCell(nx, ny) && this.grid[ny][nx].isWalkable && !visited.has(nkey) && !lineKeys.has(nkey)) {
           // Check if tile is safe to traverse (not in danger from OTHER bombs)
           const dangerTime = this.grid[ny][nx].dangerTime;
           const isSafeToTraverse = !this.grid[ny][nx].isDangerous ||
@@ -1011,7 +1151,7 @@ export class SimpleAI {
 
     // Choose randomly among safe tiles at minimum distance
     if (safeTiles.length > 0) {
-      return safeTiles[Math.floor(Math.random() * safeTiles.length)];
+      return this.rng.pick(safeTiles);
     }
 
     return null;
@@ -1200,10 +1340,56 @@ export class SimpleAI {
     return null;
   }
 
+  // Flag every tile a blast would reach as dangerous, no later than `time` (stops at blocks/walls)
+  private markBlastZone(bx: number, by: number, range: number, time: number): void {
+    for (const [dx, dy] of [[-1, 0], [1, 0], [0, -1], [0, 1]]) {
+      for (let i = 1; i <= range; i++) {
+        const x = bx + dx * i;
+        const y = by + dy * i;
+        if (!this.isValidCell(x, y)) break;
+        const cell = this.grid[y][x];
+        // Flames stop at blocks but do reach into a breakable one (wall pass can hide there)
+        if (cell.stopsFlames && !cell.hasBreakableBlock) break;
+        cell.isDangerous = true;
+        cell.dangerTime = Math.min(cell.dangerTime, time);
+        if (cell.stopsFlames) break;
+      }
+    }
+  }
+
   private isValidCell(x: number, y: number): boolean {
     return x >= 0 && x < GRID_WIDTH && y >= 0 && y < GRID_HEIGHT;
   }
 
+  // Revenge cart: ride the wall to line up with the nearest opponent in reach and lob a bomb at them
+  updateRevenge(cart: RevengeCart, players: Player[], hasBombOut: boolean): { direction: Direction | null; placeBomb: boolean } {
+    let best: {x: number; y: number} | null = null;
+    let bestDistance = Infinity;
+
+    for (const other of players) {
+      if (!other.isPlayerAlive() || this.player.isTeammateOf(other)) continue;
+
+      const ex = other.position.gridX;
+      const ey = other.position.gridY;
+      const spots = [{x: ex, y: 0}, {x: ex, y: GRID_HEIGHT - 1}, {x: 0, y: ey}, {x: GRID_WIDTH - 1, y: ey}];
+      for (const spot of spots) {
+        const reach = Math.abs(spot.x - ex) + Math.abs(spot.y - ey);
+        if (reach > REVENGE_THROW_DISTANCE + this.player.bombRange) continue;
+
+        const distance = cart.distanceTo(spot.x, spot.y);
+        if (distance < bestDistance) {
+          best = spot;
+          bestDistance = distance;
+        }
+      }
+    }
+
+    if (!best) return {direction: null, placeBomb: false};
+
+    const direction = cart.directionToward(best.x, best.y);
+    return {direction, placeBomb: direction === null && !hasBombOut};
+  }
+
   getState() {
     return {
       currentGoal: this.currentStrategy?.type || 'idle',
@@ -1212,10 +1398,14 @@ export class SimpleAI {
     };
   }
 
-  getDifficulty(): string {
+  getDifficulty(): 'easy' | 'medium' | 'hard' {
     return this.difficulty;
   }
 
+  getPlayer(): Player {
+    return this.player;
+  }
+
   // Debug method for halt detection
   getDebugState(): {
     strategy: string | null;
@@ -11,26 +11,50 @@ export const CANVAS_HEIGHT = GRID_HEIGHT * TILE_SIZE;
 export const TICK_RATE = 60;
 export const TICK_DURATION = 1000 / TICK_RATE;
 
-// Player settings
-export const DEFAULT_PLAYER_SPEED = 3; // tiles per second
-export const DEFAULT_BOMB_COUNT = 1;
-export const DEFAULT_BOMB_RANGE = 2;
-export const MAX_BOMB_COUNT = 8;
-export const MAX_BOMB_RANGE = 10;
-export const MAX_SPEED = 6;
+// Starting stats, stat caps, fuse time, round length and power-up drops are
+// per-match rules - see src/rules/GameRules.ts
 
 // Bomb settings
-export const BOMB_FUSE_TIME = 3.0; // seconds
 export const EXPLOSION_DURATION = 0.5; // seconds
 export const EXPLOSION_KILL_DURATION = EXPLOSION_DURATION / 2; // seconds - how long flames can kill
 export const FIRE_LINGER_DURATION = 2.0; // seconds - additional time FIRE bombs linger
 
-// Power-up spawn chance when block is destroyed
-export const POWERUP_SPAWN_CHANCE = 0.35;
+// Timed buffs: seconds each one lasts once picked up
+export const BUFF_DURATIONS: Record<string, number> = {
+  star: 10,   // Immune to flames
+  ghost: 6,   // Translucent - players never block each other, so it changes nothing else
+  haste: 5,   // Double speed
+};
+
+// What a skull can curse its collector with
+export const SKULL_CURSES = ['slow', 'reversed', 'tiny_range', 'diarrhea'];
+
+// Power glove
+export const GLOVE_THROW_DISTANCE = 3; // tiles a carried bomb is thrown
+export const GLOVE_BOUNCE_TIME = 0.15; // seconds per one-tile hop when a thrown bomb lands on something
+
+// Land mines
+export const MINE_ARM_TIME = 1.5; // seconds after planting before a mine hides and goes live
+export const MINE_REVEAL_DISTANCE = 1; // tiles from a flame within which hidden mines are exposed
 
 // Round settings
-export const ROUND_TIME = 180; // 3 minutes
 export const COUNTDOWN_TIME = 3; // seconds before round starts
+export const ROUND_INTERMISSION_TIME = 6; // seconds of scoreboard between rounds
+export const KILL_FEED_TIME = 5; // seconds a death stays in the HUD kill feed
+
+// Sudden death: blocks rain down in a spiral during the last part of the round
+export const SUDDEN_DEATH_TIME = 60; // seconds left on the clock when it starts
+export const SUDDEN_DEATH_SAFE_TILES = 3; // innermost tiles that never get filled
+export const SUDDEN_DEATH_WARNING_TIME = 2.5; // seconds a tile is marked before its block lands
+
+// Revenge: eliminated players ride a cart around the outer wall and lob bombs in
+export const REVENGE_CART_SPEED = 5; // tiles per second
+export const REVENGE_THROW_DISTANCE = 3; // tiles from the wall to where the bomb lands (closer if blocked)
+export const REVENGE_INVULNERABLE_TIME = 2; // seconds of protection after swapping back in
+
+// Lives mode
+export const RESPAWN_DELAY = 2; // seconds between losing a life and coming back
+export const RESPAWN_INVULNERABLE_TIME = 3;
 
 // Colors (for placeholder graphics) - Bright and Happy!
 export const COLORS = {
@@ -120,6 +144,9 @@ export const RETRO_PALETTE = {
   player4Dark: '#c9b030',
 };
 
+// Team outline/score colors (distinct from the four player colors)
+export const TEAM_COLORS = ['#f77622', '#d77bba'];
+
 // Direction enum
 export enum Direction {
   UP = 'up',
@@ -137,5 +164,8 @@ export enum GamePhase {
   PLAYING = 'playing',
   PAUSED = 'paused',
   ROUND_END = 'round_end',
-  GAME_OVER = 'game_over'
+  GAME_OVER = 'game_over',
+  LOBBY = 'lobby',
+  HISTORY = 'history',
+  ACHIEVEMENTS = 'achievements'
 }
@@ -0,0 +1,227 @@
+import { Player, Death, BombType } from '../entities/Player';
+import { Bomb } from '../entities/Bomb';
+import { PowerUpType } from '../entities/PowerUp';
+import { SKULL_CURSES, Direction } from '../constants';
+
+// What each EventBus event an achievement (or the facts behind them) watches carries
+export interface AchievementEvents {
+  'player-died': { player: Player } & Death;
+  'power-up-collected': { player: Player; type: PowerUpType };
+  'block-destroyed': { gridX: number; gridY: number; destroyer?: Player };
+  'match-over': { winners: Player[] };
+  'debuff-expired': { player: Player; debuff: string };
+  'teleport-arrived': { player: Player };
+  'shield-consumed': { player: Player };
+  'bomb-kicked': { bomb: Bomb; direction: Direction; kicker: Player | null };
+  'bomb-punched': { bomb: Bomb; targetGridX: number; targetGridY: number; puncher: Player | null };
+  'bomb-explode': { bomb: Bomb; gridX: number; gridY: number; range: number; type: BombType };
+  'score-changed': {
+    playerId: number;
+    amount: number;
+    total: number;
+    reason: string;
+    position?: { x: number; y: number };
+    multiplier: number;
+  };
+}
+
+export type AchievementEvent = keyof AchievementEvents;
+
+// What's happened so far this match, kept up to date before any achievement is checked.
+// Indexed by player slot.
+export interface MatchFacts {
+  kills: number;                            // By anyone - 1 means the first blood was just drawn
+  deaths: number[];
+  powerUps: number[];
+  blocks: number[];
+  explosionKills: Map<string, number>;      // `${explosionId}:${killer}` -> kills by those flames
+}
+
+interface AchievementOn<E extends AchievementEvent> {
+  id: string;
+  name: string;
+  description: string;
+  event: E;                                 // EventBus event it's checked on
+  // Who earned it - players, or slots for events that only carry a slot (score-changed)
+  earnedBy: (data: AchievementEvents[E], facts: MatchFacts) => (Player | number | null)[];
+}
+
+export type Achievement = { [E in AchievementEvent]: AchievementOn<E> }[AchievementEvent];
+
+// Every achievement there is, in gallery order. Each one is checked whenever its event
+// fires and is earned by the players its check returns.
+export const ACHIEVEMENTS: Achievement[] = [
+  {
+    id: 'first_blood',
+    name: 'FIRST BLOOD',
+    description: 'Get the first kill of a match',
+    event: 'player-died',
+    earnedBy: (data, facts) => facts.kills === 1 && data.killer && data.killer !== data.player ? [data.killer] : [],
+  },
+  {
+    id: 'two_for_one',
+    name: 'TWO FOR ONE',
+    description: 'Kill two players with one bomb',
+    event: 'player-died',
+    earnedBy: (data, facts) =>
+      data.explosionId && data.killer && data.killer !== data.player &&
+      facts.explosionKills.get(`${data.explosionId}:${data.killer.playerIndex}`) === 2 ? [data.killer] : [],
+  },
+  {
+    id: 'purist',
+    name: 'PURIST',
+    description: 'Win a match without picking up a power-up',
+    event: 'match-over',
+    earnedBy: (data, facts) => data.winners.filter(p => facts.powerUps[p.playerIndex] === 0),
+  },
+  {
+    id: 'flawless',
+    name: 'FLAWLESS',
+    description: 'Win a match without dying',
+    event: 'match-over',
+    earnedBy: (data, facts) => data.winners.filter(p => facts.deaths[p.playerIndex] === 0),
+  },
+  {
+    id: 'curse_breaker',
+    name: 'CURSE BREAKER',
+    description: 'Survive a skull curse until it wears off',
+    event: 'debuff-expired',
+    earnedBy: data => SKULL_CURSES.includes(data.debuff) ? [data.player] : [],
+  },
+  {
+    id: 'phase_shift',
+    name: 'PHASE SHIFT',
+    description: 'Teleport through a bomb',
+    event: 'teleport-arrived',
+    earnedBy: data => [data.player],
+  },
+  {
+    id: 'close_call',
+    name: 'CLOSE CALL',
+    description: 'Let a shield take a blast for you',
+    event: 'shield-consumed',
+    earnedBy: data => [data.player],
+  },
+  {
+    id: 'demolition',
+    name: 'DEMOLITION',
+    description: 'Destroy 30 blocks in one match',
+    event: 'block-destroyed',
+    earnedBy: (data, facts) => data.destroyer && facts.blocks[data.destroyer.playerIndex] === 30 ? [data.destroyer] : [],
+  },
+  {
+    id: 'return_to_sender',
+    name: 'RETURN TO SENDER',
+    description: 'Kick a bomb someone else planted',
+    event: 'bomb-kicked',
+    earnedBy: data => data.kicker && data.bomb.owner !== data.kicker ? [data.kicker] : [],
+  },
+  {
+    id: 'haymaker',
+    name: 'HAYMAKER',
+    description: 'Punch or throw a bomb',
+    event: 'bomb-punched',
+    earnedBy: data => [data.puncher],
+  },
+  {
+    id: 'big_bang',
+    name: 'BIG BANG',
+    description: 'Set off a bomb with a blast range of 8',
+    event: 'bomb-explode',
+    earnedBy: data => data.range >= 8 ? [data.bomb.owner] : [],
+  },
+  {
+    id: 'maxed_out',
+    name: 'MAXED OUT',
+    description: 'Score points at the full x5 multiplier',
+    event: 'score-changed',
+    earnedBy: data => data.multiplier >= 5 && data.amount > 0 ? [data.playerId] : [],
+  },
+];
+
+// Events any achievement (or the facts behind them) needs
+export const ACHIEVEMENT_EVENTS: AchievementEvent[] = [
+  ...new Set<AchievementEvent>(['player-died', 'power-up-collected', 'block-destroyed', ...ACHIEVEMENTS.map(a => a.event)])
+];
+
+export interface AchievementUnlock {
+  playerIndex: number;
+  achievement: Achievement;
+}
+
+// Watches one match's events and says who earned what. Each player earns each
+// achievement at most once per match - whether it's new to them is up to the caller.
+export class AchievementTracker {
+  private facts: MatchFacts = AchievementTracker.emptyFacts(0);
+  private earned: Set<string> = new Set();   // `${playerIndex}:${achievementId}`
+  private active: boolean = false;
+
+  private static emptyFacts(playerCount: number): MatchFacts {
+    return {
+      kills: 0,
+      deaths: new Array(playerCount).fill(0),
+      powerUps: new Array(playerCount).fill(0),
+      blocks: new Array(playerCount).fill(0),
+      explosionKills: new Map(),
+    };
+  }
+
+  // Start watching a new match
+  begin(playerCount: number): void {
+    this.facts = AchievementTracker.emptyFacts(playerCount);
+    this.earned.clear();
+    this.active = true;
+  }
+
+  // Stop watching (replays, network matches, loaded saves)
+  stop(): void {
+    this.active = false;
+  }
+
+  handle<E extends AchievementEvent>(event: E, data: AchievementEvents[E]): AchievementUnlock[] {
+    if (!this.active) return [];
+    this.updateFacts(event, data);
+
+    const unlocks: AchievementUnlock[] = [];
+    for (const achievement of ACHIEVEMENTS) {
+      if (achievement.event !== event) continue;
+      // Checked on this event, so it takes this event's data
+      const earnedBy = achievement.earnedBy as AchievementOn<E>['earnedBy'];
+      for (const earner of earnedBy(data, this.facts)) {
+        if (earner === null) continue;
+        const playerIndex = typeof earner === 'number' ? earner : earner.playerIndex;
+        const key = `${playerIndex}:${achievement.id}`;
+        if (this.earned.has(key)) continue;
+        this.earned.add(key);
+        unlocks.push({ playerIndex, achievement });
+      }
+    }
+    return unlocks;
+  }
+
+  private updateFacts<E extends AchievementEvent>(event: E, data: AchievementEvents[E]): void {
+    const facts = this.facts;
+    switch (event) {
+      case 'player-died': {
+        const death = data as AchievementEvents['player-died'];
+        facts.deaths[death.player.playerIndex]++;
+        if (death.killer && death.killer !== death.player) {
+          facts.kills++;
+          if (death.explosionId) {
+            const key = `${death.explosionId}:${death.killer.playerIndex}`;
+            facts.explosionKills.set(key, (facts.explosionKills.get(key) ?? 0) + 1);
+          }
+        }
+        break;
+      }
+      case 'power-up-collected':
+        facts.powerUps[(data as AchievementEvents['power-up-collected']).player.playerIndex]++;
+        break;
+      case 'block-destroyed': {
+        const { destroyer } = data as AchievementEvents['block-destroyed'];
+        if (destroyer) facts.blocks[destroyer.playerIndex]++;
+        break;
+      }
+    }
+  }
+}
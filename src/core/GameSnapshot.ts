@@ -0,0 +1,87 @@
+import { GamePhase } from '../constants';
+import { PowerUpType, PowerUpSnapshot } from '../entities/PowerUp';
+import { PlayerSnapshot } from '../entities/Player';
+import { BombSnapshot } from '../entities/Bomb';
+import { MineSnapshot } from '../entities/Mine';
+import { BlockSnapshot } from '../entities/Block';
+import { ExplosionSnapshot } from '../entities/Explosion';
+import { ScoreSnapshot } from './ScoreManager';
+import { MatchProgressSnapshot } from './MatchProgress';
+import { MatchStatsSnapshot } from './MatchStats';
+import { SuddenDeathSnapshot } from './SuddenDeath';
+import { RevengeCartSnapshot } from './Revenge';
+import { GameRules } from '../rules/GameRules';
+
+export const SNAPSHOT_VERSION = 16;
+
+// Grid cells reference blocks/bombs/mines by entity id
+export type GridCellSnapshot = { kind: 'block' | 'bomb' | 'mine'; id: string } | null;
+
+// Complete simulation state as plain JSON. Cosmetic state (particles, camera,
+// floating texts) is left out, as are AI controllers' short-term memories -
+// controllers are recreated fresh on restore.
+export interface GameSnapshot {
+  version: number;
+  phase: GamePhase;
+  seed: number;
+  rngState: number;
+  time: number;               // Simulation clock
+  roundTime: number;
+  countdownTime: number;
+  intermissionTime: number;
+  gameOverAt: number | null;
+  playerCount: number;
+  isSinglePlayer: boolean;
+  selectedMapIndex: number;
+  aiPlayers: { playerIndex: number; difficulty: 'easy' | 'medium' | 'hard' }[];
+  winnerIndex: number | null;
+  winningTeam: number | null;
+  friendlyFire: boolean;
+  players: PlayerSnapshot[];
+  bombs: BombSnapshot[];
+  mines: MineSnapshot[];
+  blocks: BlockSnapshot[];
+  explosions: ExplosionSnapshot[];
+  powerUps: PowerUpSnapshot[];
+  pendingPowerUps: { x: number; y: number; type: PowerUpType }[];
+  scores: ScoreSnapshot;
+  match: MatchProgressSnapshot;
+  stats: MatchStatsSnapshot;
+  suddenDeathEnabled: boolean;
+  suddenDeath: SuddenDeathSnapshot | null;
+  revengeEnabled: boolean;
+  revengeCarts: RevengeCartSnapshot[];
+  livesPerPlayer: number;
+  rules: GameRules;
+  grid: GridCellSnapshot[][];
+}
+
+export function serializeSnapshot(snapshot: GameSnapshot): string {
+  return JSON.stringify(snapshot);
+}
+
+export function parseSnapshot(json: string): GameSnapshot {
+  const data = JSON.parse(json) as GameSnapshot;
+
+  if (data.version !== SNAPSHOT_VERSION) {
+    throw new Error(`Unsupported snapshot version: ${data.version}`);
+  }
+  if (!Array.isArray(data.players) || !Array.isArray(data.grid)) {
+    throw new Error('Malformed snapshot');
+  }
+
+  return data;
+}
+
+// FNV-1a hash of the simulation state. Entity ids are random per process, so
+// they are left out - two peers with the same match state get the same checksum.
+export function snapshotChecksum(snapshot: GameSnapshot): number {
+  const json = JSON.stringify(snapshot, (key, value) => (key === 'id' ? undefined : value));
+
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < json.length; i++) {
+    hash ^= json.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
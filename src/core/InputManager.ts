@@ -1,6 +1,6 @@
 import { Direction } from '../constants';
 
-interface KeyBinding {
+export interface KeyBinding {
   up: string;
   down: string;
   left: string;
@@ -85,6 +85,12 @@ export class InputManager {
     return this.justPressed.has(binding.special);
   }
 
+  isSpecialHeld(playerId: number): boolean {
+    const binding = this.bindings.get(playerId);
+    if (!binding) return false;
+    return this.pressedKeys.has(binding.special);
+  }
+
   isKeyPressed(code: string): boolean {
     return this.pressedKeys.has(code);
   }
@@ -97,6 +103,19 @@ export class InputManager {
     return this.bindings.get(playerId);
   }
 
+  // Custom keys for a slot (a profile's); null puts the slot's defaults back
+  setBindings(playerId: number, binding: KeyBinding | null): void {
+    const keys = binding ?? DEFAULT_BINDINGS.get(playerId);
+    if (keys) {
+      this.bindings.set(playerId, { ...keys });
+    }
+  }
+
+  // Every key that went down this frame (typing names, rebinding keys)
+  getJustPressedKeys(): string[] {
+    return Array.from(this.justPressed);
+  }
+
   destroy(): void {
     window.removeEventListener('keydown', this.handleKeyDown.bind(this));
     window.removeEventListener('keyup', this.handleKeyUp.bind(this));
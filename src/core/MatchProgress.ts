@@ -0,0 +1,179 @@
+import { ScoreManager } from './ScoreManager';
+import { DeathCause } from '../entities/Player';
+
+// How one round went - shown on the intermission screen
+export interface RoundResult {
+  round: number;
+  winnerIndex: number | null;   // null = draw
+  winningTeam: number | null;
+  duration: number;             // Seconds the round lasted
+  points: number[];             // Points each player scored this round
+  survivalTimes: number[];      // Seconds each player lasted
+  bestCombos: number[];         // Most taken out by one chain, per player
+}
+
+// One death and who was behind it (see Player.die) - feeds the kill feed and match stats
+export interface KillRecord {
+  round: number;
+  time: number;               // Seconds into the round
+  victim: number;
+  killer: number | null;      // The victim too, for a self-kill
+  assists: number[];
+  cause: DeathCause;
+}
+
+export interface MatchProgressSnapshot {
+  roundsToWin: number;
+  roundWins: number[];
+  results: RoundResult[];
+  roundStartScores: number[];
+  deathTimes: (number | null)[];
+  kills: KillRecord[];
+}
+
+// Rounds of a match: round-win trophies per player and a log of every round.
+// The match is over once somebody has `roundsToWin` trophies (1 = single round).
+export class MatchProgress {
+  private roundWins: number[];
+  private results: RoundResult[] = [];
+  // Cumulative scores when the current round began, to tell this round's points apart
+  private roundStartScores: number[];
+  // Seconds into the current round each player died (null = still alive)
+  private deathTimes: (number | null)[];
+  // Every death of the match, oldest first
+  private kills: KillRecord[] = [];
+
+  constructor(public readonly roundsToWin: number, private playerCount: number) {
+    this.roundWins = new Array(playerCount).fill(0);
+    this.roundStartScores = new Array(playerCount).fill(0);
+    this.deathTimes = new Array(playerCount).fill(null);
+  }
+
+  toSnapshot(): MatchProgressSnapshot {
+    return {
+      roundsToWin: this.roundsToWin,
+      roundWins: [...this.roundWins],
+      results: this.results.map(result => ({
+        ...result,
+        points: [...result.points],
+        survivalTimes: [...result.survivalTimes],
+        bestCombos: [...result.bestCombos]
+      })),
+      roundStartScores: [...this.roundStartScores],
+      deathTimes: [...this.deathTimes],
+      kills: this.kills.map(kill => ({ ...kill, assists: [...kill.assists] }))
+    };
+  }
+
+  static fromSnapshot(snapshot: MatchProgressSnapshot): MatchProgress {
+    const progress = new MatchProgress(snapshot.roundsToWin, snapshot.roundWins.length);
+    progress.roundWins = [...snapshot.roundWins];
+    progress.results = snapshot.results.map(result => ({
+      ...result,
+      points: [...result.points],
+      survivalTimes: [...result.survivalTimes],
+      bestCombos: [...result.bestCombos]
+    }));
+    progress.roundStartScores = [...snapshot.roundStartScores];
+    progress.deathTimes = [...snapshot.deathTimes];
+    progress.kills = snapshot.kills.map(kill => ({ ...kill, assists: [...kill.assists] }));
+    return progress;
+  }
+
+  // Round number being played (1-based)
+  getRoundNumber(): number {
+    return this.results.length + 1;
+  }
+
+  beginRound(scores: ScoreManager): void {
+    this.roundStartScores = this.playerIndices().map(i => scores.getScore(i));
+    this.deathTimes.fill(null);
+  }
+
+  recordDeath(playerIndex: number, roundElapsed: number): void {
+    if (this.deathTimes[playerIndex] === null) {
+      this.deathTimes[playerIndex] = roundElapsed;
+    }
+  }
+
+  recordKill(kill: Omit<KillRecord, 'round'>): void {
+    this.kills.push({ ...kill, round: this.getRoundNumber() });
+  }
+
+  getKills(): KillRecord[] {
+    return this.kills;
+  }
+
+  // Back in the round (revenge swap) - survival is measured to the final death
+  recordRevival(playerIndex: number): void {
+    this.deathTimes[playerIndex] = null;
+  }
+
+  // Record a finished round; every player in `winners` (a whole team, or the lone survivor) gets a trophy
+  endRound(
+    winners: number[],
+    winnerIndex: number | null,
+    winningTeam: number | null,
+    scores: ScoreManager,
+    roundElapsed: number
+  ): RoundResult {
+    for (const index of winners) {
+      this.roundWins[index]++;
+    }
+
+    const result: RoundResult = {
+      round: this.getRoundNumber(),
+      winnerIndex,
+      winningTeam,
+      duration: roundElapsed,
+      points: this.playerIndices().map(i => scores.getScore(i) - this.roundStartScores[i]),
+      survivalTimes: this.deathTimes.map(time => time ?? roundElapsed),
+      bestCombos: this.playerIndices().map(i => scores.getBestCombo(i))
+    };
+    this.results.push(result);
+    return result;
+  }
+
+  // A single-round match ends after its one round, even on a draw; longer ones replay drawn rounds
+  isDecided(): boolean {
+    if (this.roundsToWin <= 1) return this.results.length > 0;
+    return this.roundWins.some(wins => wins >= this.roundsToWin);
+  }
+
+  getRoundWins(): number[] {
+    return [...this.roundWins];
+  }
+
+  getResults(): RoundResult[] {
+    return this.results;
+  }
+
+  // Seconds played over every finished round
+  getDuration(): number {
+    return this.results.reduce((sum, result) => sum + result.duration, 0);
+  }
+
+  getLastResult(): RoundResult | null {
+    return this.results[this.results.length - 1] ?? null;
+  }
+
+  // Most valuable player so far: most trophies, then highest total score, then longest total survival
+  getMvpIndex(scores: ScoreManager): number | null {
+    if (this.results.length === 0) return null;
+
+    const survival = (index: number) => this.results.reduce((sum, result) => sum + result.survivalTimes[index], 0);
+    let best = 0;
+    for (const index of this.playerIndices()) {
+      const diff =
+        this.roundWins[index] - this.roundWins[best] ||
+        scores.getScore(index) - scores.getScore(best) ||
+        survival(index) - survival(best);
+      if (diff > 0) best = index;
+    }
+    return best;
+  }
+
+  private playerIndices(): number[] {
+    return Array.from({ length: this.playerCount }, (_, i) => i);
+  }
+}
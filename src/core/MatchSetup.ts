@@ -0,0 +1,45 @@
+import { GameRules } from '../rules/GameRules';
+
+export interface PlayerSetup {
+  isAI: boolean;
+  difficulty?: 'easy' | 'medium' | 'hard';
+  team?: number;          // Players sharing a team win together; none = free for all
+}
+
+// Who plays where - for matches that aren't configured through the main menu
+// (network rooms, replays, tools)
+export interface MatchSetup {
+  mapIndex: number;
+  players: PlayerSetup[];
+  friendlyFire?: boolean; // Default true - teammates' explosions kill each other
+  roundsToWin?: number;   // Default 1 - a single round decides the match
+  suddenDeath?: boolean;  // Default true - blocks fill the arena in the last minute
+  revenge?: boolean;      // Default false - eliminated players throw bombs from the outer wall
+  lives?: number;         // Default 1 - more lives means respawning after a death
+  rules?: GameRules;      // Default classic preset
+}
+
+// Match lengths offered in the menu
+export const ROUND_FORMATS: { label: string; roundsToWin: number }[] = [
+  { label: 'SINGLE ROUND', roundsToWin: 1 },
+  { label: 'BEST OF 3', roundsToWin: 2 },
+  { label: 'BEST OF 5', roundsToWin: 3 },
+  { label: 'FIRST TO 5', roundsToWin: 5 },
+];
+
+// Lives per player offered in the menu
+export const LIVES_OPTIONS = [1, 3, 5];
+
+export type TeamMode = 'none' | '2v2' | '3v1';
+
+export const TEAM_MODES: TeamMode[] = ['none', '2v2', '3v1'];
+
+// Team of each of the four slots: 2v2 is top row vs bottom row, 3v1 is P1 against everyone
+const TEAM_LAYOUTS: Record<Exclude<TeamMode, 'none'>, number[]> = {
+  '2v2': [0, 0, 1, 1],
+  '3v1': [0, 1, 1, 1],
+};
+
+export function teamForSlot(mode: TeamMode, playerIndex: number): number | null {
+  return mode === 'none' ? null : TEAM_LAYOUTS[mode][playerIndex] ?? null;
+}
@@ -0,0 +1,132 @@
+import { DeathCause } from '../entities/Player';
+
+// Everything one player did over a whole match - the post-match screen and Telemetry both read these
+export interface PlayerMatchStats {
+  bombsPlaced: number;
+  blocksDestroyed: number;            // Credited to whoever started the chain, like the points
+  powerUps: Record<string, number>;   // Collected, by PowerUpType
+  kills: number;
+  deaths: number;
+  suicides: number;
+  distance: number;                   // Tiles walked
+  timeAlive: number;                  // Seconds, over every round
+  kicks: number;
+  punches: number;
+  teleports: number;
+  biggestChain: number;               // Most taken out by one chain they started
+  deathCause: DeathCause | 'suicide' | null;  // How they went out this round (null = still standing)
+}
+
+export interface MatchStatsSnapshot {
+  players: PlayerMatchStats[];
+}
+
+function emptyStats(): PlayerMatchStats {
+  return {
+    bombsPlaced: 0,
+    blocksDestroyed: 0,
+    powerUps: {},
+    kills: 0,
+    deaths: 0,
+    suicides: 0,
+    distance: 0,
+    timeAlive: 0,
+    kicks: 0,
+    punches: 0,
+    teleports: 0,
+    biggestChain: 0,
+    deathCause: null
+  };
+}
+
+function copyStats(stats: PlayerMatchStats): PlayerMatchStats {
+  return { ...stats, powerUps: { ...stats.powerUps } };
+}
+
+// Per-player counters for the current match, indexed by player slot
+export class MatchStats {
+  private players: PlayerMatchStats[];
+
+  constructor(playerCount: number) {
+    this.players = Array.from({ length: playerCount }, emptyStats);
+  }
+
+  toSnapshot(): MatchStatsSnapshot {
+    return { players: this.players.map(copyStats) };
+  }
+
+  static fromSnapshot(snapshot: MatchStatsSnapshot): MatchStats {
+    const stats = new MatchStats(0);
+    stats.players = snapshot.players.map(copyStats);
+    return stats;
+  }
+
+  // Everyone is back on their feet for a new round
+  beginRound(): void {
+    this.players.forEach(p => p.deathCause = null);
+  }
+
+  recordBombPlaced(playerIndex: number): void {
+    this.players[playerIndex].bombsPlaced++;
+  }
+
+  recordBlockDestroyed(playerIndex: number): void {
+    this.players[playerIndex].blocksDestroyed++;
+  }
+
+  recordPowerUp(playerIndex: number, type: string): void {
+    const powerUps = this.players[playerIndex].powerUps;
+    powerUps[type] = (powerUps[type] ?? 0) + 1;
+  }
+
+  // `killer` is the victim themselves for a self-kill, null when nobody gets the blame
+  recordDeath(victim: number, killer: number | null, cause: DeathCause): void {
+    const stats = this.players[victim];
+    stats.deaths++;
+    if (killer === victim) {
+      stats.suicides++;
+      stats.deathCause = 'suicide';
+      return;
+    }
+    stats.deathCause = cause;
+    if (killer !== null) {
+      this.players[killer].kills++;
+    }
+  }
+
+  // Back in the round (respawn, revenge swap)
+  recordRevival(playerIndex: number): void {
+    this.players[playerIndex].deathCause = null;
+  }
+
+  recordMovement(playerIndex: number, tiles: number, deltaTime: number): void {
+    const stats = this.players[playerIndex];
+    stats.distance += tiles;
+    stats.timeAlive += deltaTime;
+  }
+
+  recordKick(playerIndex: number): void {
+    this.players[playerIndex].kicks++;
+  }
+
+  recordPunch(playerIndex: number): void {
+    this.players[playerIndex].punches++;
+  }
+
+  recordTeleport(playerIndex: number): void {
+    this.players[playerIndex].teleports++;
+  }
+
+  recordChain(playerIndex: number, combo: number): void {
+    const stats = this.players[playerIndex];
+    stats.biggestChain = Math.max(stats.biggestChain, combo);
+  }
+
+  get(playerIndex: number): PlayerMatchStats {
+    return this.players[playerIndex];
+  }
+
+  getAll(): PlayerMatchStats[] {
+    return this.players;
+  }
+}
@@ -0,0 +1,39 @@
+import { Direction } from '../constants';
+
+// Everything a player can do in a single tick, regardless of who produced it
+// (keyboard, AI, replay file or network)
+export interface PlayerInput {
+  direction: Direction | null;
+  bomb: boolean;     // Edge-triggered: true only on the tick the key went down
+  special: boolean;  // Edge-triggered
+  specialHeld: boolean;  // True on every tick the special key is down (power glove carries)
+}
+
+export const NO_INPUT: PlayerInput = { direction: null, bomb: false, special: false, specialHeld: false };
+
+const DIRECTION_CODES: (Direction | null)[] = [null, Direction.UP, Direction.DOWN, Direction.LEFT, Direction.RIGHT];
+
+// 64 symbols, one per 6-bit input code (URL and JSON safe)
+const INPUT_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789-_';
+
+// Bits: 0-2 direction, 3 bomb, 4 special, 5 special held
+export function encodeInput(input: PlayerInput): string {
+  let code = DIRECTION_CODES.indexOf(input.direction);
+  if (input.bomb) code |= 1 << 3;
+  if (input.special) code |= 1 << 4;
+  if (input.specialHeld) code |= 1 << 5;
+  return INPUT_ALPHABET[code];
+}
+
+export function decodeInput(symbol: string): PlayerInput {
+  const code = INPUT_ALPHABET.indexOf(symbol);
+  if (code < 0) {
+    throw new Error(`Invalid input symbol: ${symbol}`);
+  }
+  return {
+    direction: DIRECTION_CODES[code & 0b111] ?? null,
+    bomb: (code & (1 << 3)) !== 0,
+    special: (code & (1 << 4)) !== 0,
+    specialHeld: (code & (1 << 5)) !== 0,
+  };
+}
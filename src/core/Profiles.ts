@@ -0,0 +1,220 @@
+import { KeyBinding } from './InputManager';
+import { PlayerMatchStats } from './MatchStats';
+
+export const PROFILES_VERSION = 1;
+const STORAGE_KEY = 'bombbattles.profiles';
+export const MAX_HISTORY = 100;      // Oldest matches fall off past this
+export const MAX_NAME_LENGTH = 10;
+
+// A named local player. Lifetime numbers only ever grow - deleting a match from the
+// history doesn't take it back out of them.
+export interface Profile {
+  id: string;
+  name: string;
+  color: number;                    // Preferred player colour (slot), 0-3
+  bindings: KeyBinding | null;      // null = the keys of whichever slot they sit in
+  matches: number;
+  wins: number;
+  kills: number;
+  deaths: number;
+  suicides: number;
+  mapPlays: Record<string, number>; // Matches played per map name
+  achievements: Record<string, string>;  // Unlocked achievement id -> ISO date it happened
+}
+
+export interface MatchParticipant {
+  name: string;
+  profileId: string | null;         // null = guest or bot
+  isAI: boolean;
+  difficulty?: 'easy' | 'medium' | 'hard';
+  team: number | null;
+}
+
+// One finished match - participants, scores and stats are indexed by player slot
+export interface MatchRecord {
+  id: string;
+  date: string;                     // ISO timestamp of the end of the match
+  map: string;
+  rules: string;
+  duration: number;                 // Seconds played, over every round
+  rounds: number;
+  winnerIndex: number | null;       // null = draw
+  winningTeam: number | null;
+  participants: MatchParticipant[];
+  scores: number[];
+  roundWins: number[];
+  stats: PlayerMatchStats[];
+}
+
+interface StoredProfiles {
+  version: number;
+  profiles: Profile[];
+  history: MatchRecord[];
+}
+
+// What the profile screen shows (see Renderer.renderProfiles)
+export interface ProfileScreenState {
+  profiles: Profile[];
+  seats: (string | null)[];         // Profile id seated in each slot (null = guest)
+  humanSlots: number[];             // Slots a profile can sit in this match
+  cursor: number;                   // profiles.length = the "new profile" row
+  naming: string | null;            // New profile name being typed
+  rebinding: keyof KeyBinding | null;  // Key being waited for
+  confirmDelete: boolean;
+}
+
+// Most played map, or null before their first match
+export function favouriteMap(profile: Profile): string | null {
+  let favourite: string | null = null;
+  for (const [map, plays] of Object.entries(profile.mapPlays)) {
+    if (favourite === null || plays > profile.mapPlays[favourite]) favourite = map;
+  }
+  return favourite;
+}
+
+// Ids for profiles and matches. Not crypto.randomUUID - that only exists in secure
+// contexts, and a LAN game served over plain http is not one.
+let idCounter = 0;
+export function createId(): string {
+  return `${Date.now().toString(36)}-${(idCounter++).toString(36)}`;
+}
+
+export const BINDING_ACTIONS: (keyof KeyBinding)[] = ['up', 'down', 'left', 'right', 'bomb', 'special'];
+
+// Profiles and match history, kept in localStorage. Without storage (headless runs)
+// everything still works for the lifetime of the store, it just isn't kept.
+export class ProfileStore {
+  private profiles: Profile[] = [];
+  private history: MatchRecord[] = [];  // Newest first
+  private readOnly: boolean = false;    // Stored profiles couldn't be read or backed up - never overwrite them
+
+  constructor(private storage: Storage | null) {
+    this.load();
+  }
+
+  getProfiles(): Profile[] {
+    return this.profiles;
+  }
+
+  getProfile(id: string | null): Profile | null {
+    return this.profiles.find(p => p.id === id) ?? null;
+  }
+
+  createProfile(name: string, color: number): Profile {
+    const profile: Profile = {
+      id: createId(),
+      name: name.slice(0, MAX_NAME_LENGTH),
+      color,
+      bindings: null,
+      matches: 0,
+      wins: 0,
+      kills: 0,
+      deaths: 0,
+      suicides: 0,
+      mapPlays: {},
+      achievements: {},
+    };
+    this.profiles.push(profile);
+    this.save();
+    return profile;
+  }
+
+  updateProfile(id: string, changes: Partial<Pick<Profile, 'name' | 'color' | 'bindings'>>): void {
+    const profile = this.getProfile(id);
+    if (!profile) return;
+    Object.assign(profile, changes);
+    this.save();
+  }
+
+  deleteProfile(id: string): void {
+    this.profiles = this.profiles.filter(p => p.id !== id);
+    this.save();
+  }
+
+  // Returns false if they already had it
+  unlockAchievement(id: string, achievementId: string): boolean {
+    const profile = this.getProfile(id);
+    if (!profile || profile.achievements[achievementId]) return false;
+    profile.achievements[achievementId] = new Date().toISOString();
+    this.save();
+    return true;
+  }
+
+  getHistory(): MatchRecord[] {
+    return this.history;
+  }
+
+  // Add a finished match and count it towards its profiles' lifetime numbers
+  recordMatch(record: MatchRecord): void {
+    const winners = record.participants.map((participant, slot) =>
+      record.winningTeam !== null ? participant.team === record.winningTeam : slot === record.winnerIndex
+    );
+
+    record.participants.forEach((participant, slot) => {
+      const profile = this.getProfile(participant.profileId);
+      if (!profile) return;
+      const stats = record.stats[slot];
+      profile.matches++;
+      if (winners[slot]) profile.wins++;
+      profile.kills += stats.kills;
+      profile.deaths += stats.deaths;
+      profile.suicides += stats.suicides;
+      profile.mapPlays[record.map] = (profile.mapPlays[record.map] ?? 0) + 1;
+    });
+
+    this.history.unshift(record);
+    this.history.length = Math.min(this.history.length, MAX_HISTORY);
+    this.save();
+  }
+
+  deleteMatch(id: string): void {
+    this.history = this.history.filter(record => record.id !== id);
+    this.save();
+  }
+
+  exportHistory(): string {
+    return JSON.stringify({ version: PROFILES_VERSION, history: this.history }, null, 2);
+  }
+
+  private load(): void {
+    const saved = this.storage?.getItem(STORAGE_KEY);
+    if (!saved) return;
+
+    try {
+      const data = JSON.parse(saved) as StoredProfiles;
+      if (data.version !== PROFILES_VERSION || !Array.isArray(data.profiles) || !Array.isArray(data.history)) {
+        throw new Error(`Unsupported profiles version: ${data.version}`);
+      }
+      // Profiles saved before achievements existed have none yet
+      this.profiles = data.profiles.map(profile => ({ ...profile, achievements: profile.achievements ?? {} }));
+      this.history = data.history;
+    } catch (error) {
+      console.error('Could not load profiles:', error);
+      this.backUp(saved);
+    }
+  }
+
+  // Keep unreadable profiles (corrupt, or from another version) under a key of their own
+  // before the next save replaces them - if even that fails, stop saving altogether
+  private backUp(saved: string): void {
+    const key = `${STORAGE_KEY}.backup-${Date.now()}`;
+    try {
+      this.storage!.setItem(key, saved);
+      console.error(`Unreadable profiles were kept as ${key}`);
+    } catch (error) {
+      console.error('Could not back up profiles, changes will not be saved:', error);
+      this.readOnly = true;
+    }
+  }
+
+  private save(): void {
+    if (!this.storage || this.readOnly) return;
+
+    const data: StoredProfiles = { version: PROFILES_VERSION, profiles: this.profiles, history: this.history };
+    try {
+      this.storage.setItem(STORAGE_KEY, JSON.stringify(data));
+    } catch (error) {
+      console.error('Could not save profiles:', error);
+    }
+  }
+}
@@ -0,0 +1,75 @@
+// Seedable pseudo-random number generator (mulberry32).
+// Small, fast and - most importantly - reproducible: the same seed always
+// produces the same sequence on every platform.
+export class SeededRandom {
+  private state: number;
+
+  constructor(seed: number) {
+    this.state = seed >>> 0;
+  }
+
+  // Float in [0, 1)
+  next(): number {
+    this.state = (this.state + 0x6d2b79f5) >>> 0;
+    let t = this.state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  }
+
+  range(min: number, max: number): number {
+    return min + this.next() * (max - min);
+  }
+
+  // Integer in [0, maxExclusive)
+  int(maxExclusive: number): number {
+    return Math.floor(this.next() * maxExclusive);
+  }
+
+  chance(probability: number): boolean {
+    return this.next() < probability;
+  }
+
+  pick<T>(items: readonly T[]): T {
+    return items[this.int(items.length)];
+  }
+
+  getState(): number {
+    return this.state;
+  }
+
+  setState(state: number): void {
+    this.state = state >>> 0;
+  }
+}
+
+export function generateSeed(): number {
+  return Math.floor(Math.random() * 0x100000000) >>> 0;
+}
+
+class RandomServiceClass {
+  private seed: number = 0;
+
+  // Everything that can change the outcome of a match draws from here
+  readonly gameplay = new SeededRandom(0);
+
+  // Particles, blinking, screen shake... never affects the simulation
+  readonly cosmetic = new SeededRandom(generateSeed());
+
+  reseed(seed: number): void {
+    this.seed = seed >>> 0;
+    this.gameplay.setState(this.seed);
+  }
+
+  getSeed(): number {
+    return this.seed;
+  }
+
+  // Independent stream derived from the match seed (e.g. one per AI controller),
+  // so adding or removing a consumer doesn't shift everyone else's numbers
+  fork(salt: number): SeededRandom {
+    return new SeededRandom(Math.imul(this.seed ^ 0x9e3779b9, 0x85ebca6b) + Math.imul(salt + 1, 0xc2b2ae35));
+  }
+}
+
+export const Random = new RandomServiceClass();
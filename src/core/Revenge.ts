@@ -0,0 +1,119 @@
+import { Direction, GRID_WIDTH, GRID_HEIGHT, TILE_SIZE, REVENGE_CART_SPEED } from '../constants';
+
+export interface RevengeCartSnapshot {
+  playerIndex: number;
+  ringPosition: number;
+}
+
+// The outer wall, clockwise from the top-left corner
+const RING: { x: number; y: number }[] = (() => {
+  const tiles: { x: number; y: number }[] = [];
+  for (let x = 0; x < GRID_WIDTH; x++) tiles.push({ x, y: 0 });
+  for (let y = 1; y < GRID_HEIGHT; y++) tiles.push({ x: GRID_WIDTH - 1, y });
+  for (let x = GRID_WIDTH - 2; x >= 0; x--) tiles.push({ x, y: GRID_HEIGHT - 1 });
+  for (let y = GRID_HEIGHT - 2; y > 0; y--) tiles.push({ x: 0, y });
+  return tiles;
+})();
+
+function ringTile(index: number): { x: number; y: number } {
+  return RING[((index % RING.length) + RING.length) % RING.length];
+}
+
+function stepDirection(from: { x: number; y: number }, to: { x: number; y: number }): Direction {
+  if (to.x > from.x) return Direction.RIGHT;
+  if (to.x < from.x) return Direction.LEFT;
+  return to.y > from.y ? Direction.DOWN : Direction.UP;
+}
+
+// An eliminated player's cart on the outer wall. It only knows where it is -
+// throwing and swapping back in are up to the game.
+export class RevengeCart {
+  // Distance along the ring in tiles, fractional while moving
+  private ringPosition: number;
+
+  constructor(public readonly playerIndex: number, gridX: number, gridY: number) {
+    // Start on the wall tile closest to where the player fell
+    let closest = 0;
+    let closestDistance = Infinity;
+    RING.forEach((tile, i) => {
+      const distance = Math.abs(tile.x - gridX) + Math.abs(tile.y - gridY);
+      if (distance < closestDistance) {
+        closest = i;
+        closestDistance = distance;
+      }
+    });
+    this.ringPosition = closest;
+  }
+
+  toSnapshot(): RevengeCartSnapshot {
+    return { playerIndex: this.playerIndex, ringPosition: this.ringPosition };
+  }
+
+  static fromSnapshot(snapshot: RevengeCartSnapshot): RevengeCart {
+    const cart = new RevengeCart(snapshot.playerIndex, 0, 0);
+    cart.ringPosition = snapshot.ringPosition;
+    return cart;
+  }
+
+  // Steps along the wall to reach a tile, the short way round
+  distanceTo(x: number, y: number): number {
+    const delta = this.ringDelta(x, y);
+    return Math.min(delta, RING.length - delta);
+  }
+
+  // Key that moves the cart toward a wall tile the short way round (null = already there)
+  directionToward(x: number, y: number): Direction | null {
+    const delta = this.ringDelta(x, y);
+    if (delta === 0) return null;
+    const index = Math.round(this.ringPosition);
+    const sign = delta <= RING.length / 2 ? 1 : -1;
+    return stepDirection(ringTile(index), ringTile(index + sign));
+  }
+
+  private ringDelta(x: number, y: number): number {
+    const target = RING.findIndex(tile => tile.x === x && tile.y === y);
+    if (target < 0) return 0;
+    return ((target - Math.round(this.ringPosition)) % RING.length + RING.length) % RING.length;
+  }
+
+  getTile(): { x: number; y: number } {
+    return ringTile(Math.round(this.ringPosition));
+  }
+
+  // Pixel position between the two wall tiles the cart is passing
+  getPixelPosition(): { x: number; y: number } {
+    const base = Math.floor(this.ringPosition);
+    const t = this.ringPosition - base;
+    const from = ringTile(base);
+    const to = ringTile(base + 1);
+    return {
+      x: (from.x + (to.x - from.x) * t) * TILE_SIZE,
+      y: (from.y + (to.y - from.y) * t) * TILE_SIZE
+    };
+  }
+
+  // Arrow keys follow the wall: on the top edge LEFT/RIGHT move, on the sides UP/DOWN
+  move(direction: Direction | null, deltaTime: number): void {
+    if (!direction) return;
+
+    const index = Math.round(this.ringPosition);
+    const here = ringTile(index);
+    let sign = 0;
+    if (stepDirection(here, ringTile(index + 1)) === direction) sign = 1;
+    else if (stepDirection(here, ringTile(index - 1)) === direction) sign = -1;
+    if (sign === 0) return;
+
+    this.ringPosition = (this.ringPosition + sign * REVENGE_CART_SPEED * deltaTime + RING.length) % RING.length;
+  }
+
+  // Direction into the arena, or null on a corner (nothing to aim at)
+  getThrowDirection(): Direction | null {
+    const { x, y } = this.getTile();
+    const onSide = x === 0 || x === GRID_WIDTH - 1;
+    const onEnd = y === 0 || y === GRID_HEIGHT - 1;
+    if (onSide === onEnd) return null;
+    if (y === 0) return Direction.DOWN;
+    if (y === GRID_HEIGHT - 1) return Direction.UP;
+    return x === 0 ? Direction.RIGHT : Direction.LEFT;
+  }
+}
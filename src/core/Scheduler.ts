@@ -0,0 +1,66 @@
+interface ScheduledTask {
+  id: number;
+  runAt: number;
+  callback: () => void;
+}
+
+// Runs delayed actions on simulation time instead of wall-clock time.
+// Tasks only advance when the game ticks, so they pause with the game,
+// run identically headless and in the browser, and can all be dropped on restart.
+export class Scheduler {
+  private time: number = 0;
+  private nextId: number = 1;
+  private tasks: ScheduledTask[] = [];
+
+  // Schedule a callback `delay` seconds from now; returns an id for cancel()
+  schedule(delay: number, callback: () => void): number {
+    return this.scheduleAt(this.time + delay, callback);
+  }
+
+  // Same, at an absolute simulation time (exact when re-arming restored state)
+  scheduleAt(time: number, callback: () => void): number {
+    const task: ScheduledTask = { id: this.nextId++, runAt: time, callback };
+
+    // Keep sorted by due time; equal times keep insertion order
+    let index = this.tasks.length;
+    while (index > 0 && this.tasks[index - 1].runAt > task.runAt) {
+      index--;
+    }
+    this.tasks.splice(index, 0, task);
+
+    return task.id;
+  }
+
+  cancel(id: number): void {
+    this.tasks = this.tasks.filter(task => task.id !== id);
+  }
+
+  update(deltaTime: number): void {
+    this.time += deltaTime;
+
+    // Tasks scheduled by a callback for "now" still run this tick
+    while (this.tasks.length > 0 && this.tasks[0].runAt <= this.time) {
+      const task = this.tasks.shift()!;
+      task.callback();
+    }
+  }
+
+  // Drop every pending task and restart the clock
+  reset(): void {
+    this.tasks = [];
+    this.time = 0;
+  }
+
+  // Used when restoring a snapshot - pending tasks are not part of it
+  setTime(time: number): void {
+    this.time = time;
+  }
+
+  getTime(): number {
+    return this.time;
+  }
+
+  getPendingCount(): number {
+    return this.tasks.length;
+  }
+}
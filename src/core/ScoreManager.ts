@@ -7,10 +7,20 @@ export interface ScoreEvent {
     position?: { x: number, y: number };
 }
 
+export interface ScoreSnapshot {
+    scores: [number, number][];
+    multipliers: [number, { value: number, timer: number }][];
+    combos: [number, number][];
+    bestCombos: [number, number][];
+}
+
 export class ScoreManager {
     private scores: Map<number, number> = new Map();
     private multipliers: Map<number, { value: number, timer: number }> = new Map();
     private readonly MULTIPLIER_DURATION = 5.0; // Seconds to keep multiplier alive
+    // Blocks and players taken out by the chain a player started, while it's still burning
+    private combos: Map<number, number> = new Map();
+    private bestCombos: Map<number, number> = new Map(); // This round
 
     constructor(playerCount: number) {
         for (let i = 0; i < playerCount; i++) {
@@ -19,6 +29,24 @@ export class ScoreManager {
         }
     }
 
+    toSnapshot(): ScoreSnapshot {
+        return {
+            scores: Array.from(this.scores.entries()),
+            multipliers: Array.from(this.multipliers.entries()).map(([id, data]) => [id, { ...data }]),
+            combos: Array.from(this.combos.entries()),
+            bestCombos: Array.from(this.bestCombos.entries())
+        };
+    }
+
+    static fromSnapshot(snapshot: ScoreSnapshot): ScoreManager {
+        const manager = new ScoreManager(0);
+        manager.scores = new Map(snapshot.scores);
+        manager.multipliers = new Map(snapshot.multipliers.map(([id, data]) => [id, { ...data }]));
+        manager.combos = new Map(snapshot.combos);
+        manager.bestCombos = new Map(snapshot.bestCombos);
+        return manager;
+    }
+
     update(deltaTime: number): void {
         for (const [_playerId, data] of this.multipliers) {
             if (data.timer > 0) {
@@ -57,6 +85,36 @@ export class ScoreManager {
         }
     }
 
+    // One more thing taken out by this player's chain - from the second on, the multiplier
+    // goes up. Returns the combo so far.
+    addComboHit(playerId: number): number {
+        const combo = (this.combos.get(playerId) || 0) + 1;
+        this.combos.set(playerId, combo);
+        if (combo >= 2) {
+            this.increaseMultiplier(playerId);
+        }
+        this.bestCombos.set(playerId, Math.max(combo, this.getBestCombo(playerId)));
+        return combo;
+    }
+
+    // The chain has burnt out
+    endCombo(playerId: number): void {
+        this.combos.delete(playerId);
+    }
+
+    getComboPlayers(): number[] {
+        return Array.from(this.combos.keys());
+    }
+
+    getBestCombo(playerId: number): number {
+        return this.bestCombos.get(playerId) || 0;
+    }
+
+    resetCombos(): void {
+        this.combos.clear();
+        this.bestCombos.clear();
+    }
+
     getScore(playerId: number): number {
         return this.scores.get(playerId) || 0;
     }
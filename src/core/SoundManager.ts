@@ -20,7 +20,9 @@ type SoundType =
   | 'blockDestroy'
   | 'footstep'
   | 'playerPushback'
-  | 'diarrheaBomb';
+  | 'diarrheaBomb'
+  | 'suddenDeath'
+  | 'blockDrop';
 
 class SoundManagerClass {
   private audioContext: AudioContext | null = null;
@@ -126,6 +128,12 @@ class SoundManagerClass {
         case 'diarrheaBomb':
           this.playDiarrheaBomb(ctx);
           break;
+        case 'suddenDeath':
+          this.playSuddenDeath(ctx);
+          break;
+        case 'blockDrop':
+          this.playBlockDrop(ctx);
+          break;
       }
     } catch (e) {
       // Silently fail if audio isn't available
@@ -529,6 +537,54 @@ class SoundManagerClass {
     });
   }
 
+  private playSuddenDeath(ctx: AudioContext): void {
+    const now = ctx.currentTime;
+
+    // Alarm siren: three high-low sweeps
+    for (let i = 0; i < 3; i++) {
+      const start = now + i * 0.4;
+      const osc = ctx.createOscillator();
+      osc.type = 'sawtooth';
+      osc.frequency.setValueAtTime(880, start);
+      osc.frequency.linearRampToValueAtTime(440, start + 0.35);
+
+      const gain = ctx.createGain();
+      gain.gain.setValueAtTime(0.12 * this.masterVolume, start);
+      gain.gain.exponentialRampToValueAtTime(0.001, start + 0.38);
+
+      osc.connect(gain);
+      gain.connect(ctx.destination);
+
+      osc.start(start);
+      osc.stop(start + 0.38);
+    }
+  }
+
+  private playBlockDrop(ctx: AudioContext): void {
+    const now = ctx.currentTime;
+
+    // Deep stone slam
+    const osc = ctx.createOscillator();
+    osc.type = 'square';
+    osc.frequency.setValueAtTime(70, now);
+    osc.frequency.exponentialRampToValueAtTime(25, now + 0.2);
+
+    const filter = ctx.createBiquadFilter();
+    filter.type = 'lowpass';
+    filter.frequency.value = 300;
+
+    const gain = ctx.createGain();
+    gain.gain.setValueAtTime(0.35 * this.masterVolume, now);
+    gain.gain.exponentialRampToValueAtTime(0.001, now + 0.2);
+
+    osc.connect(filter);
+    filter.connect(gain);
+    gain.connect(ctx.destination);
+
+    osc.start(now);
+    osc.stop(now + 0.2);
+  }
+
   private playMenuSelect(ctx: AudioContext): void {
     const now = ctx.currentTime;
     const pitchVar = 1 + (Math.random() - 0.5) * 0.1;
@@ -0,0 +1,98 @@
+import { GRID_WIDTH, GRID_HEIGHT, SUDDEN_DEATH_TIME, SUDDEN_DEATH_SAFE_TILES } from '../constants';
+
+export interface DropTile {
+  x: number;
+  y: number;
+}
+
+export interface SuddenDeathSnapshot {
+  tiles: DropTile[];
+  dropped: number;
+}
+
+// Clockwise spiral over the playable area (inside the border walls), outer ring first
+function spiralOrder(): DropTile[] {
+  const tiles: DropTile[] = [];
+  let left = 1;
+  let top = 1;
+  let right = GRID_WIDTH - 2;
+  let bottom = GRID_HEIGHT - 2;
+
+  while (left <= right && top <= bottom) {
+    for (let x = left; x <= right; x++) tiles.push({ x, y: top });
+    for (let y = top + 1; y <= bottom; y++) tiles.push({ x: right, y });
+    if (top < bottom) {
+      for (let x = right - 1; x >= left; x--) tiles.push({ x, y: bottom });
+    }
+    if (left < right) {
+      for (let y = bottom - 1; y > top; y--) tiles.push({ x: left, y });
+    }
+    left++;
+    top++;
+    right--;
+    bottom--;
+  }
+  return tiles;
+}
+
+// Sudden death schedule for one round: which tiles get a block, in what order and when.
+// Timing follows the round clock, so it is the same on every peer and in replays.
+export class SuddenDeath {
+  private tiles: DropTile[];
+  private dropped: number = 0;
+
+  // `isWall` filters out tiles that are indestructible already (map pillars)
+  constructor(isWall: (x: number, y: number) => boolean) {
+    const spiral = spiralOrder().filter(tile => !isWall(tile.x, tile.y));
+    this.tiles = spiral.slice(0, Math.max(0, spiral.length - SUDDEN_DEATH_SAFE_TILES));
+  }
+
+  toSnapshot(): SuddenDeathSnapshot {
+    return {
+      tiles: this.tiles.map(tile => ({ ...tile })),
+      dropped: this.dropped
+    };
+  }
+
+  static fromSnapshot(snapshot: SuddenDeathSnapshot): SuddenDeath {
+    const suddenDeath = new SuddenDeath(() => false);
+    suddenDeath.tiles = snapshot.tiles.map(tile => ({ ...tile }));
+    suddenDeath.dropped = snapshot.dropped;
+    return suddenDeath;
+  }
+
+  isActive(roundTime: number): boolean {
+    return roundTime <= SUDDEN_DEATH_TIME;
+  }
+
+  // Seconds between two drops - the spiral completes just as the clock runs out
+  private getInterval(): number {
+    return SUDDEN_DEATH_TIME / Math.max(1, this.tiles.length);
+  }
+
+  // Round-clock value at which tile `index` drops
+  private dropTimeOf(index: number): number {
+    return SUDDEN_DEATH_TIME - index * this.getInterval();
+  }
+
+  // Tiles whose drop time has come; each is returned exactly once
+  takeDueDrops(roundTime: number): DropTile[] {
+    const due: DropTile[] = [];
+    while (this.dropped < this.tiles.length && roundTime <= this.dropTimeOf(this.dropped)) {
+      due.push(this.tiles[this.dropped]);
+      this.dropped++;
+    }
+    return due;
+  }
+
+  // Tiles dropping within the next `window` seconds, with the time left until each lands
+  getUpcoming(roundTime: number, window: number): (DropTile & { time: number })[] {
+    const upcoming: (DropTile & { time: number })[] = [];
+    for (let i = this.dropped; i < this.tiles.length; i++) {
+      const time = roundTime - this.dropTimeOf(i);
+      if (time > window) break;
+      upcoming.push({ ...this.tiles[i], time: Math.max(0, time) });
+    }
+    return upcoming;
+  }
+}
@@ -1,6 +1,8 @@
-import { Entity } from './Entity';
+import { Entity, EntitySnapshot } from './Entity';
 import { RETRO_PALETTE } from '../constants';
 import { EventBus } from '../core/EventBus';
+import { Random } from '../core/Random';
+import { Player } from './Player';
 
 // Pixel sprite for destructible block (wooden crate - 12x10 top + 2 front)
 const WOOD_BLOCK_TOP = [
@@ -92,18 +94,56 @@ const DESTROY_FRAMES = [
   ],
 ];
 
+export interface BlockSnapshot extends EntitySnapshot {
+  isDestructible: boolean;
+  isDestroying: boolean;
+  destroyAnimationProgress: number;
+}
+
 export class Block extends Entity {
   public readonly isDestructible: boolean;
   private destroyAnimationProgress: number = 0;
   private isDestroying: boolean = false;
   private destroyFrame: number = 0;
+  private dropOffset: number = 0; // Purely visual: pixels above the tile while falling in
 
   constructor(gridX: number, gridY: number, isDestructible: boolean) {
     super(gridX, gridY);
     this.isDestructible = isDestructible;
   }
 
+  toSnapshot(): BlockSnapshot {
+    return {
+      ...this.getEntitySnapshot(),
+      isDestructible: this.isDestructible,
+      isDestroying: this.isDestroying,
+      destroyAnimationProgress: this.destroyAnimationProgress
+    };
+  }
+
+  // Overwrite this entity's state in place (keeps purely visual state running)
+  applySnapshot(snapshot: BlockSnapshot): void {
+    this.applyEntitySnapshot(snapshot);
+    this.isDestroying = snapshot.isDestroying;
+    this.destroyAnimationProgress = snapshot.destroyAnimationProgress;
+    this.destroyFrame = Math.min(3, Math.floor(snapshot.destroyAnimationProgress * 4));
+  }
+
+  static fromSnapshot(snapshot: BlockSnapshot): Block {
+    const block = new Block(snapshot.position.gridX, snapshot.position.gridY, snapshot.isDestructible);
+    block.applySnapshot(snapshot);
+    return block;
+  }
+
+  // Sudden death: slam down from above (the block occupies its tile immediately)
+  startDrop(): void {
+    this.dropOffset = 96;
+  }
+
   update(deltaTime: number): void {
+    if (this.dropOffset > 0) {
+      this.dropOffset = Math.max(0, this.dropOffset - deltaTime * 900);
+    }
     if (this.isDestroying) {
       this.destroyAnimationProgress += deltaTime * 6; // Faster animation
       this.destroyFrame = Math.min(3, Math.floor(this.destroyAnimationProgress * 4));
@@ -115,7 +155,7 @@ export class Block extends Entity {
 
   render(ctx: CanvasRenderingContext2D, _interpolation: number): void {
     const x = Math.floor(this.position.pixelX);
-    const y = Math.floor(this.position.pixelY);
+    const y = Math.floor(this.position.pixelY - this.dropOffset);
     const pixelSize = 4; // 12 pixels * 4 = 48 (TILE_SIZE)
 
     if (this.isDestroying) {
@@ -179,8 +219,8 @@ export class Block extends Entity {
     };
 
     // Apply some random offset for shake effect
-    const shakeX = (Math.random() - 0.5) * 4 * (1 - this.destroyAnimationProgress);
-    const shakeY = (Math.random() - 0.5) * 4 * (1 - this.destroyAnimationProgress);
+    const shakeX = (Random.cosmetic.next() - 0.5) * 4 * (1 - this.destroyAnimationProgress);
+    const shakeY = (Random.cosmetic.next() - 0.5) * 4 * (1 - this.destroyAnimationProgress);
 
     // Fade out
     ctx.globalAlpha = 1 - this.destroyAnimationProgress * 0.5;
@@ -230,12 +270,14 @@ export class Block extends Entity {
     ctx.fillRect(x + width, y, 1, height);
   }
 
-  startDestroy(): void {
+  // `destroyer` gets the credit - whoever started the chain that reached it
+  startDestroy(destroyer?: Player): void {
     if (!this.isDestructible) return;
     this.isDestroying = true;
     EventBus.emit('block-destroyed', {
       gridX: this.position.gridX,
-      gridY: this.position.gridY
+      gridY: this.position.gridY,
+      destroyer
     });
   }
 }
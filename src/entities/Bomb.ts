@@ -1,7 +1,10 @@
-import { Entity } from './Entity';
+import { Entity, EntitySnapshot } from './Entity';
 import { Player, BombType } from './Player';
-import { TILE_SIZE, BOMB_FUSE_TIME, RETRO_PALETTE, Direction } from '../constants';
+import { TILE_SIZE, RETRO_PALETTE, Direction } from '../constants';
 import { EventBus } from '../core/EventBus';
+import { Random } from '../core/Random';
+
+export const PUNCH_FLIGHT_TIME = 0.5; // seconds a punched or thrown bomb is in the air
 
 // Pixel art bomb sprite (8x8 pixels)
 const BOMB_SPRITE = [
@@ -44,12 +47,43 @@ const BOMB_TYPE_COLORS = {
     light: RETRO_PALETTE.magicPink,
     dark: RETRO_PALETTE.magicDark,
   },
+  [BombType.REMOTE]: {
+    main: '#45444f',
+    light: RETRO_PALETTE.uiRed,
+    dark: '#222034',
+  },
 };
 
+export interface BombSnapshot extends EntitySnapshot {
+  ownerIndex: number;
+  type: BombType;
+  range: number;
+  fuseTime: number;
+  timer: number;
+  isDetonating: boolean;
+  isSliding: boolean;
+  slideDirection: Direction | null;
+  slideSpeed: number;
+  isPunched: boolean;
+  punchProgress: number;
+  punchStartX: number;
+  punchStartY: number;
+  punchTargetX: number;
+  punchTargetY: number;
+  punchDuration: number;
+  bounceDirection: Direction | null;
+  carrierIndex: number | null;
+  chainOwners: number[];
+  ownerHasLeft: boolean;
+  isRevenge: boolean;
+  pulseTimer: number;
+}
+
 export class Bomb extends Entity {
   public readonly owner: Player;
   public readonly type: BombType;
   public readonly range: number;
+  public readonly fuseTime: number;
   public timer: number;
   public isDetonating: boolean = false;
 
@@ -66,11 +100,23 @@ export class Bomb extends Entity {
   public punchTargetX: number = 0;
   public punchTargetY: number = 0;
   public punchDuration: number = 0.5; // seconds
+  // Thrown with the power glove: keeps hopping this way until it lands on a free tile
+  public bounceDirection: Direction | null = null;
+
+  // Lifted with the power glove - rides along with this player, fuse still burning
+  public carrier: Player | null = null;
+
+  // Set off by other explosions: the owners (player indexes) of every bomb up that chain,
+  // first one first. They share the credit for whatever this bomb kills.
+  public chainOwners: number[] = [];
 
   // Flag to track if the bomb owner has left the bomb's tile
   // Once true, the owner cannot walk back onto the bomb
   public ownerHasLeft: boolean = false;
 
+  // Thrown from a revenge cart - only these flames can bring their owner back
+  public isRevenge: boolean = false;
+
   private pulseTimer: number = 0;
 
   constructor(gridX: number, gridY: number, owner: Player) {
@@ -78,15 +124,80 @@ export class Bomb extends Entity {
     this.owner = owner;
     this.type = owner.bombType;
     this.range = owner.getEffectiveBombRange();
-    this.timer = BOMB_FUSE_TIME;
+    this.fuseTime = owner.rules.fuseTime;
+    this.timer = this.fuseTime;
+  }
+
+  toSnapshot(): BombSnapshot {
+    return {
+      ...this.getEntitySnapshot(),
+      ownerIndex: this.owner.playerIndex,
+      type: this.type,
+      range: this.range,
+      fuseTime: this.fuseTime,
+      timer: this.timer,
+      isDetonating: this.isDetonating,
+      isSliding: this.isSliding,
+      slideDirection: this.slideDirection,
+      slideSpeed: this.slideSpeed,
+      isPunched: this.isPunched,
+      punchProgress: this.punchProgress,
+      punchStartX: this.punchStartX,
+      punchStartY: this.punchStartY,
+      punchTargetX: this.punchTargetX,
+      punchTargetY: this.punchTargetY,
+      punchDuration: this.punchDuration,
+      bounceDirection: this.bounceDirection,
+      carrierIndex: this.carrier ? this.carrier.playerIndex : null,
+      chainOwners: [...this.chainOwners],
+      ownerHasLeft: this.ownerHasLeft,
+      isRevenge: this.isRevenge,
+      pulseTimer: this.pulseTimer
+    };
+  }
+
+  // Overwrite this entity's state in place (keeps purely visual state running)
+  applySnapshot(snapshot: BombSnapshot): void {
+    this.applyEntitySnapshot(snapshot);
+    // Type, range and fuse were captured from the owner at placement time, not now
+    Object.assign(this, { type: snapshot.type, range: snapshot.range, fuseTime: snapshot.fuseTime });
+    this.timer = snapshot.timer;
+    this.isDetonating = snapshot.isDetonating;
+    this.isSliding = snapshot.isSliding;
+    this.slideDirection = snapshot.slideDirection;
+    this.slideSpeed = snapshot.slideSpeed;
+    this.isPunched = snapshot.isPunched;
+    this.punchProgress = snapshot.punchProgress;
+    this.punchStartX = snapshot.punchStartX;
+    this.punchStartY = snapshot.punchStartY;
+    this.punchTargetX = snapshot.punchTargetX;
+    this.punchTargetY = snapshot.punchTargetY;
+    this.punchDuration = snapshot.punchDuration;
+    this.bounceDirection = snapshot.bounceDirection;
+    // The carrier is linked back up by the game (players are restored separately)
+    this.chainOwners = [...snapshot.chainOwners];
+    this.ownerHasLeft = snapshot.ownerHasLeft;
+    this.isRevenge = snapshot.isRevenge;
+    this.pulseTimer = snapshot.pulseTimer;
+  }
+
+  // Owner must already be restored - bombs reference players by index in snapshots
+  // (the carrier, if any, is set by the game)
+  static fromSnapshot(snapshot: BombSnapshot, owner: Player): Bomb {
+    const bomb = new Bomb(snapshot.position.gridX, snapshot.position.gridY, owner);
+    bomb.applySnapshot(snapshot);
+    return bomb;
   }
 
   update(deltaTime: number): void {
-    this.timer -= deltaTime;
+    // Remote bombs don't tick - the owner (or a chain reaction) zeroes the timer
+    if (this.type !== BombType.REMOTE) {
+      this.timer -= deltaTime;
+    }
     this.pulseTimer += deltaTime;
 
     // Emit danger sparks when bomb is about to explode
-    if (this.timer < 1.0 && Math.random() < 0.3) {
+    if (this.timer < 1.0 && Random.cosmetic.chance(0.3)) {
       EventBus.emit('bomb-danger-sparks', { bomb: this });
     }
 
@@ -127,7 +238,7 @@ export class Bomb extends Entity {
     const colors = BOMB_TYPE_COLORS[this.type];
 
     // Pulsing effect - toggle between two discrete sizes instead of smooth
-    const urgency = 1 - (this.timer / BOMB_FUSE_TIME);
+    const urgency = 1 - (this.timer / this.fuseTime);
     const pulseSpeed = 8 + urgency * 12;
     const isPulseBig = Math.sin(this.pulseTimer * pulseSpeed) > 0;
     const scale = isPulseBig ? 1.1 : 1.0;
@@ -137,6 +248,8 @@ export class Bomb extends Entity {
     if (this.isPunched) {
       const t = this.punchProgress;
       arcOffsetY = Math.floor(-Math.sin(t * Math.PI) * 30);
+    } else if (this.carrier) {
+      arcOffsetY = -Math.floor(TILE_SIZE * 0.6); // Held overhead
     }
 
     const centerX = Math.floor(x + TILE_SIZE / 2);
@@ -193,6 +306,33 @@ export class Bomb extends Entity {
     // Draw black outline around bomb
     this.drawBombOutline(ctx, startX, startY, pixelSize * scale);
 
+    // Remote bombs carry an antenna where the fuse would be
+    if (this.type === BombType.REMOTE) {
+      this.drawAntenna(ctx, centerX, startY, scale);
+    } else {
+      this.drawFuse(ctx, centerX, startY, scale, urgency);
+    }
+
+    // Flash white right before explosion (toggle on/off)
+    if (this.timer < 0.5 && Math.sin(this.pulseTimer * 30) > 0) {
+      ctx.fillStyle = 'rgba(255, 255, 255, 0.6)';
+      for (let py = 0; py < BOMB_SPRITE.length; py++) {
+        const row = BOMB_SPRITE[py];
+        for (let px = 0; px < row.length; px++) {
+          if (row[px] !== '.') {
+            ctx.fillRect(
+              Math.floor(startX + px * pixelSize * scale),
+              Math.floor(startY + py * pixelSize * scale),
+              Math.ceil(pixelSize * scale),
+              Math.ceil(pixelSize * scale)
+            );
+          }
+        }
+      }
+    }
+  }
+
+  private drawFuse(ctx: CanvasRenderingContext2D, centerX: number, startY: number, scale: number, urgency: number): void {
     // Draw fuse
     const fuseX = centerX + 8 * scale;
     const fuseY = startY - 4 * scale;
@@ -227,30 +367,29 @@ export class Bomb extends Entity {
       ctx.fillRect(sparkX + 1, sparkY + 1, 2, 2);
 
       // Random spark particles
-      if (Math.random() > 0.6) {
+      if (Random.cosmetic.chance(0.4)) {
         ctx.fillStyle = sparkOn ? RETRO_PALETTE.fireYellow : RETRO_PALETTE.fireOrange;
         const offsets = [[-4, -2], [4, 0], [-2, 4], [2, -4]];
-        const offset = offsets[Math.floor(Math.random() * offsets.length)];
+        const offset = Random.cosmetic.pick(offsets);
         ctx.fillRect(sparkX + offset[0], sparkY + offset[1], 2, 2);
       }
     }
+  }
 
-    // Flash white right before explosion (toggle on/off)
-    if (this.timer < 0.5 && Math.sin(this.pulseTimer * 30) > 0) {
-      ctx.fillStyle = 'rgba(255, 255, 255, 0.6)';
-      for (let py = 0; py < BOMB_SPRITE.length; py++) {
-        const row = BOMB_SPRITE[py];
-        for (let px = 0; px < row.length; px++) {
-          if (row[px] !== '.') {
-            ctx.fillRect(
-              Math.floor(startX + px * pixelSize * scale),
-              Math.floor(startY + py * pixelSize * scale),
-              Math.ceil(pixelSize * scale),
-              Math.ceil(pixelSize * scale)
-            );
-          }
-        }
-      }
+  // Antenna with a blinking receiver light - armed until the owner pulls the trigger
+  private drawAntenna(ctx: CanvasRenderingContext2D, centerX: number, startY: number, scale: number): void {
+    const antennaX = Math.floor(centerX + 4 * scale);
+    const antennaTop = Math.floor(startY - 10 * scale);
+
+    ctx.fillStyle = RETRO_PALETTE.bombHighlight;
+    ctx.fillRect(antennaX, antennaTop, 3, Math.ceil(12 * scale));
+
+    const lightOn = Math.sin(this.pulseTimer * 6) > 0;
+    ctx.fillStyle = lightOn ? '#ff3333' : RETRO_PALETTE.uiRed;
+    ctx.fillRect(antennaX - 2, antennaTop - 4, 7, 5);
+    if (lightOn) {
+      ctx.fillStyle = RETRO_PALETTE.fireWhite;
+      ctx.fillRect(antennaX, antennaTop - 3, 2, 2);
     }
   }
 
@@ -293,16 +432,22 @@ export class Bomb extends Entity {
     this.destroy();
   }
 
-  triggerChainReaction(): void {
+  // Go off on the next update. Set off by flames, `chainOwners` are the owners of that
+  // explosion and of its own chain
+  triggerChainReaction(chainOwners: number[] = []): void {
     if (!this.isDetonating) {
       this.timer = 0;
+      for (const index of chainOwners) {
+        if (!this.chainOwners.includes(index)) this.chainOwners.push(index);
+      }
     }
   }
 
-  kick(direction: Direction): void {
+  // `kicker` / `puncher` is whoever sent it flying (null when nobody did, e.g. a bounce)
+  kick(direction: Direction, kicker: Player | null = null): void {
     this.isSliding = true;
     this.slideDirection = direction;
-    EventBus.emit('bomb-kicked', { bomb: this, direction });
+    EventBus.emit('bomb-kicked', { bomb: this, direction, kicker });
   }
 
   stopSliding(): void {
@@ -315,9 +460,10 @@ export class Bomb extends Entity {
     this.position.pixelY = this.position.gridY * TILE_SIZE;
   }
 
-  punch(targetGridX: number, targetGridY: number): void {
+  punch(targetGridX: number, targetGridY: number, duration: number = PUNCH_FLIGHT_TIME, puncher: Player | null = null): void {
     this.isPunched = true;
     this.punchProgress = 0;
+    this.punchDuration = duration;
     this.punchStartX = this.position.pixelX;
     this.punchStartY = this.position.pixelY;
     this.punchTargetX = targetGridX * TILE_SIZE;
@@ -325,7 +471,8 @@ export class Bomb extends Entity {
     EventBus.emit('bomb-punched', {
       bomb: this,
       targetGridX,
-      targetGridY
+      targetGridY,
+      puncher
     });
   }
 
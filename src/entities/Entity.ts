@@ -7,6 +7,14 @@ export interface Position {
   pixelY: number;
 }
 
+// Common serializable state of every entity
+export interface EntitySnapshot {
+  id: string;
+  position: Position;
+  prevPosition: Position;
+  isActive: boolean;
+}
+
 export abstract class Entity {
   public id: string;
   public position: Position;
@@ -35,6 +43,22 @@ export abstract class Entity {
     this.isActive = false;
   }
 
+  protected getEntitySnapshot(): EntitySnapshot {
+    return {
+      id: this.id,
+      position: { ...this.position },
+      prevPosition: { ...this.prevPosition },
+      isActive: this.isActive
+    };
+  }
+
+  protected applyEntitySnapshot(snapshot: EntitySnapshot): void {
+    this.id = snapshot.id;
+    this.position = { ...snapshot.position };
+    this.prevPosition = { ...snapshot.prevPosition };
+    this.isActive = snapshot.isActive;
+  }
+
   getInterpolatedPosition(interpolation: number): { x: number; y: number } {
     return {
       x: this.prevPosition.pixelX + (this.position.pixelX - this.prevPosition.pixelX) * interpolation,
@@ -1,4 +1,4 @@
-import { Entity } from './Entity';
+import { Entity, EntitySnapshot } from './Entity';
 import { Direction, TILE_SIZE, EXPLOSION_DURATION, EXPLOSION_KILL_DURATION, FIRE_LINGER_DURATION, RETRO_PALETTE } from '../constants';
 import { BombType } from './Player';
 
@@ -35,6 +35,12 @@ const EXPLOSION_COLORS = {
     RETRO_PALETTE.magicPurple,
     RETRO_PALETTE.magicDark,
   ],
+  [BombType.REMOTE]: [
+    RETRO_PALETTE.fireWhite,
+    RETRO_PALETTE.fireYellow,
+    RETRO_PALETTE.fireOrange,
+    RETRO_PALETTE.fireRed,
+  ],
 };
 
 // Center explosion sprite (12x12 pixels)
@@ -116,9 +122,23 @@ const END_RIGHT = [
   'WWWW..',
 ];
 
+export interface ExplosionSnapshot extends EntitySnapshot {
+  tiles: ExplosionTile[];
+  bombType: BombType;
+  ownerIndex: number;
+  chainOwners: number[];
+  isRevenge: boolean;
+  timer: number;
+  isLingering: boolean;
+  lingerTimer: number;
+}
+
 export class Explosion extends Entity {
   public readonly tiles: ExplosionTile[];
   public readonly bombType: BombType;
+  public readonly ownerIndex: number; // Player whose bomb this was
+  public readonly chainOwners: number[]; // Owners of the bombs whose chain set that bomb off
+  public readonly isRevenge: boolean; // From a revenge cart bomb (see Bomb.isRevenge)
   private timer: number = EXPLOSION_DURATION;
   private maxTimer: number = EXPLOSION_DURATION;
   private animFrame: number = 0;
@@ -127,11 +147,14 @@ export class Explosion extends Entity {
   private isLingering: boolean = false;
   private lingerTimer: number = 0;
 
-  constructor(tiles: ExplosionTile[], bombType: BombType) {
+  constructor(tiles: ExplosionTile[], bombType: BombType, ownerIndex: number, chainOwners: number[] = [], isRevenge: boolean = false) {
     const center = tiles.find(t => t.direction === 'center') || tiles[0];
     super(center.gridX, center.gridY);
     this.tiles = tiles;
     this.bombType = bombType;
+    this.ownerIndex = ownerIndex;
+    this.chainOwners = chainOwners;
+    this.isRevenge = isRevenge;
 
     // FIRE bombs have extended duration with lingering flames
     if (bombType === BombType.FIRE) {
@@ -139,6 +162,39 @@ export class Explosion extends Entity {
     }
   }
 
+  toSnapshot(): ExplosionSnapshot {
+    return {
+      ...this.getEntitySnapshot(),
+      tiles: this.tiles.map(tile => ({ ...tile })),
+      bombType: this.bombType,
+      ownerIndex: this.ownerIndex,
+      chainOwners: [...this.chainOwners],
+      isRevenge: this.isRevenge,
+      timer: this.timer,
+      isLingering: this.isLingering,
+      lingerTimer: this.lingerTimer
+    };
+  }
+
+  // Overwrite this entity's state in place (keeps purely visual state running)
+  applySnapshot(snapshot: ExplosionSnapshot): void {
+    this.applyEntitySnapshot(snapshot);
+    this.timer = snapshot.timer;
+    this.isLingering = snapshot.isLingering;
+    this.lingerTimer = snapshot.lingerTimer;
+  }
+
+  static fromSnapshot(snapshot: ExplosionSnapshot): Explosion {
+    const explosion = new Explosion(snapshot.tiles.map(tile => ({ ...tile })), snapshot.bombType, snapshot.ownerIndex, [...snapshot.chainOwners], snapshot.isRevenge);
+    explosion.applySnapshot(snapshot);
+    return explosion;
+  }
+
+  // Whoever's bomb began the chain this is part of
+  getChainStarter(): number {
+    return this.chainOwners[0] ?? this.ownerIndex;
+  }
+
   update(deltaTime: number): void {
     if (this.isLingering) {
       // In lingering phase - count down linger timer
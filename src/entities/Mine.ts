@@ -0,0 +1,148 @@
+import { Entity, EntitySnapshot } from './Entity';
+import { Player } from './Player';
+import { TILE_SIZE, RETRO_PALETTE, MINE_ARM_TIME } from '../constants';
+
+// Pixel art pressure plate (8x4 pixels), sits flat on the floor
+const MINE_SPRITE = [
+  '..XXXX..',
+  '.XLLLLX.',
+  'XXXXXXXX',
+  '.DDDDDD.',
+];
+
+const LIGHT_COLORS = [RETRO_PALETTE.player1, RETRO_PALETTE.player2, RETRO_PALETTE.player3, RETRO_PALETTE.player4];
+
+export interface MineSnapshot extends EntitySnapshot {
+  ownerIndex: number;
+  range: number;
+  armTimer: number;
+  isRevealed: boolean;
+  isTriggered: boolean;
+  chainOwners: number[];
+}
+
+// Mine.isHidden for a mine known only by its snapshot (the server's per-player views)
+export function isHiddenMine(snapshot: MineSnapshot): boolean {
+  return snapshot.armTimer <= 0 && !snapshot.isRevealed;
+}
+
+// A buried charge: harmless while arming, then hidden from everyone but its owner until
+// someone else steps on it or a nearby explosion uncovers it. The game sets it off.
+export class Mine extends Entity {
+  public readonly owner: Player;
+  public readonly range: number;
+  public armTimer: number = MINE_ARM_TIME;
+  public isRevealed: boolean = false;
+  public isTriggered: boolean = false;  // Goes off on the game's next mine update
+  public chainOwners: number[] = [];    // Set off by flames: whose (see Bomb.chainOwners)
+
+  private pulseTimer: number = 0;
+
+  constructor(gridX: number, gridY: number, owner: Player) {
+    super(gridX, gridY);
+    this.owner = owner;
+    this.range = owner.getEffectiveBombRange();
+  }
+
+  toSnapshot(): MineSnapshot {
+    return {
+      ...this.getEntitySnapshot(),
+      ownerIndex: this.owner.playerIndex,
+      range: this.range,
+      armTimer: this.armTimer,
+      isRevealed: this.isRevealed,
+      isTriggered: this.isTriggered,
+      chainOwners: [...this.chainOwners]
+    };
+  }
+
+  // Overwrite this entity's state in place (keeps purely visual state running)
+  applySnapshot(snapshot: MineSnapshot): void {
+    this.applyEntitySnapshot(snapshot);
+    // Range was captured from the owner at placement time, not now
+    Object.assign(this, { range: snapshot.range });
+    this.armTimer = snapshot.armTimer;
+    this.isRevealed = snapshot.isRevealed;
+    this.isTriggered = snapshot.isTriggered;
+    this.chainOwners = [...snapshot.chainOwners];
+  }
+
+  // Owner must already be restored - mines reference players by index in snapshots
+  static fromSnapshot(snapshot: MineSnapshot, owner: Player): Mine {
+    const mine = new Mine(snapshot.position.gridX, snapshot.position.gridY, owner);
+    mine.applySnapshot(snapshot);
+    return mine;
+  }
+
+  update(deltaTime: number): void {
+    this.armTimer = Math.max(0, this.armTimer - deltaTime);
+    this.pulseTimer += deltaTime;
+  }
+
+  isArmed(): boolean {
+    return this.armTimer <= 0;
+  }
+
+  // Armed and not yet uncovered - only the owner knows it's there
+  isHidden(): boolean {
+    return this.isArmed() && !this.isRevealed;
+  }
+
+  reveal(): void {
+    this.isRevealed = true;
+  }
+
+  // `chainOwners` is empty when stepped on or landed on, else as for Bomb.triggerChainReaction
+  trigger(chainOwners: number[] = []): void {
+    if (!this.isTriggered) {
+      this.chainOwners = [...chainOwners];
+    }
+    this.isTriggered = true;
+    this.isRevealed = true;
+  }
+
+  // `viewers` are the player slots looking at this screen (null = sees everything, e.g.
+  // spectators and replays). A hidden mine shows only if every viewer is its owner -
+  // on a shared screen, whoever else is watching must not see it either.
+  isVisibleTo(viewers: number[] | null): boolean {
+    if (!this.isHidden() || viewers === null) return true;
+    return viewers.length > 0 && viewers.every(v => v === this.owner.playerIndex);
+  }
+
+  render(ctx: CanvasRenderingContext2D, _interpolation: number): void {
+    const pixelSize = 4;
+    const startX = Math.floor(this.position.pixelX + (TILE_SIZE - 8 * pixelSize) / 2);
+    const startY = Math.floor(this.position.pixelY + TILE_SIZE - 6 - MINE_SPRITE.length * pixelSize);
+
+    // The owner still sees a hidden mine, faded so they know nobody else does
+    ctx.save();
+    if (this.isHidden()) {
+      ctx.globalAlpha = 0.4;
+    }
+
+    const palette: Record<string, string> = {
+      'X': RETRO_PALETTE.bombBody,
+      'L': RETRO_PALETTE.bombHighlight,
+      'D': '#111111',
+    };
+
+    for (let py = 0; py < MINE_SPRITE.length; py++) {
+      const row = MINE_SPRITE[py];
+      for (let px = 0; px < row.length; px++) {
+        const color = palette[row[px]];
+        if (!color) continue;
+        ctx.fillStyle = color;
+        ctx.fillRect(startX + px * pixelSize, startY + py * pixelSize, pixelSize, pixelSize);
+      }
+    }
+
+    // Owner-colored light on top - blinks fast while arming, slowly once live
+    const blinkSpeed = this.isArmed() ? 4 : 16;
+    if (Math.sin(this.pulseTimer * blinkSpeed) > 0) {
+      ctx.fillStyle = LIGHT_COLORS[this.owner.playerIndex] ?? RETRO_PALETTE.uiRed;
+      ctx.fillRect(startX + 3 * pixelSize, startY - pixelSize / 2, pixelSize * 2, pixelSize);
+    }
+
+    ctx.restore();
+  }
+}
@@ -1,26 +1,47 @@
-import { Entity } from './Entity';
+import { Entity, EntitySnapshot } from './Entity';
 import {
   TILE_SIZE,
   COLORS,
   RETRO_PALETTE,
   Direction,
-  DEFAULT_PLAYER_SPEED,
-  DEFAULT_BOMB_COUNT,
-  DEFAULT_BOMB_RANGE,
-  MAX_BOMB_COUNT,
-  MAX_BOMB_RANGE,
-  MAX_SPEED
+  RESPAWN_DELAY,
+  BUFF_DURATIONS
 } from '../constants';
+import { PowerUpType } from './PowerUp';
+import { Bomb } from './Bomb';
+import { GameRules, DEFAULT_RULES } from '../rules/GameRules';
 import { EventBus } from '../core/EventBus';
+import { Random } from '../core/Random';
 import { PixelArt } from '../rendering/PixelArt';
 
 export enum BombType {
   NORMAL = 'normal',
   FIRE = 'fire',
   ICE = 'ice',
-  PIERCING = 'piercing'
+  PIERCING = 'piercing',
+  REMOTE = 'remote'     // No fuse - goes off when the owner presses special
 }
 
+export type DeathCause = 'explosion' | 'crushed';
+
+// Who was behind a death. `killer` is null when no player was (crushed by sudden death);
+// a killer who is the victim themselves makes it a self-kill.
+export interface Death {
+  cause: DeathCause;
+  killer: Player | null;
+  assists: Player[];  // Owners of other bombs in the chain that did it
+  explosionId?: string;  // The flames that did it, for explosion deaths
+}
+
+const BOMB_TYPE_PICKUPS = [PowerUpType.FIRE_BOMB, PowerUpType.ICE_BOMB, PowerUpType.PIERCING_BOMB, PowerUpType.REMOTE];
+
+// Indicator colors for the timed buffs (see BUFF_DURATIONS)
+export const BUFF_COLORS: Record<string, { fill: string; stroke: string }> = {
+  star: { fill: RETRO_PALETTE.uiGold, stroke: '#8a6f30' },
+  ghost: { fill: '#cbdbfc', stroke: '#595652' },
+  haste: { fill: '#6abe30', stroke: '#37946e' },
+};
+
 const PLAYER_COLORS = [COLORS.player1, COLORS.player2, COLORS.player3, COLORS.player4];
 
 // Retro player colors with light/dark variants
@@ -91,19 +112,66 @@ const PLAYER_SPRITES = {
   ],
 };
 
+// Gameplay state only - blinking, squash and other purely visual juice restart fresh
+export interface PlayerSnapshot extends EntitySnapshot {
+  playerIndex: number;
+  team: number | null;
+  speed: number;
+  maxBombs: number;
+  activeBombs: number;
+  bombRange: number;
+  bombType: BombType;
+  abilities: string[];
+  shieldActive: boolean;
+  teleportCharges: number;
+  mines: number;
+  inventory: PowerUpType[];
+  isAlive: boolean;
+  lives: number;
+  respawnTimer: number;
+  invulnerableTimer: number;
+  deathAnimationProgress: number;
+  direction: Direction;
+  isMoving: boolean;
+  animationFrame: number;
+  animationTimer: number;  // Drives footstep events
+  isVictory: boolean;
+  isTeleporting: boolean;
+  teleportPhase: 'out' | 'in';
+  teleportProgress: number;
+  teleportTarget: { gridX: number, gridY: number } | null;
+  debuffs: [string, number][];
+  diarrheaTimer: number;
+  diarrheaNextTime: number;
+  pushbackVelocityX: number;
+  pushbackVelocityY: number;
+  pushbackSquashTimer: number;
+}
+
 export class Player extends Entity {
   public readonly playerIndex: number;
-  public speed: number = DEFAULT_PLAYER_SPEED;
-  public maxBombs: number = DEFAULT_BOMB_COUNT;
+  public team: number | null = null; // null = free for all
+  public rules: GameRules; // Starting loadout, stat caps and fuse time
+  public speed: number;
+  public maxBombs: number;
   public activeBombs: number = 0;
-  public bombRange: number = DEFAULT_BOMB_RANGE;
+  public bombRange: number;
   public bombType: BombType = BombType.NORMAL;
 
   public abilities: Set<string> = new Set();
   private shieldActive: boolean = false;
   public teleportCharges: number = 0;
+  public mines: number = 0; // Land mines in hand, planted with the special key
+  public carriedBomb: Bomb | null = null; // Lifted with the power glove (linked up by the game on restore)
+
+  // Permanent pickups in the order collected - separate from the stats they raised
+  // (which are capped), and what the player drops when they die
+  private inventory: PowerUpType[] = [];
 
   private isAlive: boolean = true;
+  public lives: number = 1; // Including the current one; a death with lives left respawns
+  private respawnTimer: number = 0;
+  private invulnerableTimer: number = 0; // Flames can't hurt while > 0
   private deathAnimationProgress: number = 0;
   private direction: Direction = Direction.DOWN;
   private isMoving: boolean = false;
@@ -113,7 +181,7 @@ export class Player extends Entity {
   // Juice
   private blinkTimer: number = 0;
   private isBlinking: boolean = false;
-  private nextBlinkTime: number = Math.random() * 3 + 2;
+  private nextBlinkTime: number = Random.cosmetic.range(2, 5);
   private squashX: number = 1;
   private squashY: number = 1;
   private targetSquashX: number = 1;
@@ -136,10 +204,10 @@ export class Player extends Entity {
   public teleportTarget: { gridX: number, gridY: number } | null = null;
   private readonly teleportDuration: number = 0.1; // 0.1s out, 0.1s in (faster for bomb pass-through)
 
-  // For debuffs
+  // Timed effects, name -> seconds left. Holds the good ones too (see BUFF_DURATIONS)
   private debuffs: Map<string, number> = new Map();
   private diarrheaTimer: number = 0;
-  private diarrheaNextTime: number = 0.5 + Math.random() * 0.5; // Random 0.5-1.0s interval
+  private diarrheaNextTime: number = Random.gameplay.range(0.5, 1.0); // Random 0.5-1.0s interval
 
   // Bomb pushback (juicy collision response)
   private pushbackVelocityX: number = 0;
@@ -147,13 +215,105 @@ export class Player extends Entity {
   private pushbackDecay: number = 12; // How fast pushback decays
   private pushbackSquashTimer: number = 0;
 
-  constructor(gridX: number, gridY: number, playerIndex: number) {
+  constructor(gridX: number, gridY: number, playerIndex: number, rules: GameRules = DEFAULT_RULES) {
     super(gridX, gridY);
     this.playerIndex = playerIndex;
+    this.rules = rules;
+    this.speed = rules.start.speed;
+    this.maxBombs = rules.start.bombs;
+    this.bombRange = rules.start.range;
+  }
+
+  toSnapshot(): PlayerSnapshot {
+    return {
+      ...this.getEntitySnapshot(),
+      playerIndex: this.playerIndex,
+      team: this.team,
+      speed: this.speed,
+      maxBombs: this.maxBombs,
+      activeBombs: this.activeBombs,
+      bombRange: this.bombRange,
+      bombType: this.bombType,
+      abilities: Array.from(this.abilities),
+      shieldActive: this.shieldActive,
+      teleportCharges: this.teleportCharges,
+      mines: this.mines,
+      inventory: [...this.inventory],
+      isAlive: this.isAlive,
+      lives: this.lives,
+      respawnTimer: this.respawnTimer,
+      invulnerableTimer: this.invulnerableTimer,
+      deathAnimationProgress: this.deathAnimationProgress,
+      direction: this.direction,
+      isMoving: this.isMoving,
+      animationFrame: this.animationFrame,
+      animationTimer: this.animationTimer,
+      isVictory: this.isVictory,
+      isTeleporting: this.isTeleporting,
+      teleportPhase: this.teleportPhase,
+      teleportProgress: this.teleportProgress,
+      teleportTarget: this.teleportTarget ? { ...this.teleportTarget } : null,
+      debuffs: Array.from(this.debuffs.entries()),
+      diarrheaTimer: this.diarrheaTimer,
+      diarrheaNextTime: this.diarrheaNextTime,
+      pushbackVelocityX: this.pushbackVelocityX,
+      pushbackVelocityY: this.pushbackVelocityY,
+      pushbackSquashTimer: this.pushbackSquashTimer
+    };
+  }
+
+  // Overwrite this entity's state in place (keeps purely visual state running)
+  applySnapshot(snapshot: PlayerSnapshot): void {
+    this.applyEntitySnapshot(snapshot);
+    this.team = snapshot.team;
+    this.speed = snapshot.speed;
+    this.maxBombs = snapshot.maxBombs;
+    this.activeBombs = snapshot.activeBombs;
+    this.bombRange = snapshot.bombRange;
+    this.bombType = snapshot.bombType;
+    this.abilities = new Set(snapshot.abilities);
+    this.shieldActive = snapshot.shieldActive;
+    this.teleportCharges = snapshot.teleportCharges;
+    this.mines = snapshot.mines;
+    this.inventory = [...snapshot.inventory];
+    this.isAlive = snapshot.isAlive;
+    this.lives = snapshot.lives;
+    this.respawnTimer = snapshot.respawnTimer;
+    this.invulnerableTimer = snapshot.invulnerableTimer;
+    this.deathAnimationProgress = snapshot.deathAnimationProgress;
+    this.direction = snapshot.direction;
+    this.isMoving = snapshot.isMoving;
+    this.animationFrame = snapshot.animationFrame;
+    this.animationTimer = snapshot.animationTimer;
+    this.isVictory = snapshot.isVictory;
+    this.isTeleporting = snapshot.isTeleporting;
+    this.teleportPhase = snapshot.teleportPhase;
+    this.teleportProgress = snapshot.teleportProgress;
+    this.teleportTarget = snapshot.teleportTarget ? { ...snapshot.teleportTarget } : null;
+    this.debuffs = new Map(snapshot.debuffs);
+    this.diarrheaTimer = snapshot.diarrheaTimer;
+    this.diarrheaNextTime = snapshot.diarrheaNextTime;
+    this.pushbackVelocityX = snapshot.pushbackVelocityX;
+    this.pushbackVelocityY = snapshot.pushbackVelocityY;
+    this.pushbackSquashTimer = snapshot.pushbackSquashTimer;
+  }
+
+  static fromSnapshot(snapshot: PlayerSnapshot, rules: GameRules): Player {
+    const player = new Player(snapshot.position.gridX, snapshot.position.gridY, snapshot.playerIndex, rules);
+    player.applySnapshot(snapshot);
+    return player;
+  }
+
+  // Same team and not the same player - own bombs still count as hostile
+  isTeammateOf(other: Player): boolean {
+    return other !== this && this.team !== null && this.team === other.team;
   }
 
   update(deltaTime: number): void {
     if (!this.isAlive) {
+      if (this.lives > 0) {
+        this.respawnTimer = Math.max(0, this.respawnTimer - deltaTime);
+      }
       this.deathAnimationProgress += deltaTime * 1.2; // Slower for burn + crumble effect
       if (this.deathAnimationProgress >= 1) {
         this.isActive = false;
@@ -161,11 +321,16 @@ export class Player extends Entity {
       return;
     }
 
+    if (this.invulnerableTimer > 0) {
+      this.invulnerableTimer = Math.max(0, this.invulnerableTimer - deltaTime);
+    }
+
     // Update debuff timers
     for (const [debuff, time] of this.debuffs) {
       const newTime = time - deltaTime;
       if (newTime <= 0) {
         this.debuffs.delete(debuff);
+        EventBus.emit('debuff-expired', { player: this, debuff });
       } else {
         this.debuffs.set(debuff, newTime);
       }
@@ -176,7 +341,7 @@ export class Player extends Entity {
       this.diarrheaTimer += deltaTime;
       if (this.diarrheaTimer >= this.diarrheaNextTime) {
         this.diarrheaTimer = 0;
-        this.diarrheaNextTime = 0.5 + Math.random() * 0.5; // Reset with new random interval
+        this.diarrheaNextTime = Random.gameplay.range(0.5, 1.0); // Reset with new random interval
         EventBus.emit('diarrhea-bomb', { player: this });
       }
     } else {
@@ -221,23 +386,23 @@ export class Player extends Entity {
       }
 
       // Continuous movement wobble
-      const wobbleAmount = 0.08 + (this.speed / MAX_SPEED) * 0.05;
+      const wobbleAmount = 0.08 + (this.speed / this.rules.caps.speed) * 0.05;
       const wobble = Math.sin(performance.now() * 0.015) * wobbleAmount;
       baseSquashX = 1 + wobble;
       baseSquashY = 1 - wobble;
 
       // NEW: Dust clouds while running (emit continuously)
-      if (Math.random() < 0.15) { // 15% chance each frame
+      if (Random.cosmetic.chance(0.15)) { // 15% chance each frame
         EventBus.emit('player-dust-cloud', { player: this, direction: this.direction });
       }
 
       // NEW: Speed lines when moving fast
-      if (this.speed > DEFAULT_PLAYER_SPEED && Math.random() < 0.4) {
+      if (this.speed > this.rules.start.speed && Random.cosmetic.chance(0.4)) {
         EventBus.emit('player-speed-lines', { player: this, direction: this.direction });
       }
 
       // Speed trail (keep existing)
-      if (this.speed > DEFAULT_PLAYER_SPEED && Math.random() < 0.3) {
+      if (this.speed > this.rules.start.speed && Random.cosmetic.chance(0.3)) {
         EventBus.emit('player-trail', { player: this });
       }
     } else {
@@ -278,7 +443,7 @@ export class Player extends Entity {
       if (this.blinkTimer > 0.1) {
         this.isBlinking = false;
         this.blinkTimer = 0;
-        this.nextBlinkTime = Math.random() * 3 + 2;
+        this.nextBlinkTime = Random.cosmetic.range(2, 5);
       }
     } else {
       if (this.blinkTimer > this.nextBlinkTime) {
@@ -433,8 +598,14 @@ export class Player extends Entity {
     ctx.ellipse(x + TILE_SIZE / 2, y + TILE_SIZE - 6, 14, 6, 0, 0, Math.PI * 2);
     ctx.fill();
 
-    // Draw player
+    // Draw player (flickering while invulnerable, see-through as a ghost)
+    if (this.invulnerableTimer > 0 && Math.floor(this.invulnerableTimer * 10) % 2 === 0) {
+      ctx.globalAlpha = 0.4;
+    } else if (this.hasBuff('ghost')) {
+      ctx.globalAlpha = 0.45;
+    }
     this.drawPlayer(ctx, x, y, color);
+    ctx.globalAlpha = 1;
 
     // Hit Flash Overlay
     if (this.hitFlashTimer > 0) {
@@ -455,11 +626,37 @@ export class Player extends Entity {
       ctx.lineWidth = 1;
     }
 
-    // Debuff indicators above player
+    // Debuff indicators above player, buffs in a row above those
     const activeDebuffs = this.getActiveDebuffs();
     if (activeDebuffs.length > 0) {
       this.renderDebuffIndicators(ctx, x, y, activeDebuffs);
     }
+    const activeBuffs = this.getActiveBuffs();
+    if (activeBuffs.length > 0) {
+      this.renderBuffIndicators(ctx, x, activeDebuffs.length > 0 ? y - 10 : y, activeBuffs);
+    }
+  }
+
+  private renderBuffIndicators(ctx: CanvasRenderingContext2D, x: number, y: number, buffs: string[]): void {
+    const indicatorY = y - 8;
+    const indicatorSize = 6;
+    const spacing = 8;
+    let startX = x + TILE_SIZE / 2 - (buffs.length * spacing) / 2;
+
+    for (const buff of buffs) {
+      const { fill, stroke } = BUFF_COLORS[buff];
+
+      // Blinks through the last two seconds
+      const timeLeft = this.getBuffTimeLeft(buff);
+      if (timeLeft > 2 || Math.floor(timeLeft * 8) % 2 === 0) {
+        ctx.fillStyle = stroke;
+        ctx.fillRect(startX - 1, indicatorY - 1, indicatorSize + 2, indicatorSize + 2);
+        ctx.fillStyle = fill;
+        ctx.fillRect(startX, indicatorY, indicatorSize, indicatorSize);
+      }
+
+      startX += spacing;
+    }
   }
 
   private renderDebuffIndicators(ctx: CanvasRenderingContext2D, x: number, y: number, debuffs: string[]): void {
@@ -509,7 +706,7 @@ export class Player extends Entity {
   }
 
   private drawPlayer(ctx: CanvasRenderingContext2D, x: number, y: number, _color: string): void {
-    const colors = RETRO_PLAYER_COLORS[this.playerIndex];
+    const colors = this.hasBuff('star') ? this.getStarColors() : RETRO_PLAYER_COLORS[this.playerIndex];
     const pixelSize = 4; // Each pixel is 4x4 screen pixels
 
     const bobOffset = this.isMoving ? Math.floor(Math.sin(this.animationFrame * Math.PI / 2) * 2) : 0;
@@ -641,6 +838,16 @@ export class Player extends Entity {
     ctx.restore();
   }
 
+  // Invincibility star: the whole sprite cycles through the rainbow
+  private getStarColors(): { main: string; light: string; dark: string } {
+    const hue = Math.floor(this.getBuffTimeLeft('star') * 720) % 360;
+    return {
+      main: `hsl(${hue}, 100%, 55%)`,
+      light: `hsl(${hue}, 100%, 78%)`,
+      dark: `hsl(${hue}, 100%, 32%)`,
+    };
+  }
+
   private interpolateToBlack(hexColor: string, t: number): string {
     // Parse hex color
     const r = parseInt(hexColor.slice(1, 3), 16);
@@ -792,10 +999,8 @@ export class Player extends Entity {
     if (this.debuffs.has('frozen')) {
       return 0; // Completely frozen by ICE bomb
     }
-    if (this.debuffs.has('slow')) {
-      return this.speed * 0.5;
-    }
-    return this.speed;
+    const speed = this.debuffs.has('slow') ? this.speed * 0.5 : this.speed;
+    return this.debuffs.has('haste') ? speed * 2 : speed;
   }
 
   hasReversedControls(): boolean {
@@ -803,7 +1008,19 @@ export class Player extends Entity {
   }
 
   getActiveDebuffs(): string[] {
-    return Array.from(this.debuffs.keys());
+    return Array.from(this.debuffs.keys()).filter(name => !(name in BUFF_DURATIONS));
+  }
+
+  getActiveBuffs(): string[] {
+    return Array.from(this.debuffs.keys()).filter(name => name in BUFF_DURATIONS);
+  }
+
+  hasBuff(buff: string): boolean {
+    return this.debuffs.has(buff);
+  }
+
+  getBuffTimeLeft(buff: string): number {
+    return this.debuffs.get(buff) ?? 0;
   }
 
   getEffectiveBombRange(): number {
@@ -817,14 +1034,15 @@ export class Player extends Entity {
     return this.isAlive && this.activeBombs < this.maxBombs;
   }
 
-  placeBomb(): void {
+  // The game builds the bomb on 'bomb-placed' - usually on our own tile, further out for a line bomb
+  placeBomb(gridX: number = this.position.gridX, gridY: number = this.position.gridY): void {
     if (this.canPlaceBomb()) {
       this.activeBombs++;
       // Juice: Small squash on place
       this.triggerSquash(0.2, 0.1);
       EventBus.emit('bomb-placed', {
-        gridX: this.position.gridX,
-        gridY: this.position.gridY,
+        gridX,
+        gridY,
         owner: this
       });
     }
@@ -834,33 +1052,94 @@ export class Player extends Entity {
     this.activeBombs = Math.max(0, this.activeBombs - 1);
   }
 
-  die(): void {
-    if (this.shieldActive) {
+  // `unblockable` deaths (being crushed) ignore the shield
+  die(death: Death, unblockable: boolean = false): void {
+    if (this.invulnerableTimer > 0 && !unblockable) return;
+    if (this.shieldActive && !unblockable) {
       this.shieldActive = false;
       this.hitFlashTimer = 0.3; // White flash on shield break
       EventBus.emit('shield-consumed', { player: this });
       return;
     }
     this.isAlive = false;
+    this.lives = Math.max(0, this.lives - 1);
+    this.respawnTimer = RESPAWN_DELAY;
     console.log(`[DEBUG] Player ${this.playerIndex} died at (${this.position.gridX}, ${this.position.gridY})`);
-    EventBus.emit('player-died', { player: this });
+    EventBus.emit('player-died', { player: this, ...death });
   }
 
   isPlayerAlive(): boolean {
     return this.isAlive;
   }
 
+  // Back into the round at a new spot, briefly immune to flames
+  revive(gridX: number, gridY: number, invulnerableTime: number): void {
+    this.isAlive = true;
+    this.isActive = true;
+    this.deathAnimationProgress = 0;
+    this.position = { gridX, gridY, pixelX: gridX * TILE_SIZE, pixelY: gridY * TILE_SIZE };
+    this.prevPosition = { ...this.position };
+    this.isMoving = false;
+    this.isTeleporting = false;
+    this.teleportTarget = null;
+    this.pushbackVelocityX = 0;
+    this.pushbackVelocityY = 0;
+    this.debuffs.clear();
+    this.invulnerableTimer = invulnerableTime;
+    this.hitFlashTimer = 0.3;
+  }
+
+  // Out of lives - the player no longer counts for the round
+  isEliminated(): boolean {
+    return !this.isAlive && this.lives === 0;
+  }
+
+  isReadyToRespawn(): boolean {
+    return !this.isAlive && this.lives > 0 && this.respawnTimer <= 0;
+  }
+
+  collect(type: PowerUpType): void {
+    // Only one special bomb type at a time - a new one replaces the old
+    if (BOMB_TYPE_PICKUPS.includes(type)) {
+      this.inventory = this.inventory.filter(t => !BOMB_TYPE_PICKUPS.includes(t));
+    }
+    this.inventory.push(type);
+  }
+
+  // Hand over everything collected so far, leaving the inventory empty
+  takeInventory(): PowerUpType[] {
+    const items = this.inventory;
+    this.inventory = [];
+    return items;
+  }
+
+  // Back to the starting loadout (after dropping the inventory on death)
+  resetStats(): void {
+    this.speed = this.rules.start.speed;
+    this.maxBombs = this.rules.start.bombs;
+    this.bombRange = this.rules.start.range;
+    this.bombType = BombType.NORMAL;
+    this.abilities.clear();
+    this.shieldActive = false;
+    this.teleportCharges = 0;
+    this.mines = 0;
+  }
+
+  isInvulnerable(): boolean {
+    return this.invulnerableTimer > 0;
+  }
+
   // Power-up methods
   addBomb(): void {
-    this.maxBombs = Math.min(this.maxBombs + 1, MAX_BOMB_COUNT);
+    this.maxBombs = Math.min(this.maxBombs + 1, this.rules.caps.bombs);
   }
 
   addRange(): void {
-    this.bombRange = Math.min(this.bombRange + 1, MAX_BOMB_RANGE);
+    this.bombRange = Math.min(this.bombRange + 1, this.rules.caps.range);
   }
 
   addSpeed(): void {
-    this.speed = Math.min(this.speed + 0.5, MAX_SPEED);
+    this.speed = Math.min(this.speed + 0.5, this.rules.caps.speed);
   }
 
   grantShield(): void {
@@ -886,11 +1165,20 @@ export class Player extends Entity {
     this.teleportCharges = Math.min(this.teleportCharges + 1, 3);
   }
 
+  addMine(): void {
+    this.mines = Math.min(this.mines + 1, 3);
+  }
+
   applyDebuff(debuff: string, duration: number): void {
     this.debuffs.set(debuff, duration);
     this.hitFlashTimer = 0.2; // Feedback for getting debuffed (e.g. skull)
   }
 
+  // Picking up the same buff again restarts its clock
+  applyBuff(buff: string): void {
+    this.debuffs.set(buff, BUFF_DURATIONS[buff]);
+  }
+
   setBombType(type: BombType): void {
     this.bombType = type;
   }
@@ -1,4 +1,4 @@
-import { Entity } from './Entity';
+import { Entity, EntitySnapshot } from './Entity';
 import { TILE_SIZE, RETRO_PALETTE } from '../constants';
 
 export enum PowerUpType {
@@ -12,6 +12,15 @@ export enum PowerUpType {
   FIRE_BOMB = 'fire_bomb',
   ICE_BOMB = 'ice_bomb',
   PIERCING_BOMB = 'piercing_bomb',
+  REMOTE = 'remote',
+  LINE_BOMB = 'line_bomb',
+  MINE = 'mine',
+  BOMB_PASS = 'bomb_pass',
+  WALL_PASS = 'wall_pass',
+  GLOVE = 'glove',
+  STAR = 'star',
+  GHOST = 'ghost',
+  HASTE = 'haste',
   SKULL = 'skull'
 }
 
@@ -27,6 +36,15 @@ const POWERUP_COLORS: Record<PowerUpType, { bg: string; light: string; dark: str
   [PowerUpType.FIRE_BOMB]: { bg: RETRO_PALETTE.fireRed, light: RETRO_PALETTE.fireOrange, dark: RETRO_PALETTE.fireDark },
   [PowerUpType.ICE_BOMB]: { bg: RETRO_PALETTE.iceBlue, light: RETRO_PALETTE.iceCyan, dark: RETRO_PALETTE.iceDark },
   [PowerUpType.PIERCING_BOMB]: { bg: RETRO_PALETTE.magicPurple, light: RETRO_PALETTE.magicPink, dark: RETRO_PALETTE.magicDark },
+  [PowerUpType.REMOTE]: { bg: RETRO_PALETTE.uiRed, light: '#ff7777', dark: '#6e1e1e' },
+  [PowerUpType.LINE_BOMB]: { bg: '#5b6ee1', light: '#99c0ff', dark: '#3f3f74' },
+  [PowerUpType.MINE]: { bg: '#8f563b', light: '#d9a066', dark: '#45283c' },
+  [PowerUpType.BOMB_PASS]: { bg: '#847e87', light: '#cbdbfc', dark: '#45444f' },
+  [PowerUpType.WALL_PASS]: { bg: '#8a6f30', light: '#d9a066', dark: '#524b24' },
+  [PowerUpType.GLOVE]: { bg: '#d95763', light: '#eec39a', dark: '#8f3f4b' },
+  [PowerUpType.STAR]: { bg: RETRO_PALETTE.uiGold, light: '#fbf236', dark: '#8a6f30' },
+  [PowerUpType.GHOST]: { bg: '#9badb7', light: '#ffffff', dark: '#595652' },
+  [PowerUpType.HASTE]: { bg: '#37946e', light: '#6abe30', dark: '#323c39' },
   [PowerUpType.SKULL]: { bg: '#696a6a', light: '#9badb7', dark: '#45444f' }
 };
 
@@ -132,6 +150,96 @@ const POWERUP_ICONS: Record<PowerUpType, string[]> = {
     '..XXXX..',
     '...XX...',
   ],
+  [PowerUpType.REMOTE]: [
+    '......X.',
+    '.....X..',
+    '....X...',
+    '.XXXXXX.',
+    '.X.XX.X.',
+    '.XXXXXX.',
+    '.XX..XX.',
+    '.XXXXXX.',
+  ],
+  [PowerUpType.LINE_BOMB]: [
+    '........',
+    '.X..X..X',
+    'XX.XX.XX',
+    'XX.XX.XX',
+    '......X.',
+    'XXXXXXXX',
+    '......X.',
+    '........',
+  ],
+  [PowerUpType.MINE]: [
+    '........',
+    '...XX...',
+    '...XX...',
+    '..XXXX..',
+    '.XXXXXX.',
+    'XXXXXXXX',
+    '.XXXXXX.',
+    '........',
+  ],
+  [PowerUpType.BOMB_PASS]: [
+    '..XXXX..',
+    '.X....X.',
+    'X......X',
+    'X.X..X.X',
+    'X......X',
+    'X......X',
+    '.X....X.',
+    '..XXXX..',
+  ],
+  [PowerUpType.WALL_PASS]: [
+    'XXX.XXXX',
+    'XXX.XXXX',
+    '........',
+    'X.XXX.XX',
+    'X.XXX.XX',
+    '........',
+    'XXX.XXXX',
+    'XXX.XXXX',
+  ],
+  [PowerUpType.GLOVE]: [
+    '.X.X.X..',
+    '.X.X.X..',
+    '.XXXXX.X',
+    '.XXXXXXX',
+    '.XXXXXX.',
+    '.XXXXX..',
+    '..XXX...',
+    '..XXX...',
+  ],
+  [PowerUpType.STAR]: [
+    '...XX...',
+    '...XX...',
+    'XXXXXXXX',
+    '.XXXXXX.',
+    '..XXXX..',
+    '.XXXXXX.',
+    '.XX..XX.',
+    'X......X',
+  ],
+  [PowerUpType.GHOST]: [
+    '..XXXX..',
+    '.XXXXXX.',
+    'XX.XX.XX',
+    'XX.XX.XX',
+    'XXXXXXXX',
+    'XXXXXXXX',
+    'XXXXXXXX',
+    'X.XX.XX.',
+  ],
+  [PowerUpType.HASTE]: [
+    '....XXX.',
+    '...XXX..',
+    '..XXX...',
+    '.XXXXXX.',
+    '...XXX..',
+    '..XXX...',
+    '.XXX....',
+    '.X......',
+  ],
   [PowerUpType.SKULL]: [
     '..XXXX..',
     '.XXXXXX.',
@@ -144,6 +252,11 @@ const POWERUP_ICONS: Record<PowerUpType, string[]> = {
   ],
 };
 
+export interface PowerUpSnapshot extends EntitySnapshot {
+  type: PowerUpType;
+  bobTimer: number;
+}
+
 export class PowerUp extends Entity {
   public readonly type: PowerUpType;
   private bobTimer: number = 0;
@@ -153,6 +266,26 @@ export class PowerUp extends Entity {
     this.type = type;
   }
 
+  toSnapshot(): PowerUpSnapshot {
+    return {
+      ...this.getEntitySnapshot(),
+      type: this.type,
+      bobTimer: this.bobTimer
+    };
+  }
+
+  // Overwrite this entity's state in place (keeps purely visual state running)
+  applySnapshot(snapshot: PowerUpSnapshot): void {
+    this.applyEntitySnapshot(snapshot);
+    this.bobTimer = snapshot.bobTimer;
+  }
+
+  static fromSnapshot(snapshot: PowerUpSnapshot): PowerUp {
+    const powerUp = new PowerUp(snapshot.position.gridX, snapshot.position.gridY, snapshot.type);
+    powerUp.applySnapshot(snapshot);
+    return powerUp;
+  }
+
   update(deltaTime: number): void {
     this.bobTimer += deltaTime;
   }
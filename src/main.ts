@@ -1,4 +1,5 @@
 import { Game } from './Game';
+import { parseReplay } from './replay/Replay';
 
 function init(): void {
   const canvas = document.getElementById('game-canvas') as HTMLCanvasElement;
@@ -18,6 +19,28 @@ function init(): void {
   const game = new Game(canvas);
   game.start();
 
+  // Drop a saved replay file onto the page to watch it
+  window.addEventListener('dragover', (e) => e.preventDefault());
+  window.addEventListener('drop', async (e) => {
+    e.preventDefault();
+    const file = e.dataTransfer?.files[0];
+    if (!file) return;
+
+    try {
+      game.startReplay(parseReplay(await file.text()));
+    } catch (error) {
+      console.error('Could not load replay:', error);
+    }
+  });
+
+  // ?server=ws://host:8080&room=CODE&name=NAME joins an online room (no room = create one);
+  // add &spectate=1 to watch instead of play
+  const params = new URLSearchParams(window.location.search);
+  const server = params.get('server');
+  if (server) {
+    game.joinOnline(server, params.get('room') ?? '', params.get('name') ?? 'PLAYER', params.get('spectate') === '1');
+  }
+
   console.log('Playing with Fire - Game started!');
   console.log('Controls:');
   console.log('  Player 1: Arrow Keys + / (bomb)');
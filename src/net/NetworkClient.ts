@@ -0,0 +1,100 @@
+import { PlayerInput } from '../core/PlayerInput';
+import { GameSnapshot } from '../core/GameSnapshot';
+import { applySnapshotDelta } from './StateDelta';
+import { ClientMessage, LobbyState, ServerMessage } from './Protocol';
+
+// Browser side of an online match: sends this player's input, keeps the
+// latest authoritative state the server streamed back
+export class NetworkClient {
+  private socket: WebSocket;
+  private snapshot: GameSnapshot | null = null;
+  private hasNewState: boolean = false;
+  private lastInput: PlayerInput | null = null;
+
+  lobby: LobbyState | null = null;
+  yourSlot: number | null = null;
+  connected: boolean = false;
+  error: string | null = null;
+
+  constructor(url: string, roomCode: string, name: string, spectate: boolean = false) {
+    this.socket = new WebSocket(url);
+    this.socket.addEventListener('open', () => {
+      this.connected = true;
+      this.send({ type: 'join', roomCode, name, spectate });
+    });
+    this.socket.addEventListener('message', (event) => this.onMessage(JSON.parse(event.data)));
+    this.socket.addEventListener('close', () => {
+      this.connected = false;
+    });
+  }
+
+  private onMessage(message: ServerMessage): void {
+    switch (message.type) {
+      case 'lobby':
+        this.lobby = message.lobby;
+        this.yourSlot = message.yourSlot;
+        if (!message.lobby.inMatch) {
+          this.snapshot = null;
+        }
+        break;
+
+      case 'state':
+        if (message.full) {
+          this.snapshot = message.full;
+        } else if (message.delta && this.snapshot) {
+          this.snapshot = applySnapshotDelta(this.snapshot, message.delta);
+        } else {
+          // Delta against a state we never had - wait for the next full one
+          return;
+        }
+        this.hasNewState = true;
+        break;
+
+      case 'match-end':
+        break;
+
+      case 'error':
+        this.error = message.message;
+        console.error('Server error:', message.message);
+        break;
+    }
+  }
+
+  // Latest state if it changed since the last call
+  takeState(): GameSnapshot | null {
+    if (!this.hasNewState) return null;
+    this.hasNewState = false;
+    return this.snapshot;
+  }
+
+  // Only sent when something changed, button presses always go out
+  sendInput(input: PlayerInput): void {
+    const last = this.lastInput;
+    if (last && !input.bomb && !input.special && last.direction === input.direction && last.specialHeld === input.specialHeld) return;
+
+    this.lastInput = input;
+    this.send({ type: 'input', input });
+  }
+
+  pickSlot(slot: number): void {
+    this.send({ type: 'pick-slot', slot });
+  }
+
+  setReady(ready: boolean): void {
+    this.send({ type: 'ready', ready });
+  }
+
+  setMap(mapIndex: number): void {
+    this.send({ type: 'set-map', mapIndex });
+  }
+
+  close(): void {
+    this.socket.close();
+  }
+
+  private send(message: ClientMessage): void {
+    if (this.socket.readyState === WebSocket.OPEN) {
+      this.socket.send(JSON.stringify(message));
+    }
+  }
+}
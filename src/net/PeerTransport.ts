@@ -0,0 +1,76 @@
+import { SeededRandom, generateSeed } from '../core/Random';
+
+// Peer -> peer, sent every tick. Inputs are resent until acknowledged, so
+// a lost message only costs a little extra rollback.
+export interface PeerInputMessage {
+  type: 'inputs';
+  startFrame: number;
+  frames: string[];                 // One encoded input per sender slot, per frame
+  ack: number;                      // Last frame of the receiver's inputs the sender has
+  checksums: [number, number][];    // Recent [frame, checksum] pairs of confirmed frames
+}
+
+export type PeerMessage = PeerInputMessage;
+
+// Unreliable, unordered message channel to one remote peer
+export interface PeerTransport {
+  send(message: PeerMessage): void;
+  receive(): PeerMessage[];   // Everything that arrived since the last call
+}
+
+export interface LoopbackOptions {
+  latency: number;       // One-way, milliseconds
+  jitter: number;        // +/- milliseconds, can reorder messages
+  packetLoss: number;    // 0..1
+  seed?: number;         // Network conditions only - never touches gameplay randomness
+}
+
+export const PERFECT_NETWORK: LoopbackOptions = { latency: 0, jitter: 0, packetLoss: 0 };
+
+interface InFlight {
+  deliverAt: number;
+  data: string;
+}
+
+// One end of an in-memory link; messages go through JSON like on a real wire
+class LoopbackEndpoint implements PeerTransport {
+  peer!: LoopbackEndpoint;
+  private inbox: InFlight[] = [];
+
+  constructor(
+    private options: LoopbackOptions,
+    private rng: SeededRandom,
+    private now: () => number
+  ) {}
+
+  send(message: PeerMessage): void {
+    if (this.rng.chance(this.options.packetLoss)) return;
+
+    const jitter = this.options.jitter > 0 ? this.rng.range(-this.options.jitter, this.options.jitter) : 0;
+    this.peer.inbox.push({
+      deliverAt: this.now() + Math.max(0, this.options.latency + jitter),
+      data: JSON.stringify(message),
+    });
+  }
+
+  receive(): PeerMessage[] {
+    const now = this.now();
+    const arrived = this.inbox.filter(m => m.deliverAt <= now).sort((a, b) => a.deliverAt - b.deliverAt);
+    this.inbox = this.inbox.filter(m => m.deliverAt > now);
+    return arrived.map(m => JSON.parse(m.data));
+  }
+}
+
+// Two connected transports for running both peers on one machine.
+// `now` is the clock in milliseconds (simulated time in headless tests).
+export function createLoopbackPair(
+  options: LoopbackOptions = PERFECT_NETWORK,
+  now: () => number = () => performance.now()
+): [PeerTransport, PeerTransport] {
+  const rng = new SeededRandom(options.seed ?? generateSeed());
+  const a = new LoopbackEndpoint(options, rng, now);
+  const b = new LoopbackEndpoint(options, rng, now);
+  a.peer = b;
+  b.peer = a;
+  return [a, b];
+}
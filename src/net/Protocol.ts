@@ -0,0 +1,83 @@
+import { Direction } from '../constants';
+import { PlayerInput } from '../core/PlayerInput';
+import { GameSnapshot } from '../core/GameSnapshot';
+import { SnapshotDelta } from './StateDelta';
+
+export const DEFAULT_SERVER_PORT = 8080;
+export const MAX_SLOTS = 4;
+
+// Spectators watch this many seconds behind the players, so they can't ghost for them
+export const SPECTATOR_DELAY = 3;
+
+export interface LobbySlot {
+  occupant: 'bot' | 'human';  // Empty slots are filled by bots
+  name: string;
+  ready: boolean;
+}
+
+export interface LobbyState {
+  roomCode: string;
+  slots: LobbySlot[];
+  mapIndex: number;
+  inMatch: boolean;
+  spectators: number;
+}
+
+// Client -> server
+export type ClientMessage =
+  | { type: 'join'; roomCode: string; name: string; spectate?: boolean }
+  | { type: 'pick-slot'; slot: number }
+  | { type: 'ready'; ready: boolean }
+  | { type: 'set-map'; mapIndex: number }
+  | { type: 'input'; input: PlayerInput };
+
+// Server -> client
+export type ServerMessage =
+  | { type: 'lobby'; lobby: LobbyState; yourSlot: number | null }
+  | { type: 'state'; tick: number; full?: GameSnapshot; delta?: SnapshotDelta }
+  | { type: 'match-end'; winnerIndex: number | null }
+  | { type: 'error'; message: string };
+
+// Room codes and names are drawn with PixelFont, so keep them to what it can render
+export function sanitizeName(name: string, maxLength: number): string {
+  return name.toUpperCase().replace(/[^A-Z0-9 ]/g, '').trim().slice(0, maxLength);
+}
+
+const DIRECTIONS = new Set<unknown>(Object.values(Direction));
+
+function isPlayerInput(value: unknown): value is PlayerInput {
+  const input = value as PlayerInput;
+  return typeof input === 'object' && input !== null &&
+    (input.direction === null || DIRECTIONS.has(input.direction)) &&
+    typeof input.bomb === 'boolean' && typeof input.special === 'boolean' && typeof input.specialHeld === 'boolean';
+}
+
+// Check a message read from a client socket - anything could arrive there
+export function parseClientMessage(data: unknown): ClientMessage {
+  const message = data as ClientMessage;
+  if (typeof message !== 'object' || message === null) {
+    throw new Error('Malformed message');
+  }
+
+  switch (message.type) {
+    case 'join':
+      if (typeof message.roomCode === 'string' && typeof message.name === 'string' &&
+        (message.spectate === undefined || typeof message.spectate === 'boolean')) {
+        return message;
+      }
+      break;
+    case 'pick-slot':
+      if (typeof message.slot === 'number') return message;
+      break;
+    case 'ready':
+      if (typeof message.ready === 'boolean') return message;
+      break;
+    case 'set-map':
+      if (typeof message.mapIndex === 'number') return message;
+      break;
+    case 'input':
+      if (isPlayerInput(message.input)) return message;
+      break;
+  }
+  throw new Error('Malformed message');
+}
@@ -0,0 +1,319 @@
+import { Game } from '../Game';
+import { PlayerInput, NO_INPUT, encodeInput, decodeInput } from '../core/PlayerInput';
+import { GameSnapshot, snapshotChecksum } from '../core/GameSnapshot';
+import { SoundManager } from '../core/SoundManager';
+import { PeerTransport } from './PeerTransport';
+
+export interface RollbackConfig {
+  inputDelay: number;        // Frames between sampling local input and it taking effect
+  maxRollback: number;       // Frames we may predict ahead of the slowest peer before stalling
+  checksumInterval: number;  // Frames between desync checks
+}
+
+export const DEFAULT_ROLLBACK_CONFIG: RollbackConfig = {
+  inputDelay: 2,
+  maxRollback: 8,
+  checksumInterval: 30,
+};
+
+export interface RollbackPeer {
+  slots: number[];           // Player slots whose input this peer produces (humans and its bots)
+  transport: PeerTransport;
+}
+
+export interface RollbackStats {
+  frame: number;
+  rollbacks: number;
+  resimulatedFrames: number;
+  maxRollbackDepth: number;
+  stalls: number;
+  checksumsCompared: number;
+  desyncFrame: number | null;
+}
+
+// Recent checksums ride along with every message, so a lost one is covered by the next
+const CHECKSUM_RESEND_COUNT = 4;
+
+interface PeerState extends RollbackPeer {
+  ack: number;                       // Last frame of our input this peer has confirmed
+  checksums: Map<number, number>;    // Their checksums we haven't compared yet
+  verifiedFrame: number;
+}
+
+// GGPO-style rollback: every peer simulates the whole match, predicting the
+// inputs it hasn't received yet. When a real input turns out different from the
+// prediction, the game is restored to that frame and re-simulated up to now.
+export class RollbackSession {
+  private game: Game;
+  private config: RollbackConfig;
+  private localSlots: number[];
+  private peers: PeerState[];
+
+  private frame: number = 0;            // Next frame to simulate
+  private localFrame: number;           // Last frame our input is known for (frame + input delay)
+  private confirmedFrame: number[];     // Per slot: last frame with known input (received contiguously)
+
+  // Per frame: known inputs per slot, the inputs the frame was simulated with,
+  // and the game state at its start
+  private inputs: Map<number, (PlayerInput | null)[]> = new Map();
+  private usedInputs: Map<number, PlayerInput[]> = new Map();
+  private snapshots: Map<number, GameSnapshot> = new Map();
+
+  private rollbackFrame: number | null = null;
+
+  private nextChecksumFrame: number = 0;
+  private localChecksums: Map<number, number> = new Map();
+  private recentChecksums: [number, number][] = [];
+
+  private stats: RollbackStats = {
+    frame: 0,
+    rollbacks: 0,
+    resimulatedFrames: 0,
+    maxRollbackDepth: 0,
+    stalls: 0,
+    checksumsCompared: 0,
+    desyncFrame: null,
+  };
+
+  onDesync: ((frame: number, localChecksum: number, remoteChecksum: number) => void) | null = null;
+
+  constructor(game: Game, localSlots: number[], peers: RollbackPeer[], config: RollbackConfig = DEFAULT_ROLLBACK_CONFIG) {
+    this.game = game;
+    this.config = config;
+
+    // Both ends pack a peer's inputs in slot order
+    this.localSlots = [...localSlots].sort((a, b) => a - b);
+    this.peers = peers.map(peer => ({
+      ...peer,
+      slots: [...peer.slots].sort((a, b) => a - b),
+      ack: -1,
+      checksums: new Map(),
+      verifiedFrame: -1,
+    }));
+
+    const slotCount = this.localSlots.length + this.peers.reduce((sum, peer) => sum + peer.slots.length, 0);
+    this.confirmedFrame = new Array(slotCount).fill(-1);
+
+    // Nobody can act during the input delay at the start
+    this.localFrame = config.inputDelay - 1;
+    for (let frame = 0; frame <= this.localFrame; frame++) {
+      for (const slot of this.localSlots) {
+        this.setInput(frame, slot, NO_INPUT);
+      }
+    }
+  }
+
+  // One fixed tick. Returns false if we had to wait for the other peers instead.
+  advance(deltaTime: number): boolean {
+    this.receive();
+    if (this.rollbackFrame !== null) {
+      this.rollback(deltaTime);
+    }
+    this.updateChecksums();
+
+    // Too far ahead of the slowest peer - wait for their input instead of guessing more
+    if (this.frame - this.getRemoteConfirmedFrame() > this.config.maxRollback) {
+      this.stats.stalls++;
+      this.sendInputs();
+      return false;
+    }
+
+    const sampled = this.game.sampleInputs(deltaTime);
+    this.localFrame++;
+    for (const slot of this.localSlots) {
+      this.setInput(this.localFrame, slot, sampled[slot] ?? NO_INPUT);
+    }
+    this.sendInputs();
+
+    this.simulateFrame(deltaTime);
+    this.prune();
+    return true;
+  }
+
+  getFrame(): number {
+    return this.frame;
+  }
+
+  getLocalSlots(): number[] {
+    return [...this.localSlots];
+  }
+
+  getStats(): RollbackStats {
+    return { ...this.stats, frame: this.frame };
+  }
+
+  private simulateFrame(deltaTime: number): void {
+    const inputs = this.getInputsFor(this.frame);
+    this.snapshots.set(this.frame, this.game.createSnapshot());
+    this.usedInputs.set(this.frame, inputs);
+    this.game.stepWithInputs(deltaTime, inputs);
+    this.frame++;
+  }
+
+  private rollback(deltaTime: number): void {
+    const target = this.rollbackFrame!;
+    this.rollbackFrame = null;
+
+    const snapshot = this.snapshots.get(target);
+    if (!snapshot) {
+      console.error(`Rollback to frame ${target} impossible - state no longer kept`);
+      return;
+    }
+
+    const resumeFrame = this.frame;
+    const depth = resumeFrame - target;
+
+    // Those frames already played their sounds once
+    const wasMuted = SoundManager.isSoundMuted();
+    SoundManager.setMuted(true);
+
+    this.game.restoreSnapshot(snapshot);
+    this.frame = target;
+    while (this.frame < resumeFrame) {
+      this.simulateFrame(deltaTime);
+    }
+
+    SoundManager.setMuted(wasMuted);
+
+    this.stats.rollbacks++;
+    this.stats.resimulatedFrames += depth;
+    this.stats.maxRollbackDepth = Math.max(this.stats.maxRollbackDepth, depth);
+  }
+
+  private getInputsFor(frame: number): PlayerInput[] {
+    const known = this.inputs.get(frame);
+    return this.confirmedFrame.map((_, slot) => known?.[slot] ?? this.predictInput(slot));
+  }
+
+  // Assume the player keeps doing what they did last; button presses are one-shot, so never
+  // repeat them (a held special key stays held)
+  private predictInput(slot: number): PlayerInput {
+    const last = this.inputs.get(this.confirmedFrame[slot])?.[slot];
+    return last ? { direction: last.direction, bomb: false, special: false, specialHeld: last.specialHeld } : NO_INPUT;
+  }
+
+  private setInput(frame: number, slot: number, input: PlayerInput): void {
+    let row = this.inputs.get(frame);
+    if (!row) {
+      row = new Array(this.confirmedFrame.length).fill(null);
+      this.inputs.set(frame, row);
+    }
+    row[slot] = input;
+    this.confirmedFrame[slot] = frame;
+  }
+
+  private receive(): void {
+    for (const peer of this.peers) {
+      for (const message of peer.transport.receive()) {
+        peer.ack = Math.max(peer.ack, message.ack);
+
+        message.frames.forEach((encoded, offset) => {
+          const frame = message.startFrame + offset;
+          peer.slots.forEach((slot, index) => {
+            // Resent or out of order - only take the next frame we're missing
+            if (frame !== this.confirmedFrame[slot] + 1) return;
+
+            const input = decodeInput(encoded[index]);
+            this.setInput(frame, slot, input);
+
+            const used = this.usedInputs.get(frame);
+            if (used && encodeInput(used[slot]) !== encoded[index]) {
+              this.rollbackFrame = Math.min(this.rollbackFrame ?? frame, frame);
+            }
+          });
+        });
+
+        for (const [frame, checksum] of message.checksums) {
+          if (frame > peer.verifiedFrame) {
+            peer.checksums.set(frame, checksum);
+          }
+        }
+      }
+    }
+  }
+
+  private sendInputs(): void {
+    for (const peer of this.peers) {
+      const frames: string[] = [];
+      for (let frame = peer.ack + 1; frame <= this.localFrame; frame++) {
+        const row = this.inputs.get(frame)!;
+        frames.push(this.localSlots.map(slot => encodeInput(row[slot]!)).join(''));
+      }
+
+      peer.transport.send({
+        type: 'inputs',
+        startFrame: peer.ack + 1,
+        frames,
+        ack: Math.min(...peer.slots.map(slot => this.confirmedFrame[slot])),
+        checksums: this.recentChecksums,
+      });
+    }
+  }
+
+  // Checksum confirmed frames (no prediction left in them) and compare with the peers'
+  private updateChecksums(): void {
+    const confirmed = this.getRemoteConfirmedFrame();
+    while (this.nextChecksumFrame <= confirmed) {
+      // State after the frame = state at the start of the next one
+      const after = this.snapshots.get(this.nextChecksumFrame + 1);
+      if (!after) break;
+
+      const checksum = snapshotChecksum(after);
+      this.localChecksums.set(this.nextChecksumFrame, checksum);
+      this.recentChecksums = [...this.recentChecksums, [this.nextChecksumFrame, checksum] as [number, number]]
+        .slice(-CHECKSUM_RESEND_COUNT);
+      this.nextChecksumFrame += this.config.checksumInterval;
+    }
+
+    for (const peer of this.peers) {
+      for (const [frame, remoteChecksum] of peer.checksums) {
+        const localChecksum = this.localChecksums.get(frame);
+        if (localChecksum === undefined) continue;
+
+        peer.checksums.delete(frame);
+        peer.verifiedFrame = Math.max(peer.verifiedFrame, frame);
+        this.stats.checksumsCompared++;
+
+        if (localChecksum !== remoteChecksum && this.stats.desyncFrame === null) {
+          this.stats.desyncFrame = frame;
+          console.error(`Desync at frame ${frame}: ${localChecksum} != ${remoteChecksum}`);
+          this.onDesync?.(frame, localChecksum, remoteChecksum);
+        }
+      }
+    }
+  }
+
+  // Last frame for which every remote slot's input is known
+  private getRemoteConfirmedFrame(): number {
+    let confirmed = this.localFrame;
+    for (const peer of this.peers) {
+      for (const slot of peer.slots) {
+        confirmed = Math.min(confirmed, this.confirmedFrame[slot]);
+      }
+    }
+    return confirmed;
+  }
+
+  // Drop history nothing can reach anymore: simulation, rollbacks, resends and checksums all start later
+  private prune(): void {
+    const keepFrom = Math.min(
+      this.frame,
+      this.getRemoteConfirmedFrame(),
+      this.nextChecksumFrame,
+      ...this.peers.map(peer => peer.ack + 1)
+    );
+
+    for (const frame of this.inputs.keys()) {
+      if (frame < keepFrom) this.inputs.delete(frame);
+    }
+    for (const frame of this.usedInputs.keys()) {
+      if (frame < keepFrom) this.usedInputs.delete(frame);
+    }
+    for (const frame of this.snapshots.keys()) {
+      if (frame < keepFrom) this.snapshots.delete(frame);
+    }
+    for (const frame of this.localChecksums.keys()) {
+      if (frame < keepFrom - this.config.checksumInterval * CHECKSUM_RESEND_COUNT) this.localChecksums.delete(frame);
+    }
+  }
+}
@@ -0,0 +1,91 @@
+import { GameSnapshot, GridCellSnapshot } from '../core/GameSnapshot';
+import { EntitySnapshot } from '../entities/Entity';
+
+type EntityListKey = 'players' | 'bombs' | 'mines' | 'blocks' | 'explosions' | 'powerUps';
+
+const ENTITY_LISTS: EntityListKey[] = ['players', 'bombs', 'mines', 'blocks', 'explosions', 'powerUps'];
+
+export interface EntityListDelta {
+  upserts: EntitySnapshot[];  // Changed or new entities (full entity state)
+  removed: string[];
+}
+
+// Difference between two consecutive snapshots. Entities are matched by id;
+// new entities keep the order they have in the newer snapshot.
+export interface SnapshotDelta {
+  fields: Partial<GameSnapshot>;
+  lists: Partial<Record<EntityListKey, EntityListDelta>>;
+  grid: [number, number, GridCellSnapshot][];
+}
+
+function same(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+export function diffSnapshots(prev: GameSnapshot, next: GameSnapshot): SnapshotDelta {
+  const delta: SnapshotDelta = { fields: {}, lists: {}, grid: [] };
+
+  for (const key of Object.keys(next) as (keyof GameSnapshot)[]) {
+    if (key === 'grid' || (ENTITY_LISTS as string[]).includes(key)) continue;
+    if (!same(prev[key], next[key])) {
+      (delta.fields as Record<string, unknown>)[key] = next[key];
+    }
+  }
+
+  for (const key of ENTITY_LISTS) {
+    const prevById = new Map<string, EntitySnapshot>(prev[key].map(e => [e.id, e]));
+    const nextIds = new Set(next[key].map(e => e.id));
+
+    const upserts = (next[key] as EntitySnapshot[]).filter(e => {
+      const old = prevById.get(e.id);
+      return !old || !same(old, e);
+    });
+    const removed = prev[key].filter(e => !nextIds.has(e.id)).map(e => e.id);
+
+    if (upserts.length > 0 || removed.length > 0) {
+      delta.lists[key] = { upserts, removed };
+    }
+  }
+
+  for (let y = 0; y < next.grid.length; y++) {
+    for (let x = 0; x < next.grid[y].length; x++) {
+      if (!same(prev.grid[y]?.[x] ?? null, next.grid[y][x])) {
+        delta.grid.push([x, y, next.grid[y][x]]);
+      }
+    }
+  }
+
+  return delta;
+}
+
+export function applySnapshotDelta(base: GameSnapshot, delta: SnapshotDelta): GameSnapshot {
+  const result: GameSnapshot = { ...base, ...delta.fields };
+
+  for (const key of ENTITY_LISTS) {
+    const change = delta.lists[key];
+    if (!change) continue;
+
+    const removed = new Set(change.removed);
+    const upserts = new Map(change.upserts.map(e => [e.id, e]));
+    const list = (base[key] as EntitySnapshot[])
+      .filter(e => !removed.has(e.id))
+      .map(e => {
+        const updated = upserts.get(e.id);
+        if (updated) upserts.delete(e.id);
+        return updated ?? e;
+      });
+
+    // Whatever is left is new
+    list.push(...upserts.values());
+    (result as unknown as Record<EntityListKey, EntitySnapshot[]>)[key] = list;
+  }
+
+  if (delta.grid.length > 0) {
+    result.grid = base.grid.map(row => row.slice());
+    for (const [x, y, cell] of delta.grid) {
+      result.grid[y][x] = cell;
+    }
+  }
+
+  return result;
+}
@@ -1,3 +1,5 @@
+import { Random } from '../core/Random';
+
 export interface ShakeConfig {
   intensity: number;  // Max pixel offset
   duration: number;   // Seconds
@@ -25,6 +27,11 @@ export class Camera {
   private offsetX: number = 0;
   private offsetY: number = 0;
 
+  // World point shown at the middle of the screen (null = screen center, the default view)
+  private center: { x: number; y: number } | null = null;
+  private targetCenter: { x: number; y: number } | null = null;
+  private panSmoothing: number = 8; // Higher = snappier follow
+
   static readonly PRESETS = {
     bombExplode: {
       intensity: 8,
@@ -73,6 +80,29 @@ export class Camera {
     }
   }
 
+  // Move the view to a world point; smooth unless `immediate`
+  lookAt(x: number, y: number, immediate: boolean = false): void {
+    this.targetCenter = { x, y };
+    if (immediate || !this.center) {
+      this.center = { x, y };
+    }
+  }
+
+  // Back to the default centered view
+  resetView(): void {
+    this.center = null;
+    this.targetCenter = null;
+    this.zoomTo(1, 0.3);
+  }
+
+  getCenter(): { x: number; y: number } | null {
+    return this.center ? { ...this.center } : null;
+  }
+
+  getZoom(): number {
+    return this.zoom;
+  }
+
   shake(config: ShakeConfig): void {
     this.shakes.push({
       intensity: config.intensity,
@@ -101,6 +131,13 @@ export class Camera {
       this.zoom = Math.max(0.5, Math.min(3.0, this.zoom));
     }
 
+    // Ease toward the look-at point
+    if (this.center && this.targetCenter) {
+      const t = Math.min(1, this.panSmoothing * deltaTime);
+      this.center.x += (this.targetCenter.x - this.center.x) * t;
+      this.center.y += (this.targetCenter.y - this.center.y) * t;
+    }
+
     this.offsetX = 0;
     this.offsetY = 0;
 
@@ -143,8 +180,8 @@ export class Camera {
 
       // Add some random jitter for more organic feel
       const jitter = currentIntensity * 0.3;
-      this.offsetX += shakeX + (Math.random() - 0.5) * jitter;
-      this.offsetY += shakeY + (Math.random() - 0.5) * jitter;
+      this.offsetX += shakeX + (Random.cosmetic.next() - 0.5) * jitter;
+      this.offsetY += shakeY + (Random.cosmetic.next() - 0.5) * jitter;
     }
 
     // Clamp offsets
@@ -171,8 +208,8 @@ export class Camera {
     if (this.offsetX !== 0 || this.offsetY !== 0) {
       ctx.translate(Math.floor(this.offsetX), Math.floor(this.offsetY));
     }
-    // Translate back
-    ctx.translate(-width / 2, -height / 2);
+    // Translate back (to the look-at point if one is set)
+    ctx.translate(-(this.center?.x ?? width / 2), -(this.center?.y ?? height / 2));
   }
 
   getOffset(): { x: number; y: number } {
@@ -1,4 +1,5 @@
 import { RETRO_PALETTE } from '../constants';
+import { Random } from '../core/Random';
 
 interface Particle {
   x: number;
@@ -428,17 +429,17 @@ export class ParticleSystem {
       if (angle) {
         particleAngle = this.randomRange(angle.min, angle.max);
       } else {
-        particleAngle = Math.random() * Math.PI * 2;
+        particleAngle = Random.cosmetic.next() * Math.PI * 2;
       }
 
       const particleSpeed = this.randomRange(speed.min, speed.max);
       const particleLife = this.randomRange(lifetime.min, lifetime.max);
       const particleSize = this.randomRange(size.min, size.max);
-      const particleColor = colors[Math.floor(Math.random() * colors.length)];
+      const particleColor = Random.cosmetic.pick(colors);
 
       this.particles.push({
-        x: x + (Math.random() - 0.5) * spread,
-        y: y + (Math.random() - 0.5) * spread,
+        x: x + (Random.cosmetic.next() - 0.5) * spread,
+        y: y + (Random.cosmetic.next() - 0.5) * spread,
         vx: Math.cos(particleAngle) * particleSpeed,
         vy: Math.sin(particleAngle) * particleSpeed,
         life: particleLife,
@@ -447,8 +448,8 @@ export class ParticleSystem {
         color: particleColor,
         gravity,
         friction,
-        rotation: Math.random() * Math.PI * 2,
-        rotationSpeed: (Math.random() - 0.5) * 10,
+        rotation: Random.cosmetic.next() * Math.PI * 2,
+        rotationSpeed: (Random.cosmetic.next() - 0.5) * 10,
         shape,
         text
       });
@@ -592,6 +593,6 @@ export class ParticleSystem {
   }
 
   private randomRange(min: number, max: number): number {
-    return min + Math.random() * (max - min);
+    return min + Random.cosmetic.next() * (max - min);
   }
 }
@@ -1,15 +1,25 @@
-import { CANVAS_WIDTH, CANVAS_HEIGHT, TILE_SIZE, GRID_WIDTH, GRID_HEIGHT, RETRO_PALETTE } from '../constants';
-import { Player, BombType } from '../entities/Player';
+import { CANVAS_WIDTH, CANVAS_HEIGHT, TILE_SIZE, GRID_WIDTH, GRID_HEIGHT, RETRO_PALETTE, TEAM_COLORS, BUFF_DURATIONS } from '../constants';
+import { Player, BombType, BUFF_COLORS } from '../entities/Player';
 import { Bomb } from '../entities/Bomb';
+import { Mine } from '../entities/Mine';
 import { Block } from '../entities/Block';
 import { Explosion } from '../entities/Explosion';
 import { PowerUp } from '../entities/PowerUp';
 import { FloatingText } from './FloatingText';
 import { ScoreManager } from '../core/ScoreManager';
+import { Random } from '../core/Random';
 import { ParticleSystem } from './ParticleSystem';
 import { Camera } from './Camera';
 import { PixelFont } from './PixelFont';
 import { MapData } from '../map/TileTypes';
+import { TeamMode, ROUND_FORMATS, teamForSlot } from '../core/MatchSetup';
+import { MatchProgress, KillRecord } from '../core/MatchProgress';
+import { MatchStats, PlayerMatchStats } from '../core/MatchStats';
+import { Profile, ProfileScreenState, MatchRecord, BINDING_ACTIONS, favouriteMap } from '../core/Profiles';
+import { ACHIEVEMENTS } from '../core/Achievements';
+import { LobbyState } from '../net/Protocol';
+import { DropTile } from '../core/SuddenDeath';
+import { RevengeCart } from '../core/Revenge';
 
 export interface RenderState {
   players: Player[];
@@ -19,8 +29,28 @@ export interface RenderState {
   powerUps: PowerUp[];
   floatingTexts: FloatingText[];
   scores: ScoreManager;
+  dropWarnings?: DropTile[]; // Sudden death tiles about to be filled
+  revengeCarts?: RevengeCart[];
+  mines?: Mine[]; // Only the ones this screen's viewers may see
 }
 
+// Short name of a key code for on-screen lists ('KeyW' -> 'W', 'ArrowUp' -> 'UP')
+function keyLabel(code: string): string {
+  return code.replace(/^(Key|Digit|Arrow)/, '').replace(/^Numpad/, 'NUM ');
+}
+
+// Local date and time of an ISO timestamp, as YYYY-MM-DD HH:MM
+function formatDate(iso: string): string {
+  const date = new Date(iso);
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())} ${pad(date.getHours())}:${pad(date.getMinutes())}`;
+}
+
+const ACHIEVEMENT_TOAST_TIME = 3; // seconds each unlock stays up
+
+// Pages of the post-match stats screen, in order
+export const STATS_TABS = ['COMBAT', 'BOMBS', 'MOVEMENT', 'POWER-UPS'] as const;
+
 export class Renderer {
   private canvas: HTMLCanvasElement;
   private ctx: CanvasRenderingContext2D;
@@ -41,6 +71,8 @@ export class Renderer {
   private hudAnimationTimer: number = 0;
   private lastScores: number[] = [0, 0, 0, 0];
   private cardScorePulse: number[] = [0, 0, 0, 0];
+  private comboCallouts: ({ combo: number; timer: number } | null)[] = [null, null, null, null];
+  private achievementToasts: { name: string; profileName: string; playerIndex: number; timer: number }[] = []; // Front one shows
 
   // NEW: Animated background elements
   private clouds: { x: number; y: number; size: number; speed: number }[] = [];
@@ -69,10 +101,10 @@ export class Renderer {
     // NEW: Initialize clouds
     for (let i = 0; i < 4; i++) {
       this.clouds.push({
-        x: Math.random() * CANVAS_WIDTH,
-        y: Math.random() * CANVAS_HEIGHT * 0.4, // Top 40% of screen
-        size: 40 + Math.random() * 30,
-        speed: 5 + Math.random() * 10
+        x: Random.cosmetic.next() * CANVAS_WIDTH,
+        y: Random.cosmetic.next() * CANVAS_HEIGHT * 0.4, // Top 40% of screen
+        size: 40 + Random.cosmetic.next() * 30,
+        speed: 5 + Random.cosmetic.next() * 10
       });
     }
 
@@ -155,7 +187,7 @@ export class Renderer {
       // Wraparound
       if (cloud.x > CANVAS_WIDTH + cloud.size) {
         cloud.x = -cloud.size;
-        cloud.y = Math.random() * CANVAS_HEIGHT * 0.4;
+        cloud.y = Random.cosmetic.next() * CANVAS_HEIGHT * 0.4;
       }
     }
 
@@ -169,7 +201,7 @@ export class Renderer {
       this.particleSystem.emitPreset(
         'windParticles',
         -10, // Start off-screen left
-        Math.random() * CANVAS_HEIGHT
+        Random.cosmetic.next() * CANVAS_HEIGHT
       );
     }
 
@@ -178,6 +210,11 @@ export class Renderer {
       if (this.cardScorePulse[i] > 0) {
         this.cardScorePulse[i] -= deltaTime;
       }
+      const callout = this.comboCallouts[i];
+      if (callout) {
+        callout.timer -= deltaTime;
+        if (callout.timer <= 0) this.comboCallouts[i] = null;
+      }
     }
 
     // Update color overlay
@@ -201,6 +238,13 @@ export class Renderer {
     return this.hitStopTimer > 0;
   }
 
+  // Pops up next to the player's card, replacing the last one
+  showComboCallout(playerIndex: number, combo: number): void {
+    if (playerIndex < this.comboCallouts.length) {
+      this.comboCallouts[playerIndex] = { combo, timer: 1.2 };
+    }
+  }
+
   triggerColorFlash(color: string, duration: number): void {
     this.colorOverlay = color;
     this.colorOverlayDuration = duration;
@@ -233,6 +277,21 @@ export class Renderer {
       }
     }
 
+    // Blink warning markers where sudden-death blocks are about to land
+    if (state.dropWarnings && Math.floor(Date.now() / 150) % 2 === 0) {
+      this.ctx.fillStyle = 'rgba(255, 0, 68, 0.45)';
+      for (const tile of state.dropWarnings) {
+        this.ctx.fillRect(tile.x * TILE_SIZE + 4, tile.y * TILE_SIZE + 4, TILE_SIZE - 8, TILE_SIZE - 8);
+      }
+    }
+
+    // Mines lie flat on the floor, under everything else
+    for (const mine of state.mines ?? []) {
+      if (mine.isActive) {
+        mine.render(this.ctx, interpolation);
+      }
+    }
+
     // Draw power-ups
     for (const powerUp of state.powerUps) {
       if (powerUp.isActive) {
@@ -247,12 +306,20 @@ export class Renderer {
       }
     }
 
+    // Eliminated players riding the outer wall
+    for (const cart of state.revengeCarts ?? []) {
+      this.drawRevengeCart(cart);
+    }
+
     // Draw players (sorted by Y for proper overlap)
     const sortedPlayers = [...state.players]
       .filter(p => p.isActive)
       .sort((a, b) => a.position.pixelY - b.position.pixelY);
 
     for (const player of sortedPlayers) {
+      if (player.team !== null && player.isPlayerAlive()) {
+        this.drawTeamOutline(player, interpolation);
+      }
       player.render(this.ctx, interpolation);
     }
 
@@ -289,6 +356,39 @@ export class Renderer {
     }
   }
 
+  // Team-colored ring around the player's tile, drawn underneath the sprite
+  private drawTeamOutline(player: Player, interpolation: number): void {
+    const pos = player.getInterpolatedPosition(interpolation);
+    const inset = 3;
+    this.ctx.strokeStyle = TEAM_COLORS[player.team!];
+    this.ctx.lineWidth = 3;
+    this.ctx.strokeRect(pos.x + inset, pos.y + inset, TILE_SIZE - inset * 2, TILE_SIZE - inset * 2);
+  }
+
+  private drawRevengeCart(cart: RevengeCart): void {
+    const ctx = this.ctx;
+    const { x, y } = cart.getPixelPosition();
+    const colors = [RETRO_PALETTE.player1, RETRO_PALETTE.player2, RETRO_PALETTE.player3, RETRO_PALETTE.player4];
+
+    // Rider (a translucent ghost head) peeking out of the cart
+    ctx.globalAlpha = 0.7;
+    ctx.fillStyle = colors[cart.playerIndex];
+    ctx.fillRect(x + 14, y + 6, 20, 18);
+    ctx.fillStyle = RETRO_PALETTE.uiWhite;
+    ctx.fillRect(x + 18, y + 12, 4, 4);
+    ctx.fillRect(x + 26, y + 12, 4, 4);
+    ctx.globalAlpha = 1;
+
+    // Cart body and wheels
+    ctx.fillStyle = RETRO_PALETTE.uiBlack;
+    ctx.fillRect(x + 6, y + 22, 36, 16);
+    ctx.fillStyle = '#8b9bb4';
+    ctx.fillRect(x + 8, y + 24, 32, 12);
+    ctx.fillStyle = RETRO_PALETTE.uiBlack;
+    ctx.fillRect(x + 10, y + 38, 8, 6);
+    ctx.fillRect(x + 30, y + 38, 8, 6);
+  }
+
   getParticleSystem(): ParticleSystem {
     return this.particleSystem;
   }
@@ -514,7 +614,7 @@ export class Renderer {
   private readonly CARD_HEIGHT = 40;
   private readonly UI_PADDING = 8;
 
-  renderUI(alivePlayers: Player[], roundTime: number, scoreManager?: ScoreManager): void {
+  renderUI(alivePlayers: Player[], roundTime: number, scoreManager?: ScoreManager, focusIndex: number | null = null, showLives: boolean = false): void {
     this.ctx.save();
     this.ctx.scale(this.scale, this.scale);
 
@@ -566,6 +666,28 @@ export class Renderer {
     }
 
 
+    // --- TEAM SCORES (either side of the timer) ---
+    if (scoreManager && alivePlayers.some(p => p.team !== null)) {
+      const teamScores = [0, 0];
+      for (const player of alivePlayers) {
+        if (player.team !== null) {
+          teamScores[player.team] += scoreManager.getScore(player.playerIndex);
+        }
+      }
+
+      const panelWidth = 56;
+      teamScores.forEach((score, team) => {
+        const panelX = team === 0 ? timerX - panelWidth - 4 : timerX + timerWidth + 4;
+        this.ctx.fillStyle = RETRO_PALETTE.uiBlack;
+        this.ctx.fillRect(panelX, timerY, panelWidth, timerHeight);
+        this.ctx.fillStyle = TEAM_COLORS[team];
+        this.ctx.fillRect(panelX, timerY, panelWidth, 2);
+        PixelFont.drawTextCentered(this.ctx, `TEAM ${team + 1}`, panelX + panelWidth / 2, timerY + 6, 1, TEAM_COLORS[team]);
+        PixelFont.drawTextCentered(this.ctx, String(score), panelX + panelWidth / 2, timerY + 17, 1, RETRO_PALETTE.uiWhite);
+      });
+    }
+
+
     // --- PLAYER CARDS (4 Corners) ---
     const slots = [
       { x: this.UI_PADDING, y: 5, align: 'left' as const }, // P1 Top-Left
@@ -583,13 +705,21 @@ export class Renderer {
       const cardX = slot.x;
       const cardY = slot.y;
 
-      this.drawPlayerCard(cardX, cardY, player, i, isAlive, scoreManager);
+      this.drawPlayerCard(cardX, cardY, player, i, isAlive, scoreManager, showLives);
+      this.drawComboCallout(cardX, cardY, i);
+
+      // Spectator camera target gets a gold frame
+      if (i === focusIndex) {
+        this.ctx.strokeStyle = RETRO_PALETTE.uiGold;
+        this.ctx.lineWidth = 2;
+        this.ctx.strokeRect(cardX - 2, cardY - 2, this.CARD_WIDTH + 4, this.CARD_HEIGHT + 4);
+      }
     }
 
     this.ctx.restore();
   }
 
-  private drawPlayerCard(x: number, y: number, player: Player, index: number, isAlive: boolean, scoreManager?: ScoreManager): void {
+  private drawPlayerCard(x: number, y: number, player: Player, index: number, isAlive: boolean, scoreManager?: ScoreManager, showLives: boolean = false): void {
     const score = scoreManager ? scoreManager.getScore(index) : 0;
     if (score !== this.lastScores[index]) {
       this.cardScorePulse[index] = 0.5;
@@ -643,6 +773,13 @@ export class Renderer {
 
       PixelFont.drawText(ctx, `${score}`, contentX + 34, y + 6, 1, RETRO_PALETTE.uiGold);
 
+      // Timed buffs, each ring running down with its clock (right to left, clear of the avatar)
+      let ringX = isLeft ? x + this.CARD_WIDTH - 10 : avatarX - 10;
+      for (const buff of player.getActiveBuffs()) {
+        this.drawBuffRing(ringX, y + 10, buff, player.getBuffTimeLeft(buff) / BUFF_DURATIONS[buff]);
+        ringX -= 13;
+      }
+
       // Stats row with pixel icons
       const statsY = y + 22;
 
@@ -666,13 +803,116 @@ export class Renderer {
         this.drawPixelAbilityIcon(abilityX, statsY, 'kick');
       } else if (player.hasAbility('punch')) {
         this.drawPixelAbilityIcon(abilityX, statsY, 'punch');
+      } else if (player.hasAbility('line_bomb')) {
+        this.drawPixelAbilityIcon(abilityX, statsY, 'line_bomb');
+      } else if (player.hasAbility('glove')) {
+        this.drawPixelAbilityIcon(abilityX, statsY, 'glove');
+      } else if (player.hasAbility('wall_pass')) {
+        this.drawPixelAbilityIcon(abilityX, statsY, 'wall_pass');
+      } else if (player.hasAbility('bomb_pass')) {
+        this.drawPixelAbilityIcon(abilityX, statsY, 'bomb_pass');
+      } else if (player.mines > 0) {
+        this.drawPixelAbilityIcon(abilityX, statsY, 'mine');
       }
+
+      // Lives left
+      if (showLives) {
+        this.drawPixelHeartIcon(contentX + 66, statsY);
+        PixelFont.drawText(ctx, `${player.lives}`, contentX + 76, statsY, 1, RETRO_PALETTE.fireRed);
+      }
+    } else if (player.lives > 0) {
+      // Waiting to respawn
+      PixelFont.drawTextCentered(ctx, 'RESPAWN', x + this.CARD_WIDTH / 2, y + this.CARD_HEIGHT / 2 - 10, 1, playerColor);
+      this.drawPixelHeartIcon(x + this.CARD_WIDTH / 2 - 8, y + this.CARD_HEIGHT / 2 + 2);
+      PixelFont.drawText(ctx, `${player.lives}`, x + this.CARD_WIDTH / 2 + 2, y + this.CARD_HEIGHT / 2 + 2, 1, RETRO_PALETTE.fireRed);
     } else {
       // Dead state
       PixelFont.drawTextCentered(ctx, 'OUT', x + this.CARD_WIDTH / 2, y + this.CARD_HEIGHT / 2 - 4, 1, '#666666');
     }
   }
 
+  // Below the top cards, above the bottom ones
+  showAchievementToast(name: string, profileName: string, playerIndex: number): void {
+    this.achievementToasts.push({ name, profileName, playerIndex, timer: ACHIEVEMENT_TOAST_TIME });
+  }
+
+  // Toasts outlive the match (the last ones often unlock on the final blow), so they
+  // run on frame time rather than with the rest of update()
+  updateAchievementToasts(deltaTime: number): void {
+    const toast = this.achievementToasts[0];
+    if (!toast) return;
+    toast.timer -= deltaTime;
+    if (toast.timer <= 0) this.achievementToasts.shift();
+  }
+
+  renderAchievementToast(): void {
+    const toast = this.achievementToasts[0];
+    if (!toast) return;
+
+    const playerColors = [RETRO_PALETTE.player1, RETRO_PALETTE.player2, RETRO_PALETTE.player3, RETRO_PALETTE.player4];
+    const width = 320;
+    const height = 52;
+    const x = (CANVAS_WIDTH - width) / 2;
+    // Slides up into place, and back down as it goes
+    const shown = Math.min(1, (ACHIEVEMENT_TOAST_TIME - toast.timer) / 0.25, toast.timer / 0.25);
+    const y = CANVAS_HEIGHT - 140 + (1 - shown) * 40;
+
+    const ctx = this.ctx;
+    ctx.save();
+    ctx.scale(this.scale, this.scale);
+    ctx.globalAlpha = shown;
+    ctx.fillStyle = RETRO_PALETTE.uiBlack;
+    ctx.fillRect(x, y, width, height);
+    ctx.fillStyle = RETRO_PALETTE.uiGold;
+    ctx.fillRect(x, y, width, 2);
+    ctx.fillRect(x, y + height - 2, width, 2);
+    ctx.fillRect(x, y, 2, height);
+    ctx.fillRect(x + width - 2, y, 2, height);
+
+    PixelFont.drawTextCentered(ctx, `${toast.profileName} UNLOCKED`, CANVAS_WIDTH / 2, y + 8, 1, playerColors[toast.playerIndex]);
+    PixelFont.drawTextCentered(ctx, toast.name, CANVAS_WIDTH / 2, y + 24, 3, RETRO_PALETTE.uiGold);
+    ctx.restore();
+  }
+
+  private drawComboCallout(cardX: number, cardY: number, index: number): void {
+    const callout = this.comboCallouts[index];
+    if (!callout) return;
+
+    const text = callout.combo === 2 ? 'DOUBLE!' : callout.combo === 3 ? 'TRIPLE!' : `CHAIN x${callout.combo}`;
+    const color = callout.combo >= 4 ? RETRO_PALETTE.fireOrange : RETRO_PALETTE.uiGold;
+    const scale = callout.timer > 1.05 ? 3 : 2; // Pops in big
+    const textY = index < 2 ? cardY + this.CARD_HEIGHT + 6 : cardY - 6 - PixelFont.getHeight(scale);
+
+    const ctx = this.ctx;
+    ctx.save();
+    ctx.globalAlpha = Math.min(1, callout.timer / 0.3);
+    PixelFont.drawTextWithOutline(ctx, text, cardX + this.CARD_WIDTH / 2, textY, scale, color, '#000000');
+    ctx.restore();
+  }
+
+  private drawBuffRing(cx: number, cy: number, buff: string, fraction: number): void {
+    const ctx = this.ctx;
+    const { fill, stroke } = BUFF_COLORS[buff];
+    const radius = 5;
+
+    ctx.save();
+    ctx.lineWidth = 2;
+    ctx.strokeStyle = stroke;
+    ctx.beginPath();
+    ctx.arc(cx, cy, radius, 0, Math.PI * 2);
+    ctx.stroke();
+
+    // Time left, clockwise from 12 o'clock
+    ctx.strokeStyle = fill;
+    ctx.beginPath();
+    ctx.arc(cx, cy, radius, -Math.PI / 2, -Math.PI / 2 + Math.PI * 2 * fraction);
+    ctx.stroke();
+
+    ctx.fillStyle = fill;
+    ctx.fillRect(cx - 1, cy - 1, 2, 2);
+    ctx.restore();
+  }
+
   private drawPixelAvatar(x: number, y: number, size: number, color: string, isAlive: boolean): void {
     const ctx = this.ctx;
 
@@ -708,6 +948,7 @@ export class Renderer {
       case BombType.FIRE: color = RETRO_PALETTE.fireRed; break;
       case BombType.ICE: color = RETRO_PALETTE.iceBlue; break;
       case BombType.PIERCING: color = RETRO_PALETTE.magicPurple; break;
+      case BombType.REMOTE: color = RETRO_PALETTE.uiRed; break;
       default: color = RETRO_PALETTE.bombBody; break;
     }
 
@@ -720,7 +961,7 @@ export class Renderer {
     ctx.fillRect(x + 2, y - 2, 2, 2);
   }
 
-  private drawPixelAbilityIcon(x: number, y: number, type: 'kick' | 'punch' | 'shield' | 'teleport'): void {
+  private drawPixelAbilityIcon(x: number, y: number, type: 'kick' | 'punch' | 'shield' | 'teleport' | 'line_bomb' | 'glove' | 'bomb_pass' | 'wall_pass' | 'mine'): void {
     const ctx = this.ctx;
 
     switch (type) {
@@ -746,9 +987,55 @@ export class Renderer {
         ctx.fillRect(x, y + 1, 4, 4);
         ctx.fillRect(x + 4, y + 2, 4, 2);
         break;
+      case 'line_bomb':
+        ctx.fillStyle = '#5b6ee1';
+        ctx.fillRect(x, y + 2, 2, 3);
+        ctx.fillRect(x + 3, y + 2, 2, 3);
+        ctx.fillRect(x + 6, y + 2, 2, 3);
+        break;
+      case 'glove':
+        ctx.fillStyle = '#d95763';
+        ctx.fillRect(x, y, 1, 2);
+        ctx.fillRect(x + 2, y, 1, 2);
+        ctx.fillRect(x + 4, y, 1, 2);
+        ctx.fillRect(x, y + 2, 6, 3);
+        ctx.fillRect(x + 1, y + 5, 4, 2);
+        break;
+      case 'bomb_pass':
+        ctx.fillStyle = '#cbdbfc';
+        ctx.fillRect(x + 1, y, 4, 1);
+        ctx.fillRect(x, y + 1, 1, 4);
+        ctx.fillRect(x + 5, y + 1, 1, 4);
+        ctx.fillRect(x + 1, y + 5, 4, 1);
+        break;
+      case 'wall_pass':
+        ctx.fillStyle = '#d9a066';
+        ctx.fillRect(x, y, 3, 2);
+        ctx.fillRect(x + 4, y, 3, 2);
+        ctx.fillRect(x + 2, y + 3, 3, 2);
+        ctx.fillRect(x, y + 6, 3, 2);
+        ctx.fillRect(x + 4, y + 6, 3, 2);
+        break;
+      case 'mine':
+        ctx.fillStyle = '#8f563b';
+        ctx.fillRect(x + 1, y + 3, 6, 2);
+        ctx.fillRect(x, y + 5, 8, 2);
+        ctx.fillStyle = RETRO_PALETTE.uiRed;
+        ctx.fillRect(x + 3, y + 1, 2, 2);
+        break;
     }
   }
 
+  private drawPixelHeartIcon(x: number, y: number): void {
+    const ctx = this.ctx;
+    ctx.fillStyle = RETRO_PALETTE.fireRed;
+    ctx.fillRect(x, y + 1, 3, 3);
+    ctx.fillRect(x + 4, y + 1, 3, 3);
+    ctx.fillRect(x + 1, y + 3, 5, 2);
+    ctx.fillRect(x + 2, y + 5, 3, 1);
+    ctx.fillRect(x + 3, y + 6, 1, 1);
+  }
+
   renderCountdown(count: number): void {
     this.ctx.save();
     this.ctx.scale(this.scale, this.scale);
@@ -772,7 +1059,72 @@ export class Renderer {
     this.ctx.restore();
   }
 
-  renderGameOver(winner: Player | null, isSinglePlayer: boolean = false): void {
+  // Latest deaths under the timer: killer (+assists), how, victim
+  renderKillFeed(kills: KillRecord[]): void {
+    const ctx = this.ctx;
+    const colors = [RETRO_PALETTE.player1, RETRO_PALETTE.player2, RETRO_PALETTE.player3, RETRO_PALETTE.player4];
+    const lineHeight = 12;
+    const iconWidth = 8;
+    const gap = 4;
+
+    ctx.save();
+    ctx.scale(this.scale, this.scale);
+
+    let lineY = 42;
+    for (const kill of kills.slice(-4)) {
+      // Self-kills and crushes have nobody on the left
+      const parts: { text: string; color: string }[] = [];
+      if (kill.killer !== null && kill.killer !== kill.victim) {
+        parts.push({ text: `P${kill.killer + 1}`, color: colors[kill.killer] });
+        for (const assist of kill.assists) {
+          parts.push({ text: `+P${assist + 1}`, color: colors[assist] });
+        }
+      }
+      const leftWidth = parts.reduce((sum, part) => sum + PixelFont.measureText(part.text) + gap, 0);
+      const victimText = `P${kill.victim + 1}`;
+      const width = leftWidth + iconWidth + gap + PixelFont.measureText(victimText);
+
+      let x = Math.floor(CANVAS_WIDTH / 2 - width / 2);
+      ctx.fillStyle = 'rgba(0, 0, 0, 0.6)';
+      ctx.fillRect(x - 4, lineY - 2, width + 8, lineHeight - 1);
+
+      for (const part of parts) {
+        PixelFont.drawText(ctx, part.text, x, lineY, 1, part.color);
+        x += PixelFont.measureText(part.text) + gap;
+      }
+
+      if (kill.cause === 'crushed') {
+        ctx.fillStyle = RETRO_PALETTE.uiLight;
+        ctx.fillRect(x, lineY, 6, 6);
+      } else {
+        // Red bomb for a self-kill
+        this.drawPixelBombIcon(x, lineY + 1, kill.killer === kill.victim ? BombType.REMOTE : BombType.NORMAL);
+      }
+      x += iconWidth + gap;
+
+      PixelFont.drawText(ctx, victimText, x, lineY, 1, colors[kill.victim]);
+      lineY += lineHeight;
+    }
+
+    ctx.restore();
+  }
+
+  renderSuddenDeathBanner(): void {
+    this.ctx.save();
+    this.ctx.scale(this.scale, this.scale);
+
+    const bannerY = CANVAS_HEIGHT / 2 - 40;
+    this.ctx.fillStyle = 'rgba(0, 0, 0, 0.6)';
+    this.ctx.fillRect(0, bannerY, CANVAS_WIDTH, 70);
+
+    const flash = Math.floor(Date.now() / 200) % 2 === 0;
+    PixelFont.drawTextWithOutline(this.ctx, 'SUDDEN DEATH', CANVAS_WIDTH / 2, bannerY + 12, 5, flash ? '#ff0044' : RETRO_PALETTE.fireOrange, '#ffffff');
+    PixelFont.drawTextCentered(this.ctx, 'THE WALLS ARE CLOSING IN', CANVAS_WIDTH / 2, bannerY + 52, 1, RETRO_PALETTE.uiLight);
+
+    this.ctx.restore();
+  }
+
+  renderGameOver(winner: Player | null, isSinglePlayer: boolean = false, isReplay: boolean = false, winningTeam: number | null = null): void {
     this.ctx.save();
     this.ctx.scale(this.scale, this.scale);
 
@@ -781,8 +1133,8 @@ export class Renderer {
     this.ctx.fillRect(0, 0, CANVAS_WIDTH, CANVAS_HEIGHT);
 
     const centerX = CANVAS_WIDTH / 2;
-    const centerY = CANVAS_HEIGHT / 2;
 
+    // Headline sits at the top - the match stats fill the middle of the screen
     if (winner) {
       const retro_colors = [
         RETRO_PALETTE.player1,
@@ -795,37 +1147,40 @@ export class Renderer {
 
       const blink = Math.floor(Date.now() / 300) % 2 === 0;
 
-      if (isSinglePlayer && winner.playerIndex === 0) {
+      // The human (P1) is always on the first team in menu team layouts
+      const humanWon = winningTeam !== null ? winningTeam === 0 : winner.playerIndex === 0;
+
+      if (isSinglePlayer && humanWon) {
         // Single player mode - player won
         PixelFont.drawTextWithOutline(
           this.ctx,
           'YOU WIN!',
           centerX,
-          centerY - 50,
+          24,
           5,
           blink ? '#ffffff' : RETRO_PALETTE.uiGold,
           '#000000'
         );
-      } else if (isSinglePlayer && winner.playerIndex !== 0) {
+      } else if (isSinglePlayer) {
         // Single player mode - AI won (player lost)
         PixelFont.drawTextWithOutline(
           this.ctx,
           'YOU LOSE!',
           centerX,
-          centerY - 50,
+          24,
           5,
           blink ? '#ffffff' : RETRO_PALETTE.uiRed,
           '#000000'
         );
       } else {
-        // Multiplayer mode - show color name
+        // Multiplayer mode - show color name (or the team)
         PixelFont.drawTextWithOutline(
           this.ctx,
-          `${colorNames[winner.playerIndex]} PLAYER`,
+          winningTeam !== null ? `TEAM ${winningTeam + 1}` : `${colorNames[winner.playerIndex]} PLAYER`,
           centerX,
-          centerY - 80,
-          4,
-          winnerColor,
+          14,
+          3,
+          winningTeam !== null ? TEAM_COLORS[winningTeam] : winnerColor,
           '#000000'
         );
 
@@ -834,8 +1189,8 @@ export class Renderer {
           this.ctx,
           'WINS!',
           centerX,
-          centerY - 20,
-          5,
+          44,
+          4,
           blink ? '#ffffff' : RETRO_PALETTE.uiGold,
           '#000000'
         );
@@ -847,7 +1202,7 @@ export class Renderer {
         this.ctx,
         'DRAW!',
         centerX,
-        centerY - 40,
+        24,
         5,
         blink ? '#ffffff' : '#888888',
         '#000000'
@@ -856,13 +1211,458 @@ export class Renderer {
 
     // Instruction text (blinking cursor style)
     const cursorBlink = Math.floor(Date.now() / 500) % 2 === 0;
-    const instructionText = cursorBlink ? 'PRESS SPACE TO PLAY AGAIN' : 'PRESS SPACE TO PLAY AGAIN_';
-    PixelFont.drawTextCentered(this.ctx, instructionText, centerX, centerY + 80, 2, '#aaaaaa');
+    const instructionY = CANVAS_HEIGHT - 60;
+    if (isReplay) {
+      const instructionText = cursorBlink ? 'PRESS SPACE TO WATCH AGAIN' : 'PRESS SPACE TO WATCH AGAIN_';
+      PixelFont.drawTextCentered(this.ctx, instructionText, centerX, instructionY, 2, '#aaaaaa');
+      PixelFont.drawTextCentered(this.ctx, 'LEFT/RIGHT: STATS   ESC: MENU', centerX, instructionY + 30, 1, '#888888');
+    } else {
+      const instructionText = cursorBlink ? 'PRESS SPACE TO PLAY AGAIN' : 'PRESS SPACE TO PLAY AGAIN_';
+      PixelFont.drawTextCentered(this.ctx, instructionText, centerX, instructionY, 2, '#aaaaaa');
+      PixelFont.drawTextCentered(this.ctx, 'LEFT/RIGHT: STATS   R: WATCH REPLAY   E: SAVE REPLAY', centerX, instructionY + 30, 1, '#888888');
+    }
 
     this.ctx.restore();
   }
 
-  renderMainMenu(playerCount: number = 2, isSinglePlayer: boolean = false, aiDifficulty: 'easy' | 'medium' | 'hard' = 'medium', selectedMap?: MapData): void {
+  // Post-match breakdown under the game-over headline: a row of tabs, each a few stats
+  // charted as one bar per player. `tab` wraps, so the game can just count key presses.
+  renderMatchStats(players: Player[], stats: MatchStats, tab: number): void {
+    const ctx = this.ctx;
+    ctx.save();
+    ctx.scale(this.scale, this.scale);
+
+    const playerColors = [
+      RETRO_PALETTE.player1,
+      RETRO_PALETTE.player2,
+      RETRO_PALETTE.player3,
+      RETRO_PALETTE.player4
+    ];
+    const current = ((tab % STATS_TABS.length) + STATS_TABS.length) % STATS_TABS.length;
+
+    // Tab bar
+    const tabWidth = 150;
+    const tabY = 90;
+    const tabsX = (CANVAS_WIDTH - tabWidth * STATS_TABS.length) / 2;
+    STATS_TABS.forEach((name, i) => {
+      const x = tabsX + i * tabWidth;
+      ctx.fillStyle = i === current ? RETRO_PALETTE.uiMid : RETRO_PALETTE.uiBlack;
+      ctx.fillRect(x + 2, tabY, tabWidth - 4, 20);
+      if (i === current) {
+        ctx.fillStyle = RETRO_PALETTE.uiGold;
+        ctx.fillRect(x + 2, tabY + 18, tabWidth - 4, 2);
+      }
+      PixelFont.drawTextCentered(ctx, name, x + tabWidth / 2, tabY + 6, 1, i === current ? RETRO_PALETTE.uiWhite : RETRO_PALETTE.uiLight);
+    });
+
+    // Charts, two columns
+    const charts = this.getStatCharts(STATS_TABS[current], players.map(p => stats.get(p.playerIndex)));
+    const blockHeight = 26 + players.length * 12;
+    charts.forEach((chart, i) => {
+      const x = i % 2 === 0 ? 50 : CANVAS_WIDTH / 2 + 20;
+      const y = tabY + 40 + Math.floor(i / 2) * blockHeight;
+      PixelFont.drawText(ctx, chart.label, x, y, 1, RETRO_PALETTE.uiLight);
+
+      const max = Math.max(...chart.values);
+      chart.values.forEach((value, row) => {
+        const index = players[row].playerIndex;
+        const barY = y + 14 + row * 12;
+        const barWidth = max > 0 ? Math.round((value / max) * 180) : 0;
+        PixelFont.drawText(ctx, `P${index + 1}`, x, barY + 1, 1, playerColors[index]);
+        ctx.fillStyle = RETRO_PALETTE.uiBlack;
+        ctx.fillRect(x + 20, barY, 180, 9);
+        ctx.fillStyle = playerColors[index];
+        ctx.fillRect(x + 20, barY, barWidth, 9);
+        PixelFont.drawText(ctx, chart.format(value), x + 208, barY + 1, 1, RETRO_PALETTE.uiWhite);
+      });
+    });
+
+    if (charts.length === 0) {
+      PixelFont.drawTextCentered(ctx, 'NOTHING COLLECTED', CANVAS_WIDTH / 2, tabY + 60, 2, '#888888');
+    }
+
+    ctx.restore();
+  }
+
+  private getStatCharts(tab: typeof STATS_TABS[number], stats: PlayerMatchStats[]): { label: string; values: number[]; format: (value: number) => string }[] {
+    const count = (value: number) => String(value);
+    const chart = (label: string, pick: (s: PlayerMatchStats) => number, format = count) =>
+      ({ label, values: stats.map(pick), format });
+
+    switch (tab) {
+      case 'COMBAT':
+        return [
+          chart('KILLS', s => s.kills),
+          chart('DEATHS', s => s.deaths),
+          chart('SELF-KILLS', s => s.suicides),
+          chart('BIGGEST CHAIN', s => s.biggestChain, value => value >= 2 ? `X${value}` : '-')
+        ];
+      case 'BOMBS':
+        return [
+          chart('BOMBS PLACED', s => s.bombsPlaced),
+          chart('BLOCKS DESTROYED', s => s.blocksDestroyed),
+          chart('KICKS', s => s.kicks),
+          chart('PUNCHES', s => s.punches)
+        ];
+      case 'MOVEMENT':
+        return [
+          chart('DISTANCE WALKED', s => s.distance, value => `${Math.round(value)}`),
+          chart('TIME ALIVE', s => s.timeAlive, value => `${Math.floor(value)}S`),
+          chart('TELEPORTS', s => s.teleports)
+        ];
+      case 'POWER-UPS': {
+        // The most collected types, as many as fit
+        const totals = new Map<string, number>();
+        for (const s of stats) {
+          for (const [type, n] of Object.entries(s.powerUps)) {
+            totals.set(type, (totals.get(type) ?? 0) + n);
+          }
+        }
+        return Array.from(totals.entries())
+          .sort((a, b) => b[1] - a[1])
+          .slice(0, 8)
+          .map(([type]) => chart(type.replace(/_/g, ' ').toUpperCase(), s => s.powerUps[type] ?? 0));
+      }
+    }
+  }
+
+  // Profile picker: the list on the left, the highlighted profile's lifetime numbers on the right,
+  // and who sits in which slot along the bottom
+  renderProfiles(state: ProfileScreenState): void {
+    const ctx = this.ctx;
+    ctx.save();
+    ctx.scale(this.scale, this.scale);
+
+    ctx.fillStyle = RETRO_PALETTE.uiBlack;
+    ctx.fillRect(0, 0, CANVAS_WIDTH, CANVAS_HEIGHT);
+
+    const playerColors = [
+      RETRO_PALETTE.player1,
+      RETRO_PALETTE.player2,
+      RETRO_PALETTE.player3,
+      RETRO_PALETTE.player4
+    ];
+    const blink = Math.floor(Date.now() / 500) % 2 === 0;
+
+    PixelFont.drawTextWithOutline(ctx, 'PROFILES', CANVAS_WIDTH / 2, 24, 4, RETRO_PALETTE.uiGold, '#000000');
+
+    // List, scrolled to keep the cursor in view; the last row makes a new profile
+    const listX = 40;
+    const listY = 90;
+    const rowHeight = 26;
+    const visibleRows = 14;
+    const rows = state.profiles.length + 1;
+    const first = Math.max(0, Math.min(state.cursor - Math.floor(visibleRows / 2), rows - visibleRows));
+    for (let row = first; row < Math.min(rows, first + visibleRows); row++) {
+      const y = listY + (row - first) * rowHeight;
+      if (row === state.cursor) {
+        ctx.fillStyle = RETRO_PALETTE.uiMid;
+        ctx.fillRect(listX, y - 6, 300, rowHeight - 2);
+      }
+
+      const profile = state.profiles[row];
+      if (!profile) {
+        const text = state.naming !== null ? `${state.naming}${blink ? '_' : ''}` : '+ NEW PROFILE';
+        PixelFont.drawText(ctx, text, listX + 30, y, 2, state.naming !== null ? RETRO_PALETTE.uiWhite : RETRO_PALETTE.uiLight);
+        continue;
+      }
+
+      ctx.fillStyle = playerColors[profile.color];
+      ctx.fillRect(listX + 10, y + 2, 10, 10);
+      PixelFont.drawText(ctx, profile.name, listX + 30, y, 2, RETRO_PALETTE.uiWhite);
+      const seat = state.seats.indexOf(profile.id);
+      if (seat !== -1) {
+        PixelFont.drawText(ctx, `P${seat + 1}`, listX + 270, y, 2, playerColors[seat]);
+      }
+    }
+
+    // Details of the highlighted profile
+    const detailX = 390;
+    const selected = state.profiles[state.cursor];
+    if (selected) {
+      PixelFont.drawText(ctx, selected.name, detailX, listY, 3, playerColors[selected.color]);
+      const winRate = selected.matches > 0 ? Math.round((selected.wins / selected.matches) * 100) : 0;
+      const lines: [string, string][] = [
+        ['MATCHES', String(selected.matches)],
+        ['WINS', `${selected.wins} (${winRate}%)`],
+        ['KILLS', String(selected.kills)],
+        ['DEATHS', String(selected.deaths)],
+        ['SELF-KILLS', String(selected.suicides)],
+        ['K/D', (selected.kills / Math.max(1, selected.deaths)).toFixed(2)],
+        ['FAV MAP', favouriteMap(selected)?.toUpperCase() ?? '-'],
+        ['ACHIEVEMENTS', `${ACHIEVEMENTS.filter(a => selected.achievements[a.id]).length} / ${ACHIEVEMENTS.length}`],
+      ];
+      lines.forEach(([label, value], i) => {
+        const y = listY + 40 + i * 18;
+        PixelFont.drawText(ctx, label, detailX, y, 1, RETRO_PALETTE.uiLight);
+        PixelFont.drawText(ctx, value, detailX + 100, y, 1, RETRO_PALETTE.uiWhite);
+      });
+
+      const keysY = listY + 180;
+      PixelFont.drawText(ctx, selected.bindings ? 'KEYS' : 'KEYS - SLOT DEFAULTS', detailX, keysY, 1, RETRO_PALETTE.uiLight);
+      if (selected.bindings) {
+        BINDING_ACTIONS.forEach((action, i) => {
+          const y = keysY + 16 + Math.floor(i / 2) * 14;
+          const x = detailX + (i % 2) * 140;
+          PixelFont.drawText(ctx, `${action}: ${keyLabel(selected.bindings![action])}`, x, y, 1, RETRO_PALETTE.uiWhite);
+        });
+      }
+    } else {
+      const help = state.naming !== null ? 'TYPE A NAME - ENTER TO SAVE' : 'ENTER: NEW PROFILE';
+      PixelFont.drawText(ctx, help, detailX, listY, 1, RETRO_PALETTE.uiLight);
+    }
+
+    // Seats for this match
+    const seatsY = 480;
+    const seatWidth = CANVAS_WIDTH / state.humanSlots.length;
+    state.humanSlots.forEach((slot, i) => {
+      const name = state.profiles.find(p => p.id === state.seats[slot])?.name ?? 'GUEST';
+      PixelFont.drawTextCentered(ctx, `P${slot + 1}: ${name}`, seatWidth * (i + 0.5), seatsY, 2, playerColors[slot]);
+    });
+
+    if (state.rebinding) {
+      ctx.fillStyle = 'rgba(0, 0, 0, 0.85)';
+      ctx.fillRect(0, CANVAS_HEIGHT / 2 - 50, CANVAS_WIDTH, 100);
+      PixelFont.drawTextCentered(ctx, `PRESS A KEY FOR ${state.rebinding.toUpperCase()}`, CANVAS_WIDTH / 2, CANVAS_HEIGHT / 2 - 20, 3, RETRO_PALETTE.uiGold);
+      PixelFont.drawTextCentered(ctx, 'ESC: CANCEL', CANVAS_WIDTH / 2, CANVAS_HEIGHT / 2 + 20, 1, RETRO_PALETTE.uiLight);
+    }
+    if (state.confirmDelete && selected) {
+      PixelFont.drawTextCentered(ctx, `PRESS X AGAIN TO DELETE ${selected.name}`, CANVAS_WIDTH / 2, 520, 1, RETRO_PALETTE.uiRed);
+    }
+
+    PixelFont.drawTextCentered(ctx, 'UP/DOWN: CHOOSE   ENTER: JOIN/LEAVE   1-4: SEAT IN SLOT', CANVAS_WIDTH / 2, 560, 1, '#888888');
+    PixelFont.drawTextCentered(ctx, 'C: COLOUR   K: KEYS   X: DELETE   H: HISTORY   A: ACHIEVEMENTS   ESC: BACK', CANVAS_WIDTH / 2, 580, 1, '#888888');
+
+    ctx.restore();
+  }
+
+  // Finished matches, newest first, with the highlighted one broken down per player
+  renderHistory(history: MatchRecord[], cursor: number, confirmDelete: boolean): void {
+    const ctx = this.ctx;
+    ctx.save();
+    ctx.scale(this.scale, this.scale);
+
+    ctx.fillStyle = RETRO_PALETTE.uiBlack;
+    ctx.fillRect(0, 0, CANVAS_WIDTH, CANVAS_HEIGHT);
+
+    const playerColors = [
+      RETRO_PALETTE.player1,
+      RETRO_PALETTE.player2,
+      RETRO_PALETTE.player3,
+      RETRO_PALETTE.player4
+    ];
+
+    PixelFont.drawTextWithOutline(ctx, 'MATCH HISTORY', CANVAS_WIDTH / 2, 24, 4, RETRO_PALETTE.uiGold, '#000000');
+
+    if (history.length === 0) {
+      PixelFont.drawTextCentered(ctx, 'NO MATCHES YET', CANVAS_WIDTH / 2, CANVAS_HEIGHT / 2 - 10, 3, '#888888');
+    }
+
+    const winnerText = (record: MatchRecord): { text: string; color: string } => {
+      if (record.winningTeam !== null) return { text: `TEAM ${record.winningTeam + 1} WON`, color: TEAM_COLORS[record.winningTeam] };
+      if (record.winnerIndex !== null) return { text: `${record.participants[record.winnerIndex].name} WON`, color: playerColors[record.winnerIndex] };
+      return { text: 'DRAW', color: '#888888' };
+    };
+
+    // List
+    const listX = 30;
+    const listY = 90;
+    const rowHeight = 30;
+    const visibleRows = 14;
+    const first = Math.max(0, Math.min(cursor - Math.floor(visibleRows / 2), history.length - visibleRows));
+    for (let row = first; row < Math.min(history.length, first + visibleRows); row++) {
+      const record = history[row];
+      const y = listY + (row - first) * rowHeight;
+      if (row === cursor) {
+        ctx.fillStyle = RETRO_PALETTE.uiMid;
+        ctx.fillRect(listX, y - 5, 300, rowHeight - 2);
+      }
+      PixelFont.drawText(ctx, formatDate(record.date), listX + 8, y, 1, RETRO_PALETTE.uiLight);
+      const winner = winnerText(record);
+      PixelFont.drawText(ctx, winner.text, listX + 8, y + 11, 1, winner.color);
+    }
+
+    // Breakdown of the highlighted match
+    const record = history[cursor];
+    if (record) {
+      const detailX = 360;
+      PixelFont.drawText(ctx, record.map, detailX, listY, 2, RETRO_PALETTE.fireOrange);
+      const minutes = Math.floor(record.duration / 60);
+      const seconds = Math.floor(record.duration % 60);
+      PixelFont.drawText(ctx, `${record.rules}   ${record.rounds} ROUNDS   ${minutes}:${String(seconds).padStart(2, '0')}`, detailX, listY + 24, 1, RETRO_PALETTE.uiLight);
+      const winner = winnerText(record);
+      PixelFont.drawText(ctx, winner.text, detailX, listY + 40, 2, winner.color);
+
+      const columns = { name: detailX, kills: detailX + 110, deaths: detailX + 150, bombs: detailX + 190, blocks: detailX + 240, score: detailX + 290 };
+      const headerY = listY + 80;
+      PixelFont.drawText(ctx, 'PLAYER', columns.name, headerY, 1, RETRO_PALETTE.uiLight);
+      PixelFont.drawText(ctx, 'K', columns.kills, headerY, 1, RETRO_PALETTE.uiLight);
+      PixelFont.drawText(ctx, 'D', columns.deaths, headerY, 1, RETRO_PALETTE.uiLight);
+      PixelFont.drawText(ctx, 'BOMBS', columns.bombs, headerY, 1, RETRO_PALETTE.uiLight);
+      PixelFont.drawText(ctx, 'BLOCK', columns.blocks, headerY, 1, RETRO_PALETTE.uiLight);
+      PixelFont.drawText(ctx, 'SCORE', columns.score, headerY, 1, RETRO_PALETTE.uiLight);
+
+      record.participants.forEach((participant, slot) => {
+        const y = headerY + 20 + slot * 22;
+        const stats = record.stats[slot];
+        const name = participant.isAI ? `AI ${participant.difficulty?.toUpperCase() ?? ''}` : participant.name;
+        PixelFont.drawText(ctx, name, columns.name, y, 1, playerColors[slot]);
+        PixelFont.drawText(ctx, String(stats.kills), columns.kills, y, 1, RETRO_PALETTE.uiWhite);
+        PixelFont.drawText(ctx, String(stats.deaths), columns.deaths, y, 1, RETRO_PALETTE.uiWhite);
+        PixelFont.drawText(ctx, String(stats.bombsPlaced), columns.bombs, y, 1, RETRO_PALETTE.uiWhite);
+        PixelFont.drawText(ctx, String(stats.blocksDestroyed), columns.blocks, y, 1, RETRO_PALETTE.uiWhite);
+        PixelFont.drawText(ctx, String(record.scores[slot]), columns.score, y, 1, RETRO_PALETTE.uiWhite);
+      });
+    }
+
+    if (confirmDelete && record) {
+      PixelFont.drawTextCentered(ctx, 'PRESS X AGAIN TO DELETE THIS MATCH', CANVAS_WIDTH / 2, 550, 1, RETRO_PALETTE.uiRed);
+    }
+    PixelFont.drawTextCentered(ctx, 'UP/DOWN: BROWSE   X: DELETE   E: EXPORT JSON   ESC: BACK', CANVAS_WIDTH / 2, 580, 1, '#888888');
+
+    ctx.restore();
+  }
+
+  // Every achievement, with the ones this profile has unlocked lit up
+  renderAchievements(profile: Profile | null): void {
+    const ctx = this.ctx;
+    ctx.save();
+    ctx.scale(this.scale, this.scale);
+
+    ctx.fillStyle = RETRO_PALETTE.uiBlack;
+    ctx.fillRect(0, 0, CANVAS_WIDTH, CANVAS_HEIGHT);
+
+    const playerColors = [
+      RETRO_PALETTE.player1,
+      RETRO_PALETTE.player2,
+      RETRO_PALETTE.player3,
+      RETRO_PALETTE.player4
+    ];
+
+    PixelFont.drawTextWithOutline(ctx, 'ACHIEVEMENTS', CANVAS_WIDTH / 2, 24, 4, RETRO_PALETTE.uiGold, '#000000');
+
+    const unlocked = profile?.achievements ?? {};
+    if (profile) {
+      const count = ACHIEVEMENTS.filter(a => unlocked[a.id]).length;
+      PixelFont.drawTextCentered(ctx, `< ${profile.name} >`, CANVAS_WIDTH / 2, 64, 2, playerColors[profile.color]);
+      PixelFont.drawTextCentered(ctx, `${count} / ${ACHIEVEMENTS.length} UNLOCKED`, CANVAS_WIDTH / 2, 86, 1, RETRO_PALETTE.uiLight);
+    } else {
+      PixelFont.drawTextCentered(ctx, 'NO PROFILES YET', CANVAS_WIDTH / 2, 64, 2, '#888888');
+    }
+
+    // Two columns of cards
+    const cardWidth = 320;
+    const cardHeight = 60;
+    const gap = 12;
+    const startX = (CANVAS_WIDTH - cardWidth * 2 - gap) / 2;
+    const startY = 110;
+    ACHIEVEMENTS.forEach((achievement, i) => {
+      const x = startX + (i % 2) * (cardWidth + gap);
+      const y = startY + Math.floor(i / 2) * (cardHeight + 8);
+      const date = unlocked[achievement.id];
+
+      ctx.fillStyle = date ? RETRO_PALETTE.uiMid : RETRO_PALETTE.uiDark;
+      ctx.fillRect(x, y, cardWidth, cardHeight);
+      if (date) {
+        ctx.fillStyle = RETRO_PALETTE.uiGold;
+        ctx.fillRect(x, y, 4, cardHeight);
+      }
+
+      PixelFont.drawText(ctx, achievement.name, x + 14, y + 8, 2, date ? RETRO_PALETTE.uiGold : '#888888');
+      PixelFont.drawText(ctx, achievement.description, x + 14, y + 28, 1, date ? RETRO_PALETTE.uiWhite : '#888888');
+      PixelFont.drawText(ctx, date ? formatDate(date) : 'LOCKED', x + 14, y + 44, 1, date ? RETRO_PALETTE.uiLight : '#555555');
+    });
+
+    PixelFont.drawTextCentered(ctx, 'LEFT/RIGHT: PROFILE   ESC: BACK', CANVAS_WIDTH / 2, 580, 1, '#888888');
+
+    ctx.restore();
+  }
+
+  // Scoreboard between rounds: who took the round, trophies, points and the match MVP so far
+  renderIntermission(players: Player[], match: MatchProgress, scoreManager: ScoreManager, secondsLeft: number): void {
+    const ctx = this.ctx;
+    ctx.save();
+    ctx.scale(this.scale, this.scale);
+
+    ctx.fillStyle = 'rgba(0, 0, 0, 0.85)';
+    ctx.fillRect(0, 0, CANVAS_WIDTH, CANVAS_HEIGHT);
+
+    const centerX = CANVAS_WIDTH / 2;
+    const result = match.getLastResult();
+    const playerColors = [
+      RETRO_PALETTE.player1,
+      RETRO_PALETTE.player2,
+      RETRO_PALETTE.player3,
+      RETRO_PALETTE.player4
+    ];
+    const colorNames = ['RED', 'BLUE', 'GREEN', 'YELLOW'];
+
+    PixelFont.drawTextWithOutline(ctx, `ROUND ${result?.round ?? 1} OVER`, centerX, 50, 4, RETRO_PALETTE.uiGold, '#000000');
+
+    let headline = 'DRAW - NO TROPHY';
+    let headlineColor = '#888888';
+    if (result?.winningTeam != null) {
+      headline = `TEAM ${result.winningTeam + 1} TAKES THE ROUND`;
+      headlineColor = TEAM_COLORS[result.winningTeam];
+    } else if (result?.winnerIndex != null) {
+      headline = `${colorNames[result.winnerIndex]} PLAYER TAKES THE ROUND`;
+      headlineColor = playerColors[result.winnerIndex];
+    }
+    PixelFont.drawTextCentered(ctx, headline, centerX, 110, 2, headlineColor);
+
+    // Table
+    const columns = { name: 90, trophies: 230, round: 350, total: 430, lasted: 510, combo: 590 };
+    const headerY = 170;
+    PixelFont.drawText(ctx, 'PLAYER', columns.name, headerY, 1, RETRO_PALETTE.uiLight);
+    PixelFont.drawText(ctx, 'TROPHIES', columns.trophies, headerY, 1, RETRO_PALETTE.uiLight);
+    PixelFont.drawText(ctx, 'ROUND', columns.round, headerY, 1, RETRO_PALETTE.uiLight);
+    PixelFont.drawText(ctx, 'TOTAL', columns.total, headerY, 1, RETRO_PALETTE.uiLight);
+    PixelFont.drawText(ctx, 'LASTED', columns.lasted, headerY, 1, RETRO_PALETTE.uiLight);
+    PixelFont.drawText(ctx, 'COMBO', columns.combo, headerY, 1, RETRO_PALETTE.uiLight);
+
+    const roundWins = match.getRoundWins();
+    const mvp = match.getMvpIndex(scoreManager);
+
+    for (const player of players) {
+      const i = player.playerIndex;
+      const rowY = headerY + 24 + i * 48;
+
+      ctx.fillStyle = i % 2 === 0 ? RETRO_PALETTE.uiDark : RETRO_PALETTE.uiBlack;
+      ctx.fillRect(columns.name - 20, rowY - 10, CANVAS_WIDTH - 2 * (columns.name - 20), 40);
+      ctx.fillStyle = playerColors[i];
+      ctx.fillRect(columns.name - 20, rowY - 10, 6, 40);
+
+      PixelFont.drawText(ctx, `P${i + 1}`, columns.name, rowY, 2, playerColors[i]);
+      if (player.team !== null) {
+        PixelFont.drawText(ctx, `T${player.team + 1}`, columns.name + 44, rowY + 4, 1, TEAM_COLORS[player.team]);
+      }
+      if (i === mvp) {
+        PixelFont.drawText(ctx, 'MVP', columns.name + 44, rowY + 14, 1, RETRO_PALETTE.uiGold);
+      }
+
+      // One cup per round won, empty slots up to the target
+      for (let t = 0; t < match.roundsToWin; t++) {
+        const cupX = columns.trophies + t * 16;
+        ctx.fillStyle = t < roundWins[i] ? RETRO_PALETTE.uiGold : RETRO_PALETTE.uiMid;
+        ctx.fillRect(cupX, rowY, 12, 8);
+        ctx.fillRect(cupX + 4, rowY + 8, 4, 4);
+        ctx.fillRect(cupX + 2, rowY + 12, 8, 3);
+      }
+
+      PixelFont.drawText(ctx, `+${result?.points[i] ?? 0}`, columns.round, rowY, 2, RETRO_PALETTE.uiWhite);
+      PixelFont.drawText(ctx, String(scoreManager.getScore(i)), columns.total, rowY, 2, RETRO_PALETTE.uiWhite);
+      PixelFont.drawText(ctx, `${Math.floor(result?.survivalTimes[i] ?? 0)}S`, columns.lasted, rowY, 2, RETRO_PALETTE.uiWhite);
+      const bestCombo = result?.bestCombos[i] ?? 0;
+      PixelFont.drawText(ctx, bestCombo >= 2 ? `X${bestCombo}` : '-', columns.combo, rowY, 2, bestCombo >= 4 ? RETRO_PALETTE.fireOrange : RETRO_PALETTE.uiWhite);
+    }
+
+    PixelFont.drawTextCentered(ctx, `FIRST TO ${match.roundsToWin} ROUND WINS TAKES THE MATCH`, centerX, CANVAS_HEIGHT - 90, 1, '#aaaaaa');
+    PixelFont.drawTextCentered(ctx, `NEXT ROUND IN ${Math.max(0, secondsLeft)}`, centerX, CANVAS_HEIGHT - 60, 2, RETRO_PALETTE.uiGold);
+
+    ctx.restore();
+  }
+
+  renderMainMenu(playerCount: number = 2, isSinglePlayer: boolean = false, aiDifficulty: 'easy' | 'medium' | 'hard' = 'medium', selectedMap?: MapData, teamMode: TeamMode = 'none', friendlyFire: boolean = true, roundsToWin: number = 1, suddenDeath: boolean = true, revenge: boolean = false, lives: number = 1, rules: string = 'CLASSIC', slotNames: (string | null)[] = []): void {
     this.ctx.save();
     this.ctx.scale(this.scale, this.scale);
     const time = Date.now();
@@ -878,13 +1678,13 @@ export class Renderer {
     this.drawFloatingBombs(time);
 
     // Draw pixel characters
-    this.drawMenuCharacters(time, playerCount, isSinglePlayer);
+    this.drawMenuCharacters(time, playerCount, isSinglePlayer, slotNames);
 
     // Pixel title
     this.drawBouncyTitle(time);
 
     // Mode selection panel
-    this.drawMenuPanel(time, playerCount, isSinglePlayer, aiDifficulty, selectedMap);
+    this.drawMenuPanel(time, playerCount, isSinglePlayer, aiDifficulty, selectedMap, teamMode, friendlyFire, roundsToWin, suddenDeath, revenge, lives, rules);
 
     // Start instruction - blinking text
     const blink = Math.floor(time / 500) % 2 === 0;
@@ -992,7 +1792,7 @@ export class Renderer {
     });
   }
 
-  private drawMenuCharacters(time: number, playerCount: number, isSinglePlayer: boolean): void {
+  private drawMenuCharacters(time: number, playerCount: number, isSinglePlayer: boolean, slotNames: (string | null)[]): void {
     const ctx = this.ctx;
     const playerColors = [
       RETRO_PALETTE.player1,
@@ -1017,6 +1817,12 @@ export class Renderer {
       const bounceY = bounceOffsets[bouncePhase];
 
       this.drawPixelCharacter(ctx, pos.x, pos.baseY + bounceY, playerColors[i], time, i);
+
+      // Profile seated in this slot
+      const name = slotNames[i];
+      if (name) {
+        PixelFont.drawTextCentered(ctx, name, pos.x, pos.baseY + 28, 1, playerColors[i], '#000000');
+      }
     }
   }
 
@@ -1144,7 +1950,7 @@ export class Renderer {
     PixelFont.drawTextCentered(ctx, 'CLASSIC ARENA ACTION', CANVAS_WIDTH / 2, baseY + 60, 2, RETRO_PALETTE.uiLight);
   }
 
-  private drawMenuPanel(time: number, playerCount: number, isSinglePlayer: boolean, aiDifficulty: 'easy' | 'medium' | 'hard', selectedMap?: MapData): void {
+  private drawMenuPanel(time: number, playerCount: number, isSinglePlayer: boolean, aiDifficulty: 'easy' | 'medium' | 'hard', selectedMap: MapData | undefined, teamMode: TeamMode, friendlyFire: boolean, roundsToWin: number, suddenDeath: boolean, revenge: boolean, lives: number, rules: string): void {
     const ctx = this.ctx;
     const panelX = CANVAS_WIDTH / 2 - 180;
     const panelY = 150;
@@ -1256,7 +2062,9 @@ export class Renderer {
     PixelFont.drawText(ctx, '>', CANVAS_WIDTH / 2 + 105 + arrowBounce, mapDisplayY, 2, RETRO_PALETTE.uiGold);
 
     // Hint text
-    PixelFont.drawTextCentered(ctx, 'PRESS Z TO CHANGE MAP', CANVAS_WIDTH / 2, mapDisplayY + 25, 1, RETRO_PALETTE.uiLight);
+    const format = ROUND_FORMATS.find(f => f.roundsToWin === roundsToWin)?.label ?? `FIRST TO ${roundsToWin}`;
+    PixelFont.drawTextCentered(ctx, `Z: MAP   B: ${format}   R: RULES ${rules}   P: PROFILES`, CANVAS_WIDTH / 2, mapDisplayY + 25, 1, RETRO_PALETTE.uiLight);
+    PixelFont.drawTextCentered(ctx, `D: SUDDEN DEATH ${suddenDeath ? 'ON' : 'OFF'}   G: REVENGE ${revenge ? 'ON' : 'OFF'}   H: LIVES ${lives}`, CANVAS_WIDTH / 2, mapDisplayY + 37, 1, RETRO_PALETTE.uiLight);
 
     // Player indicators
     const indicatorY = panelY + panelHeight - 50;
@@ -1267,7 +2075,10 @@ export class Renderer {
       RETRO_PALETTE.player4
     ];
 
-    PixelFont.drawTextCentered(ctx, 'PLAYERS', CANVAS_WIDTH / 2, indicatorY - 20, 1, RETRO_PALETTE.uiLight);
+    const teamLabel = teamMode === 'none'
+      ? 'PLAYERS - FREE FOR ALL (T: TEAMS)'
+      : `PLAYERS - ${teamMode.toUpperCase()} TEAMS (T)  FRIENDLY FIRE ${friendlyFire ? 'ON' : 'OFF'} (F)`;
+    PixelFont.drawTextCentered(ctx, teamLabel, CANVAS_WIDTH / 2, indicatorY - 20, 1, RETRO_PALETTE.uiLight);
 
     const numIndicators = isSinglePlayer ? 4 : playerCount;
     const indicatorSpacing = 36;
@@ -1281,6 +2092,13 @@ export class Renderer {
       const blinkPhase = Math.floor(time / 200 + i * 50) % 3;
       const showBorder = blinkPhase !== 0;
 
+      // Team color behind the indicator
+      const team = teamForSlot(teamMode, i);
+      if (team !== null) {
+        ctx.fillStyle = TEAM_COLORS[team];
+        ctx.fillRect(x - size / 2 - 5, indicatorY - size / 2 - 5, size + 10, size + 10);
+      }
+
       // Indicator box
       ctx.fillStyle = playerColors[i];
       ctx.fillRect(x - size / 2, indicatorY - size / 2, size, size);
@@ -1392,10 +2210,139 @@ export class Renderer {
 
     // Instruction text
     PixelFont.drawTextCentered(this.ctx, 'PRESS ESC TO RESUME', centerX, centerY + 60, 2, '#aaaaaa');
+    PixelFont.drawTextCentered(this.ctx, 'S: SAVE GAME  (L IN MENU TO LOAD)', centerX, centerY + 90, 1, '#888888');
 
     this.ctx.restore();
   }
 
+  renderReplayOverlay(speed: number, isPaused: boolean, frame: number, totalFrames: number): void {
+    this.ctx.save();
+    this.ctx.scale(this.scale, this.scale);
+
+    const centerX = CANVAS_WIDTH / 2;
+    const panelWidth = 260;
+    const panelHeight = 36;
+    const panelX = Math.floor(centerX - panelWidth / 2);
+    const panelY = CANVAS_HEIGHT - panelHeight - 5;
+
+    this.ctx.fillStyle = RETRO_PALETTE.uiBlack;
+    this.ctx.fillRect(panelX, panelY, panelWidth, panelHeight);
+    this.ctx.fillStyle = RETRO_PALETTE.uiLight;
+    this.ctx.fillRect(panelX, panelY, panelWidth, 2);
+
+    // Blinking record-style dot + status
+    const blink = Math.floor(Date.now() / 500) % 2 === 0;
+    if (blink || isPaused) {
+      this.ctx.fillStyle = RETRO_PALETTE.uiRed;
+      this.ctx.fillRect(panelX + 8, panelY + 8, 6, 6);
+    }
+    const status = isPaused ? 'REPLAY PAUSED' : `REPLAY ${speed}X`;
+    PixelFont.drawText(this.ctx, status, panelX + 20, panelY + 7, 1, RETRO_PALETTE.uiWhite);
+
+    // Progress bar
+    const progress = totalFrames > 0 ? Math.min(1, frame / totalFrames) : 0;
+    const barX = panelX + 150;
+    const barWidth = panelWidth - 160;
+    this.ctx.fillStyle = RETRO_PALETTE.uiDark;
+    this.ctx.fillRect(barX, panelY + 9, barWidth, 4);
+    this.ctx.fillStyle = RETRO_PALETTE.uiGold;
+    this.ctx.fillRect(barX, panelY + 9, Math.floor(barWidth * progress), 4);
+
+    PixelFont.drawText(this.ctx, 'P: PAUSE  .: STEP  -/+: SPEED  ESC: EXIT', panelX + 8, panelY + 22, 1, '#888888');
+
+    this.ctx.restore();
+  }
+
+  renderSpectatorOverlay(viewLabel: string, delaySeconds: number, spectators: number): void {
+    this.ctx.save();
+    this.ctx.scale(this.scale, this.scale);
+
+    const centerX = CANVAS_WIDTH / 2;
+    const panelWidth = 300;
+    const panelHeight = 36;
+    const panelX = Math.floor(centerX - panelWidth / 2);
+    const panelY = CANVAS_HEIGHT - panelHeight - 5;
+
+    this.ctx.fillStyle = RETRO_PALETTE.uiBlack;
+    this.ctx.fillRect(panelX, panelY, panelWidth, panelHeight);
+    this.ctx.fillStyle = RETRO_PALETTE.uiLight;
+    this.ctx.fillRect(panelX, panelY, panelWidth, 2);
+
+    const status = `SPECTATING - ${viewLabel}`;
+    PixelFont.drawText(this.ctx, status, panelX + 8, panelY + 7, 1, RETRO_PALETTE.uiWhite);
+    const info = `${delaySeconds}S DELAY  ${spectators} WATCHING`;
+    PixelFont.drawText(this.ctx, info, panelX + panelWidth - 8 - PixelFont.measureText(info, 1), panelY + 7, 1, RETRO_PALETTE.uiGold);
+
+    PixelFont.drawText(this.ctx, '0: ALL  1-4: FOLLOW  F: FREE  V: NEXT  ESC: LEAVE', panelX + 8, panelY + 22, 1, '#888888');
+
+    this.ctx.restore();
+  }
+
+  renderLobby(lobby: LobbyState | null, yourSlot: number | null, mapName: string, spectating: boolean = false): void {
+    const ctx = this.ctx;
+    ctx.save();
+    ctx.scale(this.scale, this.scale);
+
+    ctx.fillStyle = RETRO_PALETTE.uiBlack;
+    ctx.fillRect(0, 0, CANVAS_WIDTH, CANVAS_HEIGHT);
+
+    const centerX = CANVAS_WIDTH / 2;
+
+    if (!lobby) {
+      PixelFont.drawTextCentered(ctx, 'CONNECTING...', centerX, CANVAS_HEIGHT / 2, 3, RETRO_PALETTE.uiWhite);
+      ctx.restore();
+      return;
+    }
+
+    PixelFont.drawTextWithOutline(ctx, `ROOM ${lobby.roomCode}`, centerX, 70, 5, RETRO_PALETTE.uiGold, RETRO_PALETTE.uiBlack);
+    PixelFont.drawTextCentered(ctx, `MAP: ${mapName.toUpperCase()}`, centerX, 130, 2, '#aaaaaa');
+
+    const playerColors = [
+      RETRO_PALETTE.player1,
+      RETRO_PALETTE.player2,
+      RETRO_PALETTE.player3,
+      RETRO_PALETTE.player4
+    ];
+
+    const rowWidth = 360;
+    const rowHeight = 44;
+    const rowX = Math.floor(centerX - rowWidth / 2);
+
+    lobby.slots.forEach((slot, index) => {
+      const y = 170 + index * (rowHeight + 10);
+      const isYou = index === yourSlot;
+
+      ctx.fillStyle = isYou ? RETRO_PALETTE.uiMid : RETRO_PALETTE.uiDark;
+      ctx.fillRect(rowX, y, rowWidth, rowHeight);
+      ctx.fillStyle = playerColors[index];
+      ctx.fillRect(rowX, y, 6, rowHeight);
+
+      PixelFont.drawText(ctx, `P${index + 1}`, rowX + 16, y + 14, 2, playerColors[index]);
+      const name = slot.occupant === 'human' ? slot.name + (isYou ? ' (YOU)' : '') : 'BOT';
+      PixelFont.drawText(ctx, name, rowX + 70, y + 14, 2, slot.occupant === 'human' ? RETRO_PALETTE.uiWhite : '#888888');
+
+      if (slot.occupant === 'human') {
+        const status = slot.ready ? 'READY' : 'WAITING';
+        PixelFont.drawText(ctx, status, rowX + rowWidth - 100, y + 14, 2, slot.ready ? RETRO_PALETTE.uiGreen : RETRO_PALETTE.uiRed);
+      }
+    });
+
+    if (lobby.spectators > 0) {
+      const watching = `${lobby.spectators} SPECTATOR${lobby.spectators === 1 ? '' : 'S'} WATCHING`;
+      PixelFont.drawTextCentered(ctx, watching, centerX, CANVAS_HEIGHT - 80, 1, RETRO_PALETTE.uiGold);
+    }
+
+    let hint: string;
+    if (spectating) {
+      hint = lobby.inMatch ? 'SPECTATING - WAITING FOR THE BROADCAST  ESC: LEAVE' : 'SPECTATING - WAITING FOR PLAYERS  ESC: LEAVE';
+    } else {
+      hint = lobby.inMatch ? 'MATCH IN PROGRESS - WAIT FOR THE NEXT ONE' : '1-4: PICK SLOT  SPACE: READY  Z: MAP  ESC: LEAVE';
+    }
+    PixelFont.drawTextCentered(ctx, hint, centerX, CANVAS_HEIGHT - 50, 1, '#888888');
+
+    ctx.restore();
+  }
+
   getContext(): CanvasRenderingContext2D {
     return this.ctx;
   }
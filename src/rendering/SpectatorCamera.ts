@@ -0,0 +1,117 @@
+import { CANVAS_WIDTH, CANVAS_HEIGHT, TILE_SIZE } from '../constants';
+import { Player } from '../entities/Player';
+import { Camera } from './Camera';
+
+export type SpectatorView = 'overview' | 'follow' | 'free';
+
+const FOLLOW_ZOOM = 1.6;
+const FREE_PAN_SPEED = 360;      // World pixels per second
+const MIN_ZOOM = 1;
+const MAX_ZOOM = 2.5;
+const ZOOM_STEP = 0.25;
+const SWITCH_AFTER_DEATH = 2;    // Seconds to watch a death before following someone else
+
+// Drives the Camera for spectators: whole-arena overview, following one
+// player, or a free camera panned and zoomed by hand
+export class SpectatorCamera {
+  private view: SpectatorView = 'overview';
+  private followIndex: number = 0;
+  private deadTimer: number = 0;
+  private freeZoom: number = 1.5;
+  private freeCenter = { x: CANVAS_WIDTH / 2, y: CANVAS_HEIGHT / 2 };
+
+  constructor(private camera: Camera) {}
+
+  getView(): SpectatorView {
+    return this.view;
+  }
+
+  getFollowIndex(): number | null {
+    return this.view === 'follow' ? this.followIndex : null;
+  }
+
+  // Short name of the current view for the overlay
+  getLabel(): string {
+    switch (this.view) {
+      case 'overview': return 'OVERVIEW';
+      case 'follow': return `FOLLOWING P${this.followIndex + 1}`;
+      case 'free': return 'FREE CAMERA';
+    }
+  }
+
+  showOverview(): void {
+    this.view = 'overview';
+    this.camera.resetView();
+  }
+
+  follow(playerIndex: number): void {
+    this.view = 'follow';
+    this.followIndex = playerIndex;
+    this.deadTimer = 0;
+    this.camera.zoomTo(FOLLOW_ZOOM, 0.3);
+  }
+
+  freeLook(): void {
+    // Start from wherever the camera is looking now
+    this.freeCenter = this.camera.getCenter() ?? { x: CANVAS_WIDTH / 2, y: CANVAS_HEIGHT / 2 };
+    this.view = 'free';
+    this.camera.lookAt(this.freeCenter.x, this.freeCenter.y);
+    this.camera.zoomTo(this.freeZoom, 0.3);
+  }
+
+  // Overview -> each player -> free camera -> overview (one button for a projector remote)
+  cycle(playerCount: number): void {
+    if (this.view === 'overview') {
+      this.follow(0);
+    } else if (this.view === 'follow' && this.followIndex < playerCount - 1) {
+      this.follow(this.followIndex + 1);
+    } else if (this.view === 'follow') {
+      this.freeLook();
+    } else {
+      this.showOverview();
+    }
+  }
+
+  // Free camera only; dx/dy in -1..1
+  pan(dx: number, dy: number, deltaTime: number): void {
+    if (this.view !== 'free') return;
+
+    this.freeCenter.x = Math.max(0, Math.min(CANVAS_WIDTH, this.freeCenter.x + dx * FREE_PAN_SPEED * deltaTime));
+    this.freeCenter.y = Math.max(0, Math.min(CANVAS_HEIGHT, this.freeCenter.y + dy * FREE_PAN_SPEED * deltaTime));
+    this.camera.lookAt(this.freeCenter.x, this.freeCenter.y);
+  }
+
+  zoom(steps: number): void {
+    if (this.view !== 'free') return;
+
+    this.freeZoom = Math.max(MIN_ZOOM, Math.min(MAX_ZOOM, this.freeZoom + steps * ZOOM_STEP));
+    this.camera.zoomTo(this.freeZoom, 0.15);
+  }
+
+  update(players: Player[], deltaTime: number): void {
+    if (this.view !== 'follow') return;
+
+    const target = players[this.followIndex];
+    if (!target) return;
+
+    // Auto-follow: once the followed player is gone, move on to the next one still alive
+    if (!target.isPlayerAlive()) {
+      this.deadTimer += deltaTime;
+      const next = this.findNextAlive(players);
+      if (this.deadTimer >= SWITCH_AFTER_DEATH && next !== null) {
+        this.follow(next);
+        return;
+      }
+    }
+
+    this.camera.lookAt(target.position.pixelX + TILE_SIZE / 2, target.position.pixelY + TILE_SIZE / 2);
+  }
+
+  private findNextAlive(players: Player[]): number | null {
+    for (let offset = 1; offset < players.length; offset++) {
+      const index = (this.followIndex + offset) % players.length;
+      if (players[index].isPlayerAlive()) return index;
+    }
+    return null;
+  }
+}
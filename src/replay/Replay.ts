@@ -0,0 +1,51 @@
+import { PlayerInput, encodeInput, decodeInput } from '../core/PlayerInput';
+import { PlayerSetup } from '../core/MatchSetup';
+import { GameRules } from '../rules/GameRules';
+
+export const REPLAY_VERSION = 1;
+
+export interface ReplayData {
+  version: number;
+  seed: number;
+  mapIndex: number;
+  isSinglePlayer: boolean;
+  players: PlayerSetup[];
+  friendlyFire?: boolean;   // Missing in older files = on
+  roundsToWin?: number;     // Missing in older files = single round
+  suddenDeath?: boolean;    // Missing in older files = off (it didn't exist yet)
+  revenge?: boolean;        // Missing = off
+  lives?: number;           // Missing = 1
+  rules?: GameRules;        // The full rules, not just the preset name; missing = classic
+  frameCount: number;
+  // Run-length encoded ticks: [repeat count, one input symbol per player]
+  frames: [number, string][];
+}
+
+// Match options a replay carries besides its seed, players and inputs
+export type ReplaySettings = Pick<ReplayData,
+  'mapIndex' | 'isSinglePlayer' | 'friendlyFire' | 'roundsToWin' | 'suddenDeath' | 'revenge' | 'lives' | 'rules'>;
+
+export function encodeFrame(inputs: PlayerInput[]): string {
+  return inputs.map(encodeInput).join('');
+}
+
+export function decodeFrame(frame: string): PlayerInput[] {
+  return Array.from(frame, decodeInput);
+}
+
+export function serializeReplay(replay: ReplayData): string {
+  return JSON.stringify(replay);
+}
+
+export function parseReplay(json: string): ReplayData {
+  const data = JSON.parse(json) as ReplayData;
+
+  if (data.version !== REPLAY_VERSION) {
+    throw new Error(`Unsupported replay version: ${data.version}`);
+  }
+  if (!Array.isArray(data.players) || !Array.isArray(data.frames)) {
+    throw new Error('Malformed replay file');
+  }
+
+  return data;
+}
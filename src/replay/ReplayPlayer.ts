@@ -0,0 +1,93 @@
+import { PlayerInput, NO_INPUT } from '../core/PlayerInput';
+import { ReplayData, decodeFrame } from './Replay';
+
+export const REPLAY_SPEEDS = [0.25, 0.5, 1, 2, 4];
+
+// Feeds recorded inputs back one tick at a time and owns the playback controls
+export class ReplayPlayer {
+  readonly replay: ReplayData;
+
+  private runIndex: number = 0;
+  private runOffset: number = 0;
+  private frameIndex: number = 0;
+  private currentFrame: PlayerInput[] = [];
+
+  private paused: boolean = false;
+  private speedIndex: number = REPLAY_SPEEDS.indexOf(1);
+  private accumulator: number = 0;
+  private pendingSteps: number = 0;
+
+  constructor(replay: ReplayData) {
+    this.replay = replay;
+  }
+
+  nextInputs(): PlayerInput[] {
+    if (this.isFinished()) {
+      return this.replay.players.map(() => NO_INPUT);
+    }
+
+    const [count, frame] = this.replay.frames[this.runIndex];
+    if (this.runOffset === 0) {
+      this.currentFrame = decodeFrame(frame);
+    }
+
+    this.runOffset++;
+    if (this.runOffset >= count) {
+      this.runIndex++;
+      this.runOffset = 0;
+    }
+    this.frameIndex++;
+
+    return this.currentFrame;
+  }
+
+  isFinished(): boolean {
+    return this.runIndex >= this.replay.frames.length;
+  }
+
+  // How many ticks to simulate for this real tick, given speed and pause state
+  consumeTicks(): number {
+    if (this.paused) {
+      const steps = this.pendingSteps;
+      this.pendingSteps = 0;
+      return steps;
+    }
+
+    this.accumulator += REPLAY_SPEEDS[this.speedIndex];
+    const ticks = Math.floor(this.accumulator);
+    this.accumulator -= ticks;
+    return ticks;
+  }
+
+  togglePause(): void {
+    this.paused = !this.paused;
+    this.accumulator = 0;
+  }
+
+  // Advance exactly one tick while paused
+  step(): void {
+    if (this.paused) {
+      this.pendingSteps++;
+    }
+  }
+
+  faster(): void {
+    this.speedIndex = Math.min(REPLAY_SPEEDS.length - 1, this.speedIndex + 1);
+  }
+
+  slower(): void {
+    this.speedIndex = Math.max(0, this.speedIndex - 1);
+  }
+
+  isPaused(): boolean {
+    return this.paused;
+  }
+
+  getSpeed(): number {
+    return REPLAY_SPEEDS[this.speedIndex];
+  }
+
+  getFrameIndex(): number {
+    return this.frameIndex;
+  }
+}
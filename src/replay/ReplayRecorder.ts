@@ -0,0 +1,39 @@
+import { PlayerInput } from '../core/PlayerInput';
+import { PlayerSetup } from '../core/MatchSetup';
+import { ReplayData, ReplaySettings, REPLAY_VERSION, encodeFrame } from './Replay';
+
+// Collects one frame of inputs per simulated tick, run-length encoded as it goes
+// (players hold the same keys for long stretches, so this stays small)
+export class ReplayRecorder {
+  private frames: [number, string][] = [];
+  private frameCount: number = 0;
+
+  constructor(private seed: number, private settings: ReplaySettings) {}
+
+  record(inputs: PlayerInput[]): void {
+    const frame = encodeFrame(inputs);
+    const last = this.frames[this.frames.length - 1];
+
+    if (last && last[1] === frame) {
+      last[0]++;
+    } else {
+      this.frames.push([1, frame]);
+    }
+    this.frameCount++;
+  }
+
+  getFrameCount(): number {
+    return this.frameCount;
+  }
+
+  build(players: PlayerSetup[]): ReplayData {
+    return {
+      version: REPLAY_VERSION,
+      seed: this.seed,
+      ...this.settings,
+      players,
+      frameCount: this.frameCount,
+      frames: this.frames.map(([count, frame]) => [count, frame]),
+    };
+  }
+}
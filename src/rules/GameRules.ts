@@ -0,0 +1,82 @@
+import { PowerUpType } from '../entities/PowerUp';
+import classic from './presets/classic.json';
+import chaos from './presets/chaos.json';
+import noItems from './presets/no-items.json';
+
+export interface PlayerStats {
+  bombs: number;
+  range: number;
+  speed: number;  // tiles per second
+}
+
+// Points for each death, to the players behind it
+export interface ScoringRules {
+  kill: number;
+  assist: number;   // Each other bomb owner in the chain that did it
+  suicide: number;  // To a player caught in their own flames (usually negative)
+}
+
+// Everything a match can tune without touching code - presets live in ./presets as JSON
+export interface GameRules {
+  id: string;
+  name: string;                 // Shown in the menu
+  roundTime: number;            // seconds
+  fuseTime: number;             // seconds from placing a bomb to its explosion
+  powerUpSpawnChance: number;   // per destroyed block
+  dropWeights: Partial<Record<PowerUpType, number>>;  // Missing = never drops
+  start: PlayerStats;           // Loadout at spawn, and again after every death
+  caps: PlayerStats;            // Power-ups can't raise stats past these
+  scoring: ScoringRules;
+}
+
+// For rules written before scoring was configurable (older replays and rule files)
+const DEFAULT_SCORING: ScoringRules = { kill: 100, assist: 50, suicide: -50 };
+
+const POWER_UP_TYPES = new Set<string>(Object.values(PowerUpType));
+
+function isNumber(value: unknown): value is number {
+  return typeof value === 'number' && Number.isFinite(value);
+}
+
+function isPlayerStats(value: unknown): value is PlayerStats {
+  const stats = value as PlayerStats;
+  return typeof stats === 'object' && stats !== null &&
+    isNumber(stats.bombs) && isNumber(stats.range) && isNumber(stats.speed);
+}
+
+function isScoringRules(value: unknown): value is ScoringRules {
+  const scoring = value as ScoringRules;
+  return typeof scoring === 'object' && scoring !== null &&
+    isNumber(scoring.kill) && isNumber(scoring.assist) && isNumber(scoring.suicide);
+}
+
+// Check a rules object read from JSON (a preset, a replay, a file passed to the test harness)
+export function parseRules(data: unknown): GameRules {
+  const rules = data as GameRules;
+
+  if (typeof rules !== 'object' || rules === null ||
+    typeof rules.id !== 'string' || typeof rules.name !== 'string' ||
+    !isNumber(rules.roundTime) || !isNumber(rules.fuseTime) || !isNumber(rules.powerUpSpawnChance) ||
+    typeof rules.dropWeights !== 'object' || rules.dropWeights === null ||
+    !isPlayerStats(rules.start) || !isPlayerStats(rules.caps) ||
+    (rules.scoring !== undefined && !isScoringRules(rules.scoring))) {
+    throw new Error('Malformed rules');
+  }
+
+  for (const [type, weight] of Object.entries(rules.dropWeights)) {
+    if (!POWER_UP_TYPES.has(type) || !isNumber(weight) || weight < 0) {
+      throw new Error(`Invalid drop weight for ${type}`);
+    }
+  }
+
+  return rules.scoring ? rules : { ...rules, scoring: DEFAULT_SCORING };
+}
+
+// In menu order - the first one is the default
+export const RULE_PRESETS: GameRules[] = [classic, chaos, noItems].map(parseRules);
+
+export const DEFAULT_RULES = RULE_PRESETS[0];
+
+export function findRulePreset(id: string): GameRules | undefined {
+  return RULE_PRESETS.find(rules => rules.id === id);
+}
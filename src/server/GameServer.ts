@@ -0,0 +1,103 @@
+import { WebSocketServer, WebSocket } from 'ws';
+import { Room, RoomClient } from './Room';
+import { ClientMessage, ServerMessage, parseClientMessage, sanitizeName } from '../net/Protocol';
+
+const ROOM_CODE_LENGTH = 4;
+const NAME_MAX_LENGTH = 8;
+const ROOM_CODE_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ';
+
+export class GameServer {
+  private wss: WebSocketServer;
+  private rooms: Map<string, Room> = new Map();
+
+  constructor(port: number) {
+    this.wss = new WebSocketServer({ port });
+    this.wss.on('connection', (socket) => this.onConnection(socket));
+    console.log(`Game server listening on ws://localhost:${port}`);
+  }
+
+  close(): void {
+    this.wss.close();
+  }
+
+  private onConnection(socket: WebSocket): void {
+    let room: Room | null = null;
+    let client: RoomClient | null = null;
+
+    socket.on('message', (data) => {
+      let message: ClientMessage;
+      try {
+        message = parseClientMessage(JSON.parse(data.toString()));
+      } catch {
+        this.sendError(socket, 'Malformed message');
+        return;
+      }
+
+      // Whatever goes wrong handling one client's message costs that client its
+      // connection, not the server (and every other room with it)
+      try {
+        // The first message must be a join; everything else needs a room
+        if (message.type === 'join') {
+          if (room) return;
+          room = this.getOrCreateRoom(sanitizeName(message.roomCode, ROOM_CODE_LENGTH));
+          client = room.join(socket, sanitizeName(message.name, NAME_MAX_LENGTH) || 'PLAYER', message.spectate === true);
+          return;
+        }
+        if (!room || !client) {
+          this.sendError(socket, 'Join a room first');
+          return;
+        }
+
+        switch (message.type) {
+          case 'pick-slot':
+            room.pickSlot(client, message.slot);
+            break;
+          case 'ready':
+            room.setReady(client, message.ready);
+            break;
+          case 'set-map':
+            room.setMap(client, message.mapIndex);
+            break;
+          case 'input':
+            room.sendInput(client, message.input);
+            break;
+        }
+      } catch (error) {
+        console.error('Dropping client after a failed message:', error);
+        socket.close();
+      }
+    });
+
+    socket.on('close', () => {
+      if (!room || !client) return;
+      room.leave(client);
+      if (room.isEmpty()) {
+        this.rooms.delete(room.code);
+      }
+    });
+  }
+
+  // An empty code creates a fresh room with a random one
+  private getOrCreateRoom(code: string): Room {
+    if (!code) {
+      do {
+        code = '';
+        for (let i = 0; i < ROOM_CODE_LENGTH; i++) {
+          code += ROOM_CODE_ALPHABET[Math.floor(Math.random() * ROOM_CODE_ALPHABET.length)];
+        }
+      } while (this.rooms.has(code));
+    }
+
+    let room = this.rooms.get(code);
+    if (!room) {
+      room = new Room(code);
+      this.rooms.set(code, room);
+    }
+    return room;
+  }
+
+  private sendError(socket: WebSocket, text: string): void {
+    const message: ServerMessage = { type: 'error', message: text };
+    socket.send(JSON.stringify(message));
+  }
+}
@@ -0,0 +1,276 @@
+import { fork, ChildProcess } from 'node:child_process';
+import { fileURLToPath } from 'node:url';
+import { WebSocket } from 'ws';
+import { ALL_MAPS } from '../map/TileTypes';
+import { NO_INPUT, PlayerInput } from '../core/PlayerInput';
+import { GameSnapshot } from '../core/GameSnapshot';
+import { applySnapshotDelta } from '../net/StateDelta';
+import { LobbyState, MAX_SLOTS, SPECTATOR_DELAY, ServerMessage } from '../net/Protocol';
+import { TICK_DURATION } from '../constants';
+import { FromSimulation, ToSimulation } from './SimulationProtocol';
+
+// Seconds on the results screen before everyone is sent back to the lobby
+const RESULTS_DURATION = 5;
+
+export interface RoomClient {
+  socket: WebSocket;
+  name: string;
+  slot: number | null;
+  ready: boolean;
+  spectator: boolean;   // Asked to only watch - never gets a seat
+}
+
+interface DelayedMessage {
+  releaseAt: number;
+  message: ServerMessage;
+}
+
+// A lobby plus, while a match runs, the child process simulating it
+export class Room {
+  readonly code: string;
+  private clients: Set<RoomClient> = new Set();
+  private slots: (RoomClient | null)[] = new Array(MAX_SLOTS).fill(null);
+  private mapIndex: number = 0;
+  private simulation: ChildProcess | null = null;
+  private inMatch: boolean = false;
+
+  // Match stream for everyone without a seat, held back by SPECTATOR_DELAY.
+  // spectatorState is what they currently see, used to bring new spectators in.
+  private delayedMessages: DelayedMessage[] = [];
+  private spectatorState: GameSnapshot | null = null;
+  private spectatorTimer: ReturnType<typeof setInterval> | null = null;  // Drains the delay once the match is over
+  private lobbyTimer: ReturnType<typeof setTimeout> | null = null;        // Ends the results screen
+
+  constructor(code: string) {
+    this.code = code;
+  }
+
+  join(socket: WebSocket, name: string, spectator: boolean): RoomClient {
+    const client: RoomClient = { socket, name, slot: null, ready: false, spectator };
+    this.clients.add(client);
+
+    // Take the first free slot; if the room is full (or mid-match) the client just watches
+    const freeSlot = this.slots.indexOf(null);
+    if (!spectator && freeSlot >= 0 && !this.inMatch) {
+      this.slots[freeSlot] = client;
+      client.slot = freeSlot;
+    }
+
+    this.broadcastLobby();
+    if (this.inMatch && this.spectatorState) {
+      this.send(socket, { type: 'state', tick: 0, full: this.spectatorState });
+    }
+    return client;
+  }
+
+  leave(client: RoomClient): void {
+    this.clients.delete(client);
+    if (client.slot !== null) {
+      this.slots[client.slot] = null;
+      // Their player stands still for the rest of the match
+      if (this.inMatch) {
+        this.sendToSimulation({ type: 'input', slot: client.slot, input: NO_INPUT });
+      }
+    }
+
+    if (this.clients.size === 0) {
+      this.stopSimulation();
+    } else {
+      this.broadcastLobby();
+      this.startIfReady();
+    }
+  }
+
+  isEmpty(): boolean {
+    return this.clients.size === 0;
+  }
+
+  pickSlot(client: RoomClient, slot: number): void {
+    if (this.inMatch || client.spectator || !Number.isInteger(slot) || slot < 0 || slot >= MAX_SLOTS || this.slots[slot]) return;
+
+    if (client.slot !== null) {
+      this.slots[client.slot] = null;
+    }
+    this.slots[slot] = client;
+    client.slot = slot;
+    client.ready = false;
+    this.broadcastLobby();
+  }
+
+  setReady(client: RoomClient, ready: boolean): void {
+    if (this.inMatch || client.slot === null) return;
+
+    client.ready = ready;
+    this.broadcastLobby();
+    this.startIfReady();
+  }
+
+  setMap(client: RoomClient, mapIndex: number): void {
+    if (this.inMatch || client.spectator || !Number.isInteger(mapIndex) || mapIndex < 0 || mapIndex >= ALL_MAPS.length) return;
+
+    this.mapIndex = mapIndex;
+    this.broadcastLobby();
+  }
+
+  sendInput(client: RoomClient, input: PlayerInput): void {
+    if (!this.inMatch || client.slot === null) return;
+    this.sendToSimulation({ type: 'input', slot: client.slot, input });
+  }
+
+  private startIfReady(): void {
+    const seated = this.slots.filter((c): c is RoomClient => c !== null);
+    if (this.inMatch || seated.length === 0 || !seated.every(c => c.ready)) return;
+
+    this.inMatch = true;
+    this.delayedMessages = [];
+    this.spectatorState = null;
+    if (!this.simulation) {
+      this.simulation = fork(fileURLToPath(new URL('./RoomSimulation.ts', import.meta.url)), [], {
+        execArgv: ['--import', 'tsx'],
+      });
+      this.simulation.on('message', (message: FromSimulation) => this.onSimulationMessage(message));
+      this.simulation.on('exit', () => {
+        this.simulation = null;
+      });
+    }
+
+    this.sendToSimulation({
+      type: 'start',
+      setup: {
+        mapIndex: this.mapIndex,
+        players: this.slots.map(c => (c ? { isAI: false } : { isAI: true, difficulty: 'medium' })),
+      },
+    });
+    this.broadcastLobby();
+  }
+
+  private onSimulationMessage(message: FromSimulation): void {
+    // A message still in flight when the room went back to the lobby
+    if (!this.inMatch) return;
+
+    switch (message.type) {
+      case 'state': {
+        const { slot, ...state } = message;
+        if (slot === null) {
+          this.delayForSpectators(state);
+        } else {
+          this.sendToSlot(slot, state);
+        }
+        break;
+      }
+
+      case 'match-end':
+        this.broadcastToPlayers(message);
+        this.delayForSpectators(message);
+        // The simulation has stopped sending, so release the rest of the delay on our own
+        this.spectatorTimer = setInterval(() => this.releaseForSpectators(), TICK_DURATION);
+        this.lobbyTimer = setTimeout(() => this.returnToLobby(), RESULTS_DURATION * 1000);
+        break;
+    }
+  }
+
+  // State arrives every tick, so releasing due messages here is smooth enough
+  private delayForSpectators(message: ServerMessage): void {
+    this.delayedMessages.push({ releaseAt: Date.now() + SPECTATOR_DELAY * 1000, message });
+    this.releaseForSpectators();
+  }
+
+  private releaseForSpectators(): void {
+    const now = Date.now();
+    while (this.delayedMessages.length > 0 && this.delayedMessages[0].releaseAt <= now) {
+      const released = this.delayedMessages.shift()!.message;
+      if (released.type === 'state') {
+        if (released.full) {
+          this.spectatorState = released.full;
+        } else if (released.delta && this.spectatorState) {
+          this.spectatorState = applySnapshotDelta(this.spectatorState, released.delta);
+        }
+      }
+
+      const data = JSON.stringify(released);
+      for (const client of this.clients) {
+        if (client.slot === null) this.sendRaw(client.socket, data);
+      }
+    }
+  }
+
+  private returnToLobby(): void {
+    this.inMatch = false;
+    this.stopMatchTimers();
+    this.delayedMessages = [];
+    this.spectatorState = null;
+    for (const client of this.clients) {
+      client.ready = false;
+    }
+
+    // Players who arrived mid-match get any seat that freed up
+    for (const client of this.clients) {
+      const freeSlot = this.slots.indexOf(null);
+      if (client.slot === null && !client.spectator && freeSlot >= 0) {
+        this.slots[freeSlot] = client;
+        client.slot = freeSlot;
+      }
+    }
+
+    this.broadcastLobby();
+  }
+
+  private stopSimulation(): void {
+    this.inMatch = false;
+    this.stopMatchTimers();
+    this.simulation?.disconnect();
+    this.simulation = null;
+  }
+
+  private stopMatchTimers(): void {
+    if (this.spectatorTimer) clearInterval(this.spectatorTimer);
+    this.spectatorTimer = null;
+    if (this.lobbyTimer) clearTimeout(this.lobbyTimer);
+    this.lobbyTimer = null;
+  }
+
+  private sendToSimulation(message: ToSimulation): void {
+    this.simulation?.send(message);
+  }
+
+  private getLobbyState(): LobbyState {
+    return {
+      roomCode: this.code,
+      slots: this.slots.map(c => (c
+        ? { occupant: 'human', name: c.name, ready: c.ready }
+        : { occupant: 'bot', name: 'BOT', ready: true })),
+      mapIndex: this.mapIndex,
+      inMatch: this.inMatch,
+      spectators: Array.from(this.clients).filter(c => c.slot === null).length,
+    };
+  }
+
+  private broadcastLobby(): void {
+    const lobby = this.getLobbyState();
+    for (const client of this.clients) {
+      this.send(client.socket, { type: 'lobby', lobby, yourSlot: client.slot });
+    }
+  }
+
+  private sendToSlot(slot: number, message: ServerMessage): void {
+    const client = this.slots[slot];
+    if (client) this.send(client.socket, message);
+  }
+
+  private broadcastToPlayers(message: ServerMessage): void {
+    const data = JSON.stringify(message);
+    for (const client of this.clients) {
+      if (client.slot !== null) this.sendRaw(client.socket, data);
+    }
+  }
+
+  private send(socket: WebSocket, message: ServerMessage): void {
+    this.sendRaw(socket, JSON.stringify(message));
+  }
+
+  private sendRaw(socket: WebSocket, data: string): void {
+    if (socket.readyState === WebSocket.OPEN) {
+      socket.send(data);
+    }
+  }
+}
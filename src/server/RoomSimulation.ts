@@ -0,0 +1,104 @@
+// Child process entry: runs one room's match headlessly and streams state to the room.
+// Each room gets its own process because EventBus, Random and the other core
+// services are module singletons - two games in one process would share them.
+import { setupGlobalMocks } from '../testing/setupGlobals';
+import { Game } from '../Game';
+import { SoundManager } from '../core/SoundManager';
+import { GamePhase, TICK_DURATION, TICK_RATE } from '../constants';
+import { GameSnapshot } from '../core/GameSnapshot';
+import { isHiddenMine } from '../entities/Mine';
+import { diffSnapshots } from '../net/StateDelta';
+import { ToSimulation, FromSimulation } from './SimulationProtocol';
+
+setupGlobalMocks();
+
+// Nobody listens on the server
+SoundManager.setMuted(true);
+SoundManager.toggleMusicMute();
+
+const fakeCanvas = document.createElement('canvas') as any;
+const game = new Game(fakeCanvas);
+
+let tick = 0;
+let viewers: (number | null)[] = [null];                   // Human slots, plus null for spectators
+let lastSent: Map<number | null, GameSnapshot> = new Map();  // Per viewer
+let sendFull = true;
+let matchEnded = false;
+let timer: ReturnType<typeof setInterval> | null = null;
+
+function send(message: FromSimulation): void {
+  // The room may already be gone while the last tick is still running
+  if (process.connected) {
+    process.send!(message);
+  }
+}
+
+// What a player in `slot` may know: everyone else's hidden mines are left out entirely,
+// so a modified client has nothing to show. Spectators (null) see everything.
+function viewFor(snapshot: GameSnapshot, slot: number | null): GameSnapshot {
+  if (slot === null) return snapshot;
+  const hidden = new Set(snapshot.mines.filter(m => isHiddenMine(m) && m.ownerIndex !== slot).map(m => m.id));
+  if (hidden.size === 0) return snapshot;
+
+  return {
+    ...snapshot,
+    mines: snapshot.mines.filter(m => !hidden.has(m.id)),
+    grid: snapshot.grid.map(row => row.map(cell => (cell?.kind === 'mine' && hidden.has(cell.id) ? null : cell))),
+  };
+}
+
+function runTick(): void {
+  game.step(1 / TICK_RATE);
+  tick++;
+
+  const snapshot = game.createSnapshot();
+  for (const slot of viewers) {
+    const view = viewFor(snapshot, slot);
+    const previous = lastSent.get(slot);
+    if (sendFull || !previous) {
+      send({ type: 'state', slot, tick, full: view });
+    } else {
+      send({ type: 'state', slot, tick, delta: diffSnapshots(previous, view) });
+    }
+    lastSent.set(slot, view);
+  }
+  sendFull = false;
+
+  // Nothing changes on the results screen - stop until the room starts the next match
+  if (!matchEnded && game.getPhase() === GamePhase.GAME_OVER) {
+    matchEnded = true;
+    send({ type: 'match-end', winnerIndex: game.getWinnerIndex() });
+    clearInterval(timer!);
+    timer = null;
+  }
+}
+
+process.on('message', (message: ToSimulation) => {
+  switch (message.type) {
+    case 'start':
+      game.startMatch(message.setup);
+      viewers = [...message.setup.players.flatMap((p, slot) => (p.isAI ? [] : [slot])), null];
+      lastSent = new Map();
+      matchEnded = false;
+      sendFull = true;
+      if (!timer) {
+        timer = setInterval(runTick, TICK_DURATION);
+      }
+      break;
+
+    case 'input':
+      game.setRemoteInput(message.slot, message.input);
+      break;
+  }
+});
+
+// Room went away - nothing left to simulate for
+function shutdown(): void {
+  if (timer) clearInterval(timer);
+  game.destroy();
+  process.exit(0);
+}
+
+process.on('disconnect', shutdown);
+// Server died without disconnecting (EPIPE on the next send)
+process.on('error', shutdown);
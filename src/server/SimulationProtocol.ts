@@ -0,0 +1,15 @@
+import { PlayerInput } from '../core/PlayerInput';
+import { MatchSetup } from '../core/MatchSetup';
+import { GameSnapshot } from '../core/GameSnapshot';
+import { SnapshotDelta } from '../net/StateDelta';
+
+// Room (server process) -> simulation child process
+export type ToSimulation =
+  | { type: 'start'; setup: MatchSetup }
+  | { type: 'input'; slot: number; input: PlayerInput };
+
+// Simulation child process -> room. Each seated slot gets its own state stream (it may not
+// see everything); slot null is the unfiltered one for spectators.
+export type FromSimulation =
+  | { type: 'state'; slot: number | null; tick: number; full?: GameSnapshot; delta?: SnapshotDelta }
+  | { type: 'match-end'; winnerIndex: number | null };
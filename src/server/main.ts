@@ -0,0 +1,12 @@
+#!/usr/bin/env node
+// Authoritative game server: npm run server (PORT env var overrides the default port)
+import { GameServer } from './GameServer';
+import { DEFAULT_SERVER_PORT } from '../net/Protocol';
+
+const port = Number(process.env.PORT) || DEFAULT_SERVER_PORT;
+const server = new GameServer(port);
+
+process.on('SIGINT', () => {
+  server.close();
+  process.exit(0);
+});
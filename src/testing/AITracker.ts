@@ -21,6 +21,12 @@ interface BombEntry {
   range: number;
 }
 
+interface DeathEntry {
+  timestamp: number;
+  playerIndex: number;
+  killerIndex: number | null;
+}
+
 interface AnalysisResult {
   oscillations: Array<{
     playerIndex: number;
@@ -52,7 +58,7 @@ export class AITracker {
   private bombs: BombEntry[] = [];
   private lastPositions: Map<number, {pixelX: number; pixelY: number; timestamp: number}> = new Map();
   private lastDirections: Map<number, {dir: Direction; timestamp: number}[]> = new Map();
-  private playerDeaths: Map<number, number> = new Map(); // playerIndex -> death timestamp
+  private deaths: DeathEntry[] = [];
   private startTime: number = 0;
   private isTracking: boolean = false;
 
@@ -61,7 +67,7 @@ export class AITracker {
     this.bombs = [];
     this.lastPositions.clear();
     this.lastDirections.clear();
-    this.playerDeaths.clear();
+    this.deaths = [];
     this.startTime = Date.now();
     this.isTracking = true;
     console.log('[AITracker] Started tracking');
@@ -122,12 +128,12 @@ export class AITracker {
     console.log(`[AITracker] Player ${player.playerIndex} placed bomb at (${entry.gridX}, ${entry.gridY}) range=${entry.range} t=${timestamp}ms`);
   }
 
-  trackDeath(player: Player): void {
+  trackDeath(player: Player, killer: Player | null): void {
     if (!this.isTracking) return;
 
     const timestamp = Date.now() - this.startTime;
-    this.playerDeaths.set(player.playerIndex, timestamp);
-    console.log(`[AITracker] Player ${player.playerIndex} died at t=${timestamp}ms`);
+    this.deaths.push({ timestamp, playerIndex: player.playerIndex, killerIndex: killer ? killer.playerIndex : null });
+    console.log(`[AITracker] Player ${player.playerIndex} died at t=${timestamp}ms (killer: ${killer ? killer.playerIndex : 'none'})`);
   }
 
   analyze(): AnalysisResult {
@@ -158,7 +164,7 @@ export class AITracker {
       this.detectRapidDirectionChanges(playerIndex, moves, result);
     }
 
-    // Detect suicidal bombs (player dies shortly after placing bomb)
+    // Detect suicidal bombs (player killed by their own bomb)
     this.detectSuicidalBombs(result);
 
     return result;
@@ -266,22 +272,22 @@ export class AITracker {
     }
   }
 
+  // Self-kills, each blamed on the victim's last bomb before it
   private detectSuicidalBombs(result: AnalysisResult): void {
-    const suicideWindow = 4000; // 4 seconds (bomb fuse time + buffer)
-
-    for (const bomb of this.bombs) {
-      const deathTime = this.playerDeaths.get(bomb.playerIndex);
-      if (deathTime !== undefined) {
-        const timeToDeath = deathTime - bomb.timestamp;
-        if (timeToDeath > 0 && timeToDeath <= suicideWindow) {
-          result.suicidalBombs.push({
-            playerIndex: bomb.playerIndex,
-            timestamp: bomb.timestamp,
-            bombPosition: {x: bomb.gridX, y: bomb.gridY},
-            playerDiedAt: deathTime
-          });
-        }
-      }
+    for (const death of this.deaths) {
+      if (death.killerIndex !== death.playerIndex) continue;
+
+      const bomb = this.bombs
+        .filter(b => b.playerIndex === death.playerIndex && b.timestamp <= death.timestamp)
+        .pop();
+      if (!bomb) continue;
+
+      result.suicidalBombs.push({
+        playerIndex: death.playerIndex,
+        timestamp: bomb.timestamp,
+        bombPosition: {x: bomb.gridX, y: bomb.gridY},
+        playerDiedAt: death.timestamp
+      });
     }
   }
 
@@ -292,7 +298,7 @@ export class AITracker {
 
     console.log(`Total movements tracked: ${this.movements.length}`);
     console.log(`Total bombs tracked: ${this.bombs.length}`);
-    console.log(`Total deaths tracked: ${this.playerDeaths.size}`);
+    console.log(`Total deaths tracked: ${this.deaths.length}`);
 
     if (analysis.oscillations.length > 0) {
       console.log(`\n⚠️  OSCILLATIONS DETECTED: ${analysis.oscillations.length}`);
@@ -345,7 +351,7 @@ export class AITracker {
     return JSON.stringify({
       movements: this.movements,
       bombs: this.bombs,
-      deaths: Object.fromEntries(this.playerDeaths),
+      deaths: this.deaths,
       analysis: this.analyze()
     }, null, 2);
   }
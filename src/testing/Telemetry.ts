@@ -1,3 +1,5 @@
+import { MatchStats } from '../core/MatchStats';
+
 export interface AIDecision {
   playerId: number;
   timestamp: number;
@@ -26,6 +28,7 @@ export interface GameResult {
   winnerId: number | null;
   isDraw: boolean;
   roundDuration: number;
+  seed?: number;
   playerStats: PlayerStats[];
 }
 
@@ -37,10 +40,22 @@ export interface PlayerStats {
   bombsPlaced: number;
   blocksDestroyed: number;
   powerUpsCollected: number;
+  powerUpsByType: Record<string, number>;
   damageDealt: number;
+  kills: number;
+  deaths: number;
+  suicides: number;
+  distanceWalked: number;  // Tiles
+  timeAlive: number;       // Seconds
+  kicks: number;
+  punches: number;
+  teleports: number;
+  biggestChain: number;
   causeOfDeath?: string;
 }
 
+type PlayerConfig = { id: number; isAI: boolean; difficulty?: 'easy' | 'medium' | 'hard' };
+
 export interface TestRunSummary {
   totalGames: number;
   aiWins: { easy: number; medium: number; hard: number };
@@ -63,7 +78,7 @@ export class Telemetry {
 
   private aiDecisions: AIDecision[] = [];
   private gameEvents: GameEvent[] = [];
-  private currentGameStats: Map<number, Partial<PlayerStats>> = new Map();
+  private currentPlayers: PlayerConfig[] = [];
   private testResults: GameResult[] = [];
 
   private constructor() {}
@@ -90,26 +105,13 @@ export class Telemetry {
   reset(): void {
     this.aiDecisions = [];
     this.gameEvents = [];
-    this.currentGameStats.clear();
+    this.currentPlayers = [];
     this.testResults = [];
   }
 
-  startGame(players: Array<{ id: number; isAI: boolean; difficulty?: 'easy' | 'medium' | 'hard' }>): void {
+  startGame(players: PlayerConfig[]): void {
     if (!this.enabled) return;
-
-    this.currentGameStats.clear();
-    players.forEach(player => {
-      this.currentGameStats.set(player.id, {
-        playerId: player.id,
-        isAI: player.isAI,
-        difficulty: player.difficulty,
-        survived: true,
-        bombsPlaced: 0,
-        blocksDestroyed: 0,
-        powerUpsCollected: 0,
-        damageDealt: 0,
-      });
-    });
+    this.currentPlayers = players;
   }
 
   recordAIDecision(decision: AIDecision): void {
@@ -120,32 +122,37 @@ export class Telemetry {
   recordEvent(event: GameEvent): void {
     if (!this.enabled) return;
     this.gameEvents.push(event);
-
-    const stats = event.playerId !== undefined ? this.currentGameStats.get(event.playerId) : null;
-    if (!stats) return;
-
-    switch (event.type) {
-      case 'bomb_placed':
-        stats.bombsPlaced = (stats.bombsPlaced || 0) + 1;
-        break;
-      case 'block_destroyed':
-        stats.blocksDestroyed = (stats.blocksDestroyed || 0) + 1;
-        break;
-      case 'powerup_collected':
-        stats.powerUpsCollected = (stats.powerUpsCollected || 0) + 1;
-        break;
-      case 'player_death':
-        stats.survived = false;
-        stats.causeOfDeath = event.data?.cause || 'unknown';
-        break;
-    }
   }
 
-  endGame(result: GameResult): void {
+  // Player stats come from the game's own collector - the same numbers the post-match screen shows
+  endGame(result: Omit<GameResult, 'playerStats'>, stats: MatchStats): void {
     if (!this.enabled) return;
 
-    result.playerStats = Array.from(this.currentGameStats.values()) as PlayerStats[];
-    this.testResults.push(result);
+    const playerStats = this.currentPlayers.map((player): PlayerStats => {
+      const s = stats.get(player.id);
+      return {
+        playerId: player.id,
+        isAI: player.isAI,
+        difficulty: player.difficulty,
+        survived: s.deathCause === null,
+        bombsPlaced: s.bombsPlaced,
+        blocksDestroyed: s.blocksDestroyed,
+        powerUpsCollected: Object.values(s.powerUps).reduce((sum, n) => sum + n, 0),
+        powerUpsByType: { ...s.powerUps },
+        damageDealt: 0,
+        kills: s.kills,
+        deaths: s.deaths,
+        suicides: s.suicides,
+        distanceWalked: s.distance,
+        timeAlive: s.timeAlive,
+        kicks: s.kicks,
+        punches: s.punches,
+        teleports: s.teleports,
+        biggestChain: s.biggestChain,
+        causeOfDeath: s.deathCause ?? undefined,
+      };
+    });
+    this.testResults.push({ ...result, playerStats });
   }
 
   getGameResults(): GameResult[] {
@@ -199,6 +206,7 @@ export class Telemetry {
           stats.games++;
           stats.totalBombs += player.bombsPlaced;
           stats.totalBlocks += player.blocksDestroyed;
+          stats.totalSurvivalTime += player.timeAlive;
 
           if (player.playerId === result.winnerId) {
             stats.wins++;
@@ -227,7 +235,7 @@ export class Telemetry {
           winRate: stats.wins / stats.games,
           avgBombsPlaced: stats.totalBombs / stats.games,
           avgBlocksDestroyed: stats.totalBlocks / stats.games,
-          avgSurvivalTime: 0,
+          avgSurvivalTime: stats.totalSurvivalTime / stats.games,
           commonCausesOfDeath: deathCauses,
         };
       }
@@ -1,6 +1,13 @@
 import { Game } from '../Game';
 import { Telemetry, GameResult } from './Telemetry';
-import { GamePhase } from '../constants';
+import { GamePhase, COUNTDOWN_TIME, TICK_RATE, TICK_DURATION } from '../constants';
+import { parseReplay, serializeReplay } from '../replay/Replay';
+import { parseSnapshot, serializeSnapshot } from '../core/GameSnapshot';
+import { generateSeed } from '../core/Random';
+import { MatchSetup } from '../core/MatchSetup';
+import { GameRules, DEFAULT_RULES } from '../rules/GameRules';
+import { RollbackConfig, RollbackSession } from '../net/RollbackSession';
+import { LoopbackOptions, createLoopbackPair } from '../net/PeerTransport';
 import * as fs from 'fs';
 
 export interface TestConfig {
@@ -9,6 +16,16 @@ export interface TestConfig {
   maxRoundTime?: number;
   mapIndex?: number;
   verbose?: boolean;
+  seed?: number;  // Game N uses seed + N - 1, so a whole run can be reproduced
+  saveReplays?: boolean;
+  snapshotFile?: string;     // Start every game from this mid-game position instead of a fresh round
+  dumpSnapshotAt?: number;   // Write a snapshot after this many seconds of simulation
+  rules?: GameRules;         // Rules every game is played with (default: classic)
+}
+
+export interface RollbackTestOptions {
+  network: LoopbackOptions;
+  rollback: RollbackConfig;
 }
 
 export interface TestGame {
@@ -39,7 +56,8 @@ export class TestHarness {
     this.telemetry.enable();
 
     console.log(`\nStarting test run: ${this.config.numGames} games`);
-    console.log(`AI Difficulties: ${this.config.aiDifficulties.join(', ')}\n`);
+    console.log(`AI Difficulties: ${this.config.aiDifficulties.join(', ')}`);
+    console.log(`Rules: ${(this.config.rules ?? DEFAULT_RULES).name}\n`);
 
     for (let gameNum = 0; gameNum < this.config.numGames; gameNum++) {
       await this.runSingleGame(gameNum + 1);
@@ -55,7 +73,7 @@ export class TestHarness {
       process.stdout.write(`Game ${gameNum}/${this.config.numGames}... `);
     }
 
-    const testGame = await this.createTestGame();
+    const testGame = await this.createTestGame(gameNum);
     const startTime = Date.now();
 
     const playerConfigs = this.config.aiDifficulties.map((difficulty, index) => ({
@@ -69,48 +87,178 @@ export class TestHarness {
     let gameTime = 0;
     const maxGameTime = this.config.maxRoundTime! * 1000;
 
+    const dumpAt = this.config.dumpSnapshotAt !== undefined ? this.config.dumpSnapshotAt * 1000 : null;
+
     while (testGame.getPhase() !== GamePhase.GAME_OVER && gameTime < maxGameTime) {
       testGame.update(fixedTimeStep / 1000);
       gameTime += fixedTimeStep;
 
+      if (dumpAt !== null && gameTime >= dumpAt && gameTime - fixedTimeStep < dumpAt) {
+        const filename = `snapshot-game${gameNum}-t${this.config.dumpSnapshotAt}.json`;
+        fs.writeFileSync(filename, serializeSnapshot(testGame.game.createSnapshot()));
+        if (this.config.verbose) {
+          console.log(`Snapshot saved to: ${filename}`);
+        }
+      }
+
       await this.sleep(0);
     }
 
     const winner = testGame.getWinner();
-    const roundDuration = (this.config.maxRoundTime! * 1000 - testGame.getRoundTime() * 1000) / 1000;
+    const roundDuration = (this.config.rules ?? DEFAULT_RULES).roundTime - testGame.getRoundTime();
 
-    const result: GameResult = {
-      winnerId: winner?.id ?? null,
+    const result: Omit<GameResult, 'playerStats'> = {
+      winnerId: winner?.playerIndex ?? null,
       isDraw: winner === null,
       roundDuration,
-      playerStats: [],
+      seed: testGame.game.getSeed(),
     };
 
-    this.telemetry.endGame(result);
+    this.telemetry.endGame(result, testGame.game.getMatchStats());
+
+    if (this.config.saveReplays) {
+      const replay = testGame.game.getReplay();
+      if (replay) {
+        const filename = `replay-game${gameNum}-${replay.seed}.json`;
+        fs.writeFileSync(filename, serializeReplay(replay));
+        if (this.config.verbose) {
+          console.log(`Replay saved to: ${filename}`);
+        }
+      }
+    }
+
+    // Detach from the shared EventBus so this game can't react to the next one's events
+    testGame.game.destroy();
 
     const elapsed = Date.now() - startTime;
 
     if (this.config.verbose) {
-      console.log(`Winner: ${winner ? `Player ${winner.id} (${this.config.aiDifficulties[winner.id]})` : 'Draw'}`);
+      console.log(`Winner: ${winner ? `Player ${winner.playerIndex} (${this.config.aiDifficulties[winner.playerIndex]})` : 'Draw'}`);
       console.log(`Duration: ${roundDuration.toFixed(1)}s (real: ${elapsed}ms)`);
+      console.log(`Seed: ${testGame.game.getSeed()}`);
     } else {
-      const winnerStr = winner ? `P${winner.id}(${this.config.aiDifficulties[winner.id]})` : 'Draw';
+      const winnerStr = winner ? `P${winner.playerIndex}(${this.config.aiDifficulties[winner.playerIndex]})` : 'Draw';
       console.log(`${winnerStr} in ${roundDuration.toFixed(1)}s`);
     }
   }
 
-  private async createTestGame(): Promise<TestGame> {
+  // Play a recorded match back headlessly - used to reproduce AI bugs exactly
+  async runReplay(filename: string): Promise<void> {
+    const replay = parseReplay(fs.readFileSync(filename, 'utf-8'));
+
+    console.log(`\nReplaying ${filename}`);
+    console.log(`Seed: ${replay.seed}, map: ${replay.mapIndex}, players: ${replay.players.length}, frames: ${replay.frameCount}`);
+
+    const fakeCanvas = document.createElement('canvas') as any;
+    const game = new Game(fakeCanvas);
+    game.startReplay(replay);
+
+    // Countdown + every recorded tick + time for the game-over transition
+    const maxTicks = (COUNTDOWN_TIME + 5) * TICK_RATE + replay.frameCount;
+    let ticks = 0;
+    while ((game as any).phase !== GamePhase.GAME_OVER && ticks < maxTicks) {
+      (game as any).update(1 / TICK_RATE);
+      ticks++;
+    }
+
+    const winner = (game as any).winner;
+    const phase = (game as any).phase;
+    if (phase !== GamePhase.GAME_OVER) {
+      console.log(`Replay ended without a result after ${ticks} ticks`);
+    } else {
+      console.log(`Result: ${winner ? `P${winner.playerIndex} wins` : 'Draw'} after ${ticks} ticks`);
+    }
+  }
+
+  // Two rollback peers in this process over a simulated network; each peer owns half the bots.
+  // Passes if the peers' state checksums never disagree.
+  async runRollback(options: RollbackTestOptions): Promise<void> {
+    const seed = this.config.seed ?? generateSeed();
+    const setup: MatchSetup = {
+      mapIndex: this.config.mapIndex || 0,
+      players: this.config.aiDifficulties.map(difficulty => ({ isAI: true, difficulty })),
+      rules: this.config.rules,
+    };
+
+    console.log(`\nRollback match, seed ${seed}`);
+    console.log(`Network: ${options.network.latency}ms +/- ${options.network.jitter}ms, ${(options.network.packetLoss * 100).toFixed(0)}% loss`);
+    console.log(`Input delay: ${options.rollback.inputDelay} frames, max rollback: ${options.rollback.maxRollback} frames\n`);
+
+    // Simulated clock, so the run doesn't depend on how fast this machine is
+    let clock = 0;
+    const links = createLoopbackPair(options.network, () => clock);
+    const slots = setup.players.map((_, index) => index);
+    const peerSlots = [slots.filter(i => i % 2 === 0), slots.filter(i => i % 2 === 1)];
+
+    const peers = peerSlots.map((localSlots, peerIndex) => {
+      const fakeCanvas = document.createElement('canvas') as any;
+      const game = new Game(fakeCanvas);
+      const session: RollbackSession = game.startRollbackMatch(
+        setup,
+        seed,
+        localSlots,
+        [{ slots: peerSlots[1 - peerIndex], transport: links[peerIndex] }],
+        options.rollback
+      );
+      // The peers share this process's EventBus and RNG - each takes its turn below
+      game.detach();
+      return { game, session };
+    });
+
+    const maxTicks = (COUNTDOWN_TIME + (this.config.maxRoundTime || 180) + 10) * TICK_RATE;
+    let ticks = 0;
+    let settleTicks = 0;
+    while (ticks < maxTicks && settleTicks < TICK_RATE) {
+      for (const { game } of peers) {
+        game.attach();
+        game.step(1 / TICK_RATE);
+        game.detach();
+      }
+      clock += TICK_DURATION;
+      ticks++;
+
+      // Keep going a moment after the end so the last checksums get exchanged
+      if (peers.every(({ game }) => game.getPhase() === GamePhase.GAME_OVER)) {
+        settleTicks++;
+      }
+    }
+
+    peers.forEach(({ game, session }, peerIndex) => {
+      const stats = session.getStats();
+      const winner = game.getWinnerIndex();
+      console.log(`Peer ${peerIndex} (slots ${peerSlots[peerIndex].join(',')}): ${winner !== null ? `P${winner} wins` : 'no winner'} at frame ${stats.frame}`);
+      console.log(`  Rollbacks: ${stats.rollbacks} (${stats.resimulatedFrames} frames re-simulated, deepest ${stats.maxRollbackDepth})`);
+      console.log(`  Stalls: ${stats.stalls}, checksums compared: ${stats.checksumsCompared}`);
+    });
+
+    const desync = peers.map(({ session }) => session.getStats().desyncFrame).find(frame => frame !== null);
+    console.log(desync !== undefined ? `\nDESYNC at frame ${desync}` : '\nPeers stayed in sync');
+
+    for (const { game } of peers) {
+      game.destroy();
+    }
+  }
+
+  private async createTestGame(gameNum: number): Promise<TestGame> {
     const fakeCanvas = document.createElement('canvas') as any;
 
     const game = new Game(fakeCanvas);
+    if (this.config.seed !== undefined) {
+      game.setSeed(this.config.seed + gameNum - 1);
+    }
 
     (game as any).isSinglePlayer = true;
     (game as any).playerCount = this.config.aiDifficulties.length;
     (game as any).aiDifficulty = this.config.aiDifficulties[1] || 'medium';
     (game as any).selectedMapIndex = this.config.mapIndex || 0;
+    (game as any).rules = this.config.rules ?? DEFAULT_RULES;
 
     (game as any).startNewGame();
 
+    if (this.config.snapshotFile) {
+      game.restoreSnapshot(parseSnapshot(fs.readFileSync(this.config.snapshotFile, 'utf-8')));
+    }
+
     const aiDifficulties = this.config.aiDifficulties;
     const players = (game as any).players;
     const aiControllers = (game as any).aiControllers;
@@ -154,6 +302,7 @@ export class TestHarness {
       console.log(`    Win Rate: ${(stats.winRate * 100).toFixed(1)}%`);
       console.log(`    Avg Bombs Placed: ${stats.avgBombsPlaced.toFixed(1)}`);
       console.log(`    Avg Blocks Destroyed: ${stats.avgBlocksDestroyed.toFixed(1)}`);
+      console.log(`    Avg Time Alive: ${stats.avgSurvivalTime.toFixed(1)}s`);
 
       if (Object.keys(stats.commonCausesOfDeath).length > 0) {
         console.log(`    Common Causes of Death:`);
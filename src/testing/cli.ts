@@ -1,10 +1,34 @@
 #!/usr/bin/env node
 
 import { setupGlobalMocks } from './setupGlobals.js';
-import { TestHarness, TestConfig } from './TestHarness.js';
+import { TestHarness, TestConfig, RollbackTestOptions } from './TestHarness.js';
+import { DEFAULT_ROLLBACK_CONFIG } from '../net/RollbackSession.js';
+import { GameRules, RULE_PRESETS, findRulePreset, parseRules } from '../rules/GameRules.js';
+import * as fs from 'fs';
 
 setupGlobalMocks();
 
+// Set by --replay: play this file back instead of running new games
+let replayFile: string | null = null;
+
+// Set by --rollback: play one peer-to-peer match over a simulated network instead
+let rollbackOptions: RollbackTestOptions | null = null;
+
+function getRollbackOptions(): RollbackTestOptions {
+  if (!rollbackOptions) {
+    rollbackOptions = {
+      network: { latency: 50, jitter: 10, packetLoss: 0.05 },
+      rollback: { ...DEFAULT_ROLLBACK_CONFIG },
+    };
+  }
+  return rollbackOptions;
+}
+
+// --rules takes a preset id or the path to a rules JSON file
+function loadRules(value: string): GameRules {
+  return findRulePreset(value) ?? parseRules(JSON.parse(fs.readFileSync(value, 'utf-8')));
+}
+
 function parseArgs(): TestConfig {
   const args = process.argv.slice(2);
 
@@ -41,6 +65,56 @@ function parseArgs(): TestConfig {
         config.mapIndex = parseInt(args[++i], 10);
         break;
 
+      case '-s':
+      case '--seed':
+        config.seed = parseInt(args[++i], 10) >>> 0;
+        break;
+
+      case '--rules':
+        config.rules = loadRules(args[++i]);
+        break;
+
+      case '--save-replays':
+        config.saveReplays = true;
+        break;
+
+      case '--snapshot':
+        config.snapshotFile = args[++i];
+        break;
+
+      case '--dump-snapshot':
+        config.dumpSnapshotAt = parseFloat(args[++i]);
+        break;
+
+      case '-r':
+      case '--replay':
+        replayFile = args[++i];
+        break;
+
+      case '--rollback':
+        getRollbackOptions();
+        break;
+
+      case '--latency':
+        getRollbackOptions().network.latency = parseFloat(args[++i]);
+        break;
+
+      case '--jitter':
+        getRollbackOptions().network.jitter = parseFloat(args[++i]);
+        break;
+
+      case '--loss':
+        getRollbackOptions().network.packetLoss = parseFloat(args[++i]);
+        break;
+
+      case '--input-delay':
+        getRollbackOptions().rollback.inputDelay = parseInt(args[++i], 10);
+        break;
+
+      case '--max-rollback':
+        getRollbackOptions().rollback.maxRollback = parseInt(args[++i], 10);
+        break;
+
       case '-v':
       case '--verbose':
         config.verbose = true;
@@ -74,6 +148,18 @@ Options:
                                  Example: easy,medium,hard,hard
   -t, --time <seconds>           Max round time in seconds (default: 180)
   -m, --map <index>              Map index to use (default: 0)
+  -s, --seed <number>            Seed for the first game; game N uses seed + N - 1 (default: random)
+  --rules <preset|file>          Rules for every game: ${RULE_PRESETS.map(rules => rules.id).join(', ')} or a JSON file (default: classic)
+  --save-replays                 Write a replay file for every game (replay-game<N>-<seed>.json)
+  -r, --replay <file>            Play back a saved replay headlessly and print the result
+  --snapshot <file>              Start every game from a saved mid-game snapshot
+  --dump-snapshot <seconds>      Save a snapshot of each game after <seconds> of play
+  --rollback                     Play one rollback (peer-to-peer) match between two local peers
+  --latency <ms>                 Rollback: one-way network latency (default: 50)
+  --jitter <ms>                  Rollback: latency jitter (default: 10)
+  --loss <0-1>                   Rollback: packet loss rate (default: 0.05)
+  --input-delay <frames>         Rollback: local input delay (default: 2)
+  --max-rollback <frames>        Rollback: frames to predict ahead before stalling (default: 8)
   -v, --verbose                  Verbose output
   -h, --help                     Show this help message
 
@@ -82,6 +168,11 @@ Examples:
   npm run test-ai -- -n 50                           # Run 50 games
   npm run test-ai -- -d easy,medium,hard,hard        # Test different AI difficulties
   npm run test-ai -- -n 100 -v                       # Run 100 games with verbose output
+  npm run test-ai -- -n 1 -s 12345 -v                # Reproduce a single game from its seed
+  npm run test-ai -- -r replay-game1-12345.json      # Re-run a recorded game exactly
+  npm run test-ai -- -n 20 --rules chaos             # Balance-check a rule preset
+  npm run test-ai -- -n 1 --snapshot snapshot.json -v # Play on from a saved mid-game position
+  npm run test-ai -- --rollback --latency 100 --loss 0.1 # Check rollback peers stay in sync
   `);
 }
 
@@ -92,6 +183,16 @@ async function main(): Promise<void> {
 
   const harness = new TestHarness(config);
 
+  if (replayFile) {
+    await harness.runReplay(replayFile);
+    return;
+  }
+
+  if (rollbackOptions) {
+    await harness.runRollback(rollbackOptions);
+    return;
+  }
+
   try {
     await harness.runTests();
 
@@ -30,6 +30,10 @@ export class MockInputManager {
     return this.simulatedInputs.get(playerId)?.special || false;
   }
 
+  isSpecialHeld(playerId: number): boolean {
+    return this.simulatedInputs.get(playerId)?.special || false;
+  }
+
   isKeyPressed(_key: string): boolean {
     return false;
   }
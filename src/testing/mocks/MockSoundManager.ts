@@ -20,7 +20,9 @@ type SoundType =
   | 'blockDestroy'
   | 'footstep'
   | 'playerPushback'
-  | 'diarrheaBomb';
+  | 'diarrheaBomb'
+  | 'suddenDeath'
+  | 'blockDrop';
 
 class MockSoundManagerClass {
   playSound(_type: SoundType, _volume?: number): void {